@@ -1,165 +1,643 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import {
+  LAYERS,
+  OP_DIFFERS,
+  TIE_BREAKS,
+  VALUE_DIFFERS,
+  alignmentRows,
+  bitAt,
+  buildEditScript,
+  compareTables,
+  countEdits,
+  editDistance,
+  formatCost,
+  formatTable,
+  fuzzySearch,
+  hirschberg,
+  maximizes,
+  moveOf,
+  myers,
+  opLayer,
+  optimalDag,
+  parseSubstitutions,
+  sliceText,
+  tokenJoiner,
+} from "./engine";
+import type {
+  AlignColumn,
+  Algorithm,
+  Alignment,
+  Band,
+  CellExplain,
+  EditCosts,
+  EditDistanceResult,
+  EditOperation,
+  FillOrder,
+  FuzzySearchResult,
+  HirschbergFrame,
+  HirschbergResult,
+  Layer,
+  Move,
+  MyersColumn,
+  Op,
+  ParentLookup,
+  PathCell,
+  Region,
+  Scores,
+  SubstringHit,
+  TableFormat,
+  TieBreak,
+  TableComparison,
+  Tokenization,
+} from "./engine";
+import { canvasBlob, downloadBlob, gifScale, gridSvg, rasterize, recordGif, recordWebm, webmSupported } from "./media";
+import type { CellTone, GridFrame } from "./media";
+import { LANGUAGES, MESSAGES, matchLanguage, textDirection } from "./i18n";
+import type { Direction, Language, Messages, Unit } from "./i18n";
+import {
+  candidateLabel,
+  describeEdit,
+  describeHirschbergFrame,
+  describeMyersColumn,
+  describePrompt,
+  describeStep,
+  opLabel,
+  optimumLabelOf,
+  spokenToken,
+} from "./narration";
+import {
+  alignmentIndexOf,
+  checkCell,
+  extendTrace,
+  optimalOps,
+  parseAnswer,
+  quizAt,
+  startTrace,
+  traceOptions,
+  tracePath,
+} from "./practice";
+import type { Trace } from "./practice";
 
 /**
- * Edit Distance (Levenshtein) Visualizer
+ * Edit Distance (Levenshtein) Visualizer — the UI over the headless engine in ./engine
  * - DP grid with row/col labels
- * - Step through fill order (row-major)
+ * - Step through fill order (row-major, column-major or anti-diagonal wavefront)
  * - Shows chosen operation(s) for each cell
- * - Optional backtrace of one optimal path
+ * - Levenshtein, optimal string alignment (OSA), Damerau–Levenshtein or affine gaps (Gotoh), or the
+ *   similarity recurrences LCS, Needleman–Wunsch and Smith–Waterman
+ * - Optional backtrace of every optimal path (browse them one at a time),
+ *   animated cell by cell after the fill finishes
+ * - Word-list search: rank a pasted list against A with trie-shared rows, open any result in the grid
+ * - Substring mode: find B anywhere in A within k (Sellers), with the hits marked in the text
+ * - Practice mode: type each cell's value (and optionally its operation), then trace an optimal path back
+ * - Export the current frame (SVG / PNG), the whole playback (GIF / WebM) or the table (CSV / Markdown / LaTeX / text)
+ * - Split view: a second configuration on the same strings, played in step, with the differences highlighted
+ * - Accessible: an ARIA grid with arrow-key navigation, each step read out in a live region, a high-contrast
+ *   theme and a reduced-motion mode
+ * - English, Spanish, French or Arabic (./i18n), and a mirrored grid for right-to-left strings
  *
  * Drop into a React app. Tailwind classes are used for styling.
  */
 
-type Op = "init" | "match" | "replace" | "insert" | "delete";
-
-type CellExplain = {
-  i: number;
-  j: number;
-  aChar?: string;
-  bChar?: string;
-  cost: number;
-  candidates: {
-    op: Op;
-    from: [number, number] | null;
-    value: number;
-  }[];
-  chosen: {
-    op: Op;
-    from: [number, number] | null;
-    value: number;
-  };
+// the options' labels are in the message catalog (./i18n), per language
+const ALGORITHMS: Algorithm[] = ["levenshtein", "osa", "damerau", "gotoh", "lcs", "needleman-wunsch", "smith-waterman"];
+
+const TOKENIZATIONS: Tokenization[] = ["codepoint", "grapheme", "word", "line"];
+
+/** How the table is computed: every cell, Hirschberg's divide and conquer or Myers' bit vectors (Levenshtein only). */
+type Method = "full" | "hirschberg" | "myers";
+
+const METHODS: Method[] = ["full", "hirschberg", "myers"];
+
+/** Which of Gotoh's matrices the grid shows: their minimum, one of them, or all three per cell. */
+type LayerView = "min" | Layer | "stacked";
+
+const LAYER_VIEWS: LayerView[] = ["min", "M", "X", "Y", "stacked"];
+
+const FILL_ORDERS: FillOrder[] = ["row-major", "column-major", "anti-diagonal"];
+
+type ExportKind = "svg" | "png" | "gif" | "webm" | TableFormat;
+
+const EXPORTS: { group: keyof Messages["toolbar"]["exportGroups"]; options: ExportKind[] }[] = [
+  { group: "frame", options: ["svg", "png"] },
+  { group: "playback", options: ["gif", "webm"] },
+  { group: "table", options: ["csv", "markdown", "latex", "text"] },
+];
+
+const TABLE_FILES: Record<TableFormat, [string, string]> = {
+  csv: ["dp-table.csv", "text/csv"],
+  markdown: ["dp-table.md", "text/markdown"],
+  latex: ["dp-table.tex", "application/x-tex"],
+  text: ["dp-table.txt", "text/plain"],
+};
+
+// image exports draw every cell; bigger tables only export as text
+const EXPORT_MAX_CELLS = 2500;
+// a GIF is encoded frame by frame on the page, with about one frame per cell; past this it takes too long
+const GIF_MAX_CELLS = 400;
+
+// the split view compares chosen operations cell by cell, which is only quick enough up to here
+const COMPARE_MAX_CELLS = 100_000;
+
+/** The right-hand side of the split view; A, B, tokenization, scores and substitutions are shared. */
+type CompareConfig = {
+  algorithm: Algorithm;
+  tieBreak: number;
+  fillOrder: FillOrder;
+  weights: Omit<EditCosts, "substitutions">;
+};
+
+/** Practice mode: the answer being typed for the cell asked, plus the running score. */
+type QuizState = {
+  value: string;
+  op: Op | "";
+  /** wrong values entered for the cell being asked */
+  tries: number;
+  /** its candidates revealed as hints so far */
+  hints: number;
+  feedback: { ok: boolean; text: string } | null;
+  asked: number;
+  firstTry: number;
+  opsAsked: number;
+  opsRight: number;
+  hintsUsed: number;
+  /** the trace-back exercise, once the learner has taken a first step */
+  trace: Trace | null;
+  traceMistakes: number;
+  /** a predecessor the learner asked to be shown */
+  traceHint: [number, number] | null;
+};
+
+const NEW_QUIZ: QuizState = {
+  value: "",
+  op: "",
+  tries: 0,
+  hints: 0,
+  feedback: null,
+  asked: 0,
+  firstTry: 0,
+  opsAsked: 0,
+  opsRight: 0,
+  hintsUsed: 0,
+  trace: null,
+  traceMistakes: 0,
+  traceHint: null,
+};
+
+/** Everything a shared link or saved preset restores. */
+type ShareState = {
+  a: string;
+  b: string;
+  algorithm: Algorithm;
+  method: Method;
+  /** Ukkonen's threshold; null fills the whole table */
+  maxDistance: number | null;
+  /** batch mode: rank every line of `list` against A; B is the result opened in the grid */
+  search: boolean;
+  list: string;
+  /** Sellers' substring mode: find B anywhere in A within maxDistance */
+  substring: boolean;
+  tokenization: Tokenization;
+  /** which way the grid's columns run; auto follows the first letter of A, then B */
+  direction: "auto" | Direction;
+  weights: Omit<EditCosts, "substitutions">;
+  subsText: string;
+  scores: Scores;
+  tieBreak: number;
+  fillOrder: FillOrder;
+  wavePerTick: boolean;
+  speed: number;
+  showBacktrace: boolean;
+  /** the learner fills the cells instead of watching */
+  practice: boolean;
+  /** split view: the second configuration, null when off */
+  compare: CompareConfig | null;
+  step: number;
+  alignment: number;
+};
+
+const DEFAULT_SHARE_STATE: ShareState = {
+  a: "intention",
+  b: "execution",
+  algorithm: "levenshtein",
+  method: "full",
+  maxDistance: null,
+  search: false,
+  list: "",
+  substring: false,
+  tokenization: "grapheme",
+  direction: "auto",
+  weights: { insert: 1, delete: 1, replace: 1, transpose: 1, gapOpen: 2 },
+  subsText: "",
+  scores: { match: 1, mismatch: -1, gap: -2 },
+  tieBreak: 0,
+  fillOrder: "row-major",
+  wavePerTick: false,
+  speed: 350,
+  showBacktrace: true,
+  practice: false,
+  compare: null,
+  step: 0,
+  alignment: 0,
+};
+
+const DEFAULT_COMPARE: CompareConfig = {
+  algorithm: "levenshtein",
+  tieBreak: 0,
+  fillOrder: "row-major",
+  weights: DEFAULT_SHARE_STATE.weights,
+};
+
+// a preset only lists what it changes from DEFAULT_SHARE_STATE, so it never inherits the last one's settings
+type Preset = { name: string; state: Partial<ShareState> };
+
+/** The built-in examples, named in the page's language rather than by whoever saved them. */
+type ClassicPreset = { id: keyof Messages["toolbar"]["presets"]; state: Partial<ShareState> };
+
+const CLASSIC_PRESETS: ClassicPreset[] = [
+  { id: "intention", state: { a: "intention", b: "execution" } },
+  { id: "kitten", state: { a: "kitten", b: "sitting" } },
+  { id: "sunday", state: { a: "sunday", b: "saturday" } },
+  { id: "empty", state: { a: "", b: "" } },
+  { id: "emptyToAbc", state: { a: "", b: "abc" } },
+  { id: "identical", state: { a: "levenshtein", b: "levenshtein" } },
+  { id: "transposition", state: { a: "ca", b: "abc", algorithm: "damerau" } },
+  { id: "lcs", state: { a: "ABCBDAB", b: "BDCABA", algorithm: "lcs" } },
+  {
+    id: "smithWaterman",
+    state: {
+      a: "TGTTACGG",
+      b: "GGTTGACTA",
+      algorithm: "smith-waterman",
+      scores: { match: 3, mismatch: -3, gap: -2 },
+    },
+  },
+  { id: "threshold", state: { a: "intention", b: "execution", maxDistance: 2 } },
+  {
+    id: "compareReplace",
+    state: {
+      a: "sunday",
+      b: "saturday",
+      compare: { ...DEFAULT_COMPARE, weights: { ...DEFAULT_COMPARE.weights, replace: 2 } },
+    },
+  },
+  {
+    id: "findBrown",
+    state: { a: "the quick brwn fox jumps over the browne dog", b: "brown", substring: true, maxDistance: 1 },
+  },
+  {
+    id: "wordList",
+    state: {
+      a: "appel",
+      b: "apple",
+      search: true,
+      list: "apple\napply\napplesauce\nappeal\napparel\nample\nmaple\nchapel\nlapel\npanel",
+    },
+  },
+];
+
+const PRESETS_STORAGE_KEY = "edit-distance-visualizer:presets";
+
+function loadSavedPresets(): Preset[] {
+  try {
+    const raw = JSON.parse(window.localStorage.getItem(PRESETS_STORAGE_KEY) ?? "[]");
+    return Array.isArray(raw) ? raw.filter((p) => typeof p?.name === "string" && typeof p?.state === "object") : [];
+  } catch {
+    return [];
+  }
+}
+
+function storeSavedPresets(presets: Preset[]) {
+  try {
+    window.localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  } catch {
+    // storage full or disabled: presets just won't survive a reload
+  }
+}
+
+/** How the page looks rather than what it shows, so kept per browser instead of in shared links. */
+type DisplayPrefs = {
+  /** colour-blind-safe palette, heavier borders, and an icon or pattern wherever colour alone told things apart */
+  highContrast: boolean;
+  /** no fades, slides or smooth scrolling */
+  reducedMotion: boolean;
+  /** the catalog the page's words come from; Arabic also lays the page out right to left */
+  language: Language;
 };
 
+const DISPLAY_STORAGE_KEY = "edit-distance-visualizer:display";
+
+// until the user picks, follow the system settings and the browser's languages
+function loadDisplayPrefs(): DisplayPrefs {
+  const media = (q: string) => window.matchMedia?.(q).matches ?? false;
+  const defaults = {
+    highContrast: media("(prefers-contrast: more)") || media("(forced-colors: active)"),
+    reducedMotion: media("(prefers-reduced-motion: reduce)"),
+    language: matchLanguage(navigator.languages ?? [navigator.language]),
+  };
+  try {
+    const raw = JSON.parse(window.localStorage.getItem(DISPLAY_STORAGE_KEY) ?? "{}");
+    return {
+      highContrast: typeof raw?.highContrast === "boolean" ? raw.highContrast : defaults.highContrast,
+      reducedMotion: typeof raw?.reducedMotion === "boolean" ? raw.reducedMotion : defaults.reducedMotion,
+      language: LANGUAGES.some((l) => l.value === raw?.language) ? raw.language : defaults.language,
+    };
+  } catch {
+    return defaults;
+  }
+}
+
+function storeDisplayPrefs(prefs: DisplayPrefs) {
+  try {
+    window.localStorage.setItem(DISPLAY_STORAGE_KEY, JSON.stringify(prefs));
+  } catch {
+    // storage full or disabled: the system settings apply again next time
+  }
+}
+
+/** Serializes to `#a=…&b=…`, leaving out settings that are still at their defaults. */
+function encodeShareState(s: ShareState) {
+  const d = DEFAULT_SHARE_STATE;
+  const q = new URLSearchParams({ a: s.a, b: s.b });
+  if (s.algorithm !== d.algorithm) q.set("alg", s.algorithm);
+  if (s.method !== d.method) q.set("method", s.method);
+  if (s.maxDistance !== null) q.set("k", String(s.maxDistance));
+  if (s.search) q.set("search", "1");
+  if (s.list) q.set("list", s.list);
+  if (s.substring) q.set("find", "1");
+  if (s.tokenization !== d.tokenization) q.set("tok", s.tokenization);
+  if (s.direction !== d.direction) q.set("dir", s.direction);
+  if (s.weights.insert !== d.weights.insert) q.set("ins", String(s.weights.insert));
+  if (s.weights.delete !== d.weights.delete) q.set("del", String(s.weights.delete));
+  if (s.weights.replace !== d.weights.replace) q.set("rep", String(s.weights.replace));
+  if (s.weights.transpose !== d.weights.transpose) q.set("tr", String(s.weights.transpose));
+  if (s.weights.gapOpen !== d.weights.gapOpen) q.set("open", String(s.weights.gapOpen));
+  if (s.subsText) q.set("subs", s.subsText);
+  if (s.scores.match !== d.scores.match) q.set("match", String(s.scores.match));
+  if (s.scores.mismatch !== d.scores.mismatch) q.set("mismatch", String(s.scores.mismatch));
+  if (s.scores.gap !== d.scores.gap) q.set("gap", String(s.scores.gap));
+  if (s.tieBreak !== d.tieBreak) q.set("tie", String(s.tieBreak));
+  if (s.fillOrder !== d.fillOrder) q.set("order", s.fillOrder);
+  if (s.wavePerTick) q.set("wave", "1");
+  if (s.speed !== d.speed) q.set("speed", String(s.speed));
+  if (!s.showBacktrace) q.set("bt", "0");
+  if (s.practice) q.set("quiz", "1");
+  if (s.compare) {
+    const c = s.compare;
+    const dc = DEFAULT_COMPARE;
+    q.set("cmp", "1");
+    if (c.algorithm !== dc.algorithm) q.set("alg2", c.algorithm);
+    if (c.tieBreak !== dc.tieBreak) q.set("tie2", String(c.tieBreak));
+    if (c.fillOrder !== dc.fillOrder) q.set("order2", c.fillOrder);
+    if (c.weights.insert !== dc.weights.insert) q.set("ins2", String(c.weights.insert));
+    if (c.weights.delete !== dc.weights.delete) q.set("del2", String(c.weights.delete));
+    if (c.weights.replace !== dc.weights.replace) q.set("rep2", String(c.weights.replace));
+    if (c.weights.transpose !== dc.weights.transpose) q.set("tr2", String(c.weights.transpose));
+    if (c.weights.gapOpen !== dc.weights.gapOpen) q.set("open2", String(c.weights.gapOpen));
+  }
+  if (s.step) q.set("step", String(s.step));
+  if (s.alignment) q.set("aln", String(s.alignment));
+  return `#${q.toString()}`;
+}
+
+/** Reads whatever the hash specifies; malformed values are dropped rather than guessed. */
+function decodeShareState(hash: string): Partial<ShareState> {
+  const q = new URLSearchParams(hash.replace(/^#/, ""));
+  const out: Partial<ShareState> = {};
+  const num = (key: string, ok: (v: number) => boolean) => {
+    const raw = q.get(key);
+    const v = Number(raw);
+    return raw !== null && raw !== "" && ok(v) ? v : undefined;
+  };
+  const cost = (v: number) => v >= 0 && v < Infinity;
+  const index = (v: number) => Number.isInteger(v) && v >= 0;
+
+  const a = q.get("a");
+  const b = q.get("b");
+  if (a !== null) out.a = a;
+  if (b !== null) out.b = b;
+  const alg = q.get("alg");
+  if (ALGORITHMS.includes(alg as Algorithm)) out.algorithm = alg as Algorithm;
+  const method = q.get("method");
+  if (METHODS.includes(method as Method)) out.method = method as Method;
+  out.maxDistance = num("k", cost);
+  if (q.has("search")) out.search = q.get("search") === "1";
+  const list = q.get("list");
+  if (list !== null) out.list = list;
+  if (q.has("find")) out.substring = q.get("find") === "1";
+  const tok = q.get("tok");
+  if (TOKENIZATIONS.includes(tok as Tokenization)) out.tokenization = tok as Tokenization;
+  const dir = q.get("dir");
+  if (dir === "auto" || dir === "ltr" || dir === "rtl") out.direction = dir;
+  if (["ins", "del", "rep", "tr", "open"].some((k) => q.has(k))) {
+    const d = DEFAULT_SHARE_STATE.weights;
+    out.weights = {
+      insert: num("ins", cost) ?? d.insert,
+      delete: num("del", cost) ?? d.delete,
+      replace: num("rep", cost) ?? d.replace,
+      transpose: num("tr", cost) ?? d.transpose,
+      gapOpen: num("open", cost) ?? d.gapOpen,
+    };
+  }
+  const subs = q.get("subs");
+  if (subs !== null) out.subsText = subs;
+  if (["match", "mismatch", "gap"].some((k) => q.has(k))) {
+    const d = DEFAULT_SHARE_STATE.scores;
+    out.scores = {
+      match: num("match", Number.isFinite) ?? d.match,
+      mismatch: num("mismatch", Number.isFinite) ?? d.mismatch,
+      gap: num("gap", Number.isFinite) ?? d.gap,
+    };
+  }
+  out.tieBreak = num("tie", (v) => index(v) && v < TIE_BREAKS.length);
+  const order = q.get("order");
+  if (FILL_ORDERS.includes(order as FillOrder)) out.fillOrder = order as FillOrder;
+  if (q.has("wave")) out.wavePerTick = q.get("wave") === "1";
+  out.speed = num("speed", (v) => v >= 80 && v <= 900);
+  if (q.has("bt")) out.showBacktrace = q.get("bt") !== "0";
+  if (q.has("quiz")) out.practice = q.get("quiz") === "1";
+  if (q.has("cmp")) {
+    const dc = DEFAULT_COMPARE;
+    const alg2 = q.get("alg2");
+    const order2 = q.get("order2");
+    out.compare =
+      q.get("cmp") === "1"
+        ? {
+            algorithm: ALGORITHMS.includes(alg2 as Algorithm) ? (alg2 as Algorithm) : dc.algorithm,
+            tieBreak: num("tie2", (v) => index(v) && v < TIE_BREAKS.length) ?? dc.tieBreak,
+            fillOrder: FILL_ORDERS.includes(order2 as FillOrder) ? (order2 as FillOrder) : dc.fillOrder,
+            weights: {
+              insert: num("ins2", cost) ?? dc.weights.insert,
+              delete: num("del2", cost) ?? dc.weights.delete,
+              replace: num("rep2", cost) ?? dc.weights.replace,
+              transpose: num("tr2", cost) ?? dc.weights.transpose,
+              gapOpen: num("open2", cost) ?? dc.weights.gapOpen,
+            },
+          }
+        : null;
+  }
+  out.step = num("step", index);
+  out.alignment = num("aln", index);
+
+  for (const k of Object.keys(out) as (keyof ShareState)[]) if (out[k] === undefined) delete out[k];
+  return out;
+}
+
+/** Identifies the DP table a state produces; alignment indices only make sense within one table. */
+function tableKey(s: ShareState) {
+  return JSON.stringify([
+    s.a,
+    s.b,
+    s.algorithm,
+    s.substring,
+    s.tokenization,
+    s.weights,
+    s.subsText,
+    s.scores,
+    s.tieBreak,
+  ]);
+}
+
+/** Header / column text for a token, with whitespace made visible. */
+function displayToken(t: string) {
+  if (t === "") return "⏎";
+  return t.replace(/ /g, "␣").replace(/\t/g, "⇥");
+}
+
 function clamp(n: number, lo: number, hi: number) {
   return Math.max(lo, Math.min(hi, n));
 }
 
-function computeEditDistanceSteps(a: string, b: string) {
-  const m = a.length;
-  const n = b.length;
+function tieBreakLabel(order: TieBreak, algorithm: Algorithm, t: Messages) {
+  return order
+    .filter((mv) => algorithm === "osa" || algorithm === "damerau" || mv !== "transpose")
+    .map((mv) => t.playback.moves[mv])
+    .join(" > ");
+}
 
-  const dp: number[][] = Array.from({ length: m + 1 }, () => Array(n + 1).fill(0));
-  const parent: (null | { i: number; j: number; op: Op })[][] = Array.from({ length: m + 1 }, () =>
-    Array.from({ length: n + 1 }, () => null)
-  );
-  const steps: CellExplain[] = [];
-
-  // init first row/col
-  for (let i = 0; i <= m; i++) {
-    dp[i][0] = i;
-    parent[i][0] = i === 0 ? null : { i: i - 1, j: 0, op: "delete" };
-    if (i > 0) {
-      steps.push({
-        i,
-        j: 0,
-        aChar: a[i - 1],
-        bChar: "∅",
-        cost: dp[i][0],
-        candidates: [{ op: "delete", from: [i - 1, 0], value: dp[i][0] }],
-        chosen: { op: "delete", from: [i - 1, 0], value: dp[i][0] },
-      });
-    } else {
-      steps.push({
-        i,
-        j: 0,
-        aChar: "∅",
-        bChar: "∅",
-        cost: dp[i][0],
-        candidates: [{ op: "init", from: null, value: 0 }],
-        chosen: { op: "init", from: null, value: 0 },
-      });
-    }
+/** The cost weights an edit-distance algorithm uses, in the order the inputs show them. */
+function weightKeys(algorithm: Algorithm) {
+  return algorithm === "gotoh"
+    ? (["gapOpen", "insert", "delete", "replace"] as const)
+    : algorithm === "levenshtein"
+      ? (["insert", "delete", "replace"] as const)
+      : (["insert", "delete", "replace", "transpose"] as const);
+}
+
+/** One line naming a configuration, for the split view's headings. */
+function describeConfig(c: CompareConfig, t: Messages) {
+  const parts = [t.algorithms[c.algorithm]];
+  if (!maximizes(c.algorithm)) {
+    parts.push(
+      weightKeys(c.algorithm)
+        .map((k) => `${t.inputs.weights[k]} ${c.weights[k]}`)
+        .join(" / ")
+    );
   }
+  parts.push(tieBreakLabel(TIE_BREAKS[c.tieBreak], c.algorithm, t), t.fillOrders[c.fillOrder]);
+  return parts.join(" · ");
+}
 
-  for (let j = 1; j <= n; j++) {
-    dp[0][j] = j;
-    parent[0][j] = { i: 0, j: j - 1, op: "insert" };
-    steps.push({
-      i: 0,
-      j,
-      aChar: "∅",
-      bChar: b[j - 1],
-      cost: dp[0][j],
-      candidates: [{ op: "insert", from: [0, j - 1], value: dp[0][j] }],
-      chosen: { op: "insert", from: [0, j - 1], value: dp[0][j] },
-    });
+/** Last step index of each anti-diagonal of an anti-diagonal fill, for revealing a whole wavefront per tick. */
+function wavefrontStops(m: number, n: number) {
+  const stops: number[] = [];
+  let k = -1;
+  for (let d = 0; d <= m + n; d++) {
+    k += Math.min(d, m) - Math.max(0, d - n) + 1;
+    stops.push(k);
   }
+  return stops;
+}
 
-  // fill
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      const del = dp[i - 1][j] + 1;
-      const ins = dp[i][j - 1] + 1;
-      const rep = dp[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
-
-      const candidates = [
-        { op: "delete" as const, from: [i - 1, j] as [number, number], value: del },
-        { op: "insert" as const, from: [i, j - 1] as [number, number], value: ins },
-        {
-          op: (a[i - 1] === b[j - 1] ? "match" : "replace") as Op,
-          from: [i - 1, j - 1] as [number, number],
-          value: rep,
-        },
-      ];
-
-      // choose min; deterministic tie-break: diagonal (match/replace) > delete > insert
-      const minVal = Math.min(del, ins, rep);
-      const diag = candidates[2];
-      const delC = candidates[0];
-      const insC = candidates[1];
-
-      let chosen = diag.value === minVal ? diag : delC.value === minVal ? delC : insC;
-
-      dp[i][j] = chosen.value;
-      parent[i][j] = chosen.from ? { i: chosen.from[0], j: chosen.from[1], op: chosen.op } : null;
-
-      steps.push({
-        i,
-        j,
-        aChar: a[i - 1],
-        bChar: b[j - 1],
-        cost: dp[i][j],
-        candidates,
-        chosen,
-      });
-    }
+/** The step playback lands on next (dir 1) or previous (dir -1); `stops` only applies to the fill phase. */
+function nextStepIndex(s: number, dir: 1 | -1, stops: number[] | null, fillSteps: number, maxStep: number) {
+  if (stops && dir === 1 && s < fillSteps - 1) return stops.find((k) => k > s)!;
+  if (stops && dir === -1 && s <= fillSteps) {
+    for (let k = stops.length - 1; k >= 0; k--) if (stops[k] < s) return stops[k];
+    return 0;
   }
+  return clamp(s + dir, 0, maxStep);
+}
+
+/** A value the grid shows on a cell that the fill hasn't revealed (Hirschberg half-rows). */
+type CellMark = { text: string; tone: "forward" | "reverse" | "sum" | "tie" };
 
-  return { dp, steps, parent };
+/** Why a banded fill stopped before the last row. */
+function bandStopReason(band: Band, m: number, n: number, t: Messages) {
+  if (Math.abs(m - n) > band.width) return t.band.outside(m, n, band.width);
+  if (band.overFrom < band.lastRow) return t.band.rowsOver(band.overFrom, band.lastRow, formatCost(band.k), m, n);
+  return t.band.rowOver(band.lastRow, formatCost(band.k), formatCost(band.rowMin), m, n);
 }
 
-function buildBacktrace(parent: (null | { i: number; j: number; op: Op })[][], m: number, n: number) {
-  const path = new Set<string>();
-  let i = m;
-  let j = n;
-  path.add(`${i},${j}`);
-  while (true) {
-    const p = parent[i]?.[j];
-    if (!p) break;
-    i = p.i;
-    j = p.j;
-    path.add(`${i},${j}`);
+/** What the grid shows at Hirschberg frame `k`: the enclosing regions, the frame's half-row and every sliver solved so far. */
+function hirschbergView(h: HirschbergResult, k: number) {
+  const frame = h.frames[k];
+  const regions: Region[] = [];
+  const solved = new Set<string>();
+  for (const f of h.frames.slice(0, k + 1)) {
+    // frames come depth-first, so the regions still open are exactly one per depth
+    regions.length = f.region.depth;
+    regions.push(f.region);
+    if (f.kind === "solve") for (const c of f.path) solved.add(`${c.i},${c.j}`);
   }
-  return path;
-}
 
-function opLabel(op: Op) {
-  switch (op) {
-    case "match":
-      return "Match (0)";
-    case "replace":
-      return "Replace (1)";
-    case "insert":
-      return "Insert (1)";
-    case "delete":
-      return "Delete (1)";
-    case "init":
-      return "Init";
+  const marks = new Map<string, CellMark>();
+  const { region: r } = frame;
+  let current: [number, number] = [r.top, r.left];
+  if (frame.kind === "forward" || frame.kind === "reverse") {
+    frame.scores.forEach((s, x) => marks.set(`${frame.row},${r.left + x}`, { text: formatCost(s), tone: frame.kind }));
+    current = [frame.row, frame.kind === "forward" ? r.right : r.left];
+  } else if (frame.kind === "split") {
+    // the split always directly follows its region's two half-rows
+    const [fwd, rev] = [h.frames[k - 2], h.frames[k - 1]];
+    if (fwd.kind === "forward" && rev.kind === "reverse") {
+      fwd.scores.forEach((s, x) => {
+        const j = r.left + x;
+        marks.set(`${frame.row},${j}`, {
+          text: formatCost(s + rev.scores[x]),
+          tone: frame.ties.includes(j) ? "tie" : "sum",
+        });
+      });
+    }
+    current = [frame.row, frame.col];
+  } else {
+    current = [r.bottom, r.right];
   }
+  return { frame, regions, solved, marks, current, done: k === h.frames.length - 1 };
+}
+
+function downloadText(filename: string, text: string, type: string) {
+  downloadBlob(filename, new Blob([text], { type }));
 }
 
-function opBadgeClass(op: Op) {
+// the high-contrast theme's second cue for each operation, beside its colour
+const OP_ICON: Record<Op, string> = {
+  match: "=",
+  replace: "≠",
+  insert: "+",
+  delete: "−",
+  transpose: "⇄",
+  init: "∘",
+};
+
+function opBadgeClass(op: Op, contrast = false) {
+  if (contrast) {
+    switch (op) {
+      case "match":
+        return "bg-white text-black border-black";
+      case "replace":
+        return "bg-yellow-200 text-black border-black";
+      case "insert":
+        return "bg-sky-200 text-black border-black";
+      case "delete":
+        return "bg-orange-300 text-black border-black";
+      case "transpose":
+        return "bg-purple-200 text-black border-black";
+      case "init":
+        return "bg-slate-200 text-black border-black";
+    }
+  }
   switch (op) {
     case "match":
       return "bg-emerald-100 text-emerald-700 border-emerald-200";
@@ -169,28 +647,377 @@ function opBadgeClass(op: Op) {
       return "bg-sky-100 text-sky-700 border-sky-200";
     case "delete":
       return "bg-rose-100 text-rose-700 border-rose-200";
+    case "transpose":
+      return "bg-violet-100 text-violet-700 border-violet-200";
     case "init":
       return "bg-slate-100 text-slate-700 border-slate-200";
   }
 }
 
 export default function EditDistanceVisualizer() {
-  const [a, setA] = useState("intention");
-  const [b, setB] = useState("execution");
+  // the URL hash wins over defaults, so a shared link reopens the same frame
+  const [initial] = useState(() => ({ ...DEFAULT_SHARE_STATE, ...decodeShareState(window.location.hash) }));
+
+  const [a, setA] = useState(initial.a);
+  const [b, setB] = useState(initial.b);
+  const [algorithm, setAlgorithm] = useState<Algorithm>(initial.algorithm);
+  const [method, setMethod] = useState<Method>(initial.method);
+  const [maxDistance, setMaxDistance] = useState(initial.maxDistance);
+  const [search, setSearch] = useState(initial.search);
+  const [list, setList] = useState(initial.list);
+  const [substring, setSubstring] = useState(initial.substring);
+  const [tokenization, setTokenization] = useState<Tokenization>(initial.tokenization);
+  const [direction, setDirection] = useState(initial.direction);
+  const [tieBreak, setTieBreak] = useState<TieBreak>(TIE_BREAKS[initial.tieBreak]);
+  const [alignment, setAlignment] = useState({ table: tableKey(initial), idx: initial.alignment });
+  const [hoverCell, setHoverCell] = useState<string | null>(null);
+  const [layerView, setLayerView] = useState<LayerView>("min");
+  const [weights, setWeights] = useState(initial.weights);
+  const [subsText, setSubsText] = useState(initial.subsText);
+  const [scores, setScores] = useState(initial.scores);
 
-  const [showBacktrace, setShowBacktrace] = useState(true);
+  const [fillOrder, setFillOrder] = useState<FillOrder>(initial.fillOrder);
+  const [wavePerTick, setWavePerTick] = useState(initial.wavePerTick);
+
+  const [showBacktrace, setShowBacktrace] = useState(initial.showBacktrace);
+  const [practice, setPractice] = useState(initial.practice);
+  const [compare, setCompare] = useState(initial.compare);
+  const [quiz, setQuiz] = useState<QuizState>(NEW_QUIZ);
   const [playing, setPlaying] = useState(false);
-  const [speed, setSpeed] = useState(350); // ms per step
-  const [stepIdx, setStepIdx] = useState(0);
+  const [speed, setSpeed] = useState(initial.speed); // ms per step
+  const [stepIdx, setStepIdx] = useState(initial.step);
+
+  const [savedPresets, setSavedPresets] = useState<Preset[]>(loadSavedPresets);
+  const [display, setDisplay] = useState<DisplayPrefs>(loadDisplayPrefs);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [exporting, setExporting] = useState<{ kind: ExportKind; done: number; total: number } | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const exportAbort = useRef<AbortController | null>(null);
+
+  const shareState: ShareState = {
+    a,
+    b,
+    algorithm,
+    method,
+    maxDistance,
+    search,
+    list,
+    substring,
+    tokenization,
+    direction,
+    weights,
+    subsText,
+    scores,
+    tieBreak: TIE_BREAKS.indexOf(tieBreak),
+    fillOrder,
+    wavePerTick,
+    speed,
+    showBacktrace,
+    practice,
+    compare,
+    step: stepIdx,
+    alignment: 0,
+  };
+
+  const latestState = useRef(shareState);
+  latestState.current = shareState;
+
+  const applyState = (s: Partial<ShareState>) => {
+    const next = { ...latestState.current, ...s };
+    setPlaying(false);
+    if (s.a !== undefined) setA(s.a);
+    if (s.b !== undefined) setB(s.b);
+    if (s.algorithm !== undefined) setAlgorithm(s.algorithm);
+    if (s.method !== undefined) setMethod(s.method);
+    if (s.maxDistance !== undefined) setMaxDistance(s.maxDistance);
+    if (s.search !== undefined) setSearch(s.search);
+    if (s.list !== undefined) setList(s.list);
+    if (s.substring !== undefined) setSubstring(s.substring);
+    if (s.tokenization !== undefined) setTokenization(s.tokenization);
+    if (s.direction !== undefined) setDirection(s.direction);
+    if (s.weights !== undefined) setWeights(s.weights);
+    if (s.subsText !== undefined) setSubsText(s.subsText);
+    if (s.scores !== undefined) setScores(s.scores);
+    if (s.tieBreak !== undefined) setTieBreak(TIE_BREAKS[s.tieBreak]);
+    if (s.fillOrder !== undefined) setFillOrder(s.fillOrder);
+    if (s.wavePerTick !== undefined) setWavePerTick(s.wavePerTick);
+    if (s.speed !== undefined) setSpeed(s.speed);
+    if (s.showBacktrace !== undefined) setShowBacktrace(s.showBacktrace);
+    if (s.practice !== undefined) setPractice(s.practice);
+    if (s.compare !== undefined) setCompare(s.compare);
+    setStepIdx(s.step ?? 0);
+    setAlignment({ table: tableKey(next), idx: s.alignment ?? 0 });
+  };
+
+  const savePreset = () => {
+    const name = window.prompt(t.toolbar.presetName, `${a} → ${b}`)?.trim();
+    if (!name) return;
+    const preset: Preset = { name, state: { ...shareState, step: 0, alignment: 0 } };
+    const next = [...savedPresets.filter((p) => p.name !== name), preset];
+    setSavedPresets(next);
+    storeSavedPresets(next);
+  };
+
+  const updateDisplay = (prefs: Partial<DisplayPrefs>) => {
+    const next = { ...display, ...prefs };
+    setDisplay(next);
+    storeDisplayPrefs(next);
+  };
+  const contrast = display.highContrast;
+  const t = MESSAGES[display.language];
+  const pageDir = LANGUAGES.find((l) => l.value === display.language)!.dir;
+  // the strings' direction, not the page's: an Arabic page can still compare English words
+  const rtl = (direction === "auto" ? textDirection(a, b) : direction) === "rtl";
+
+  const clearSavedPresets = () => {
+    if (!window.confirm(t.toolbar.confirmClear(savedPresets.length))) return;
+    setSavedPresets([]);
+    storeSavedPresets([]);
+  };
+
+  const copyLink = () => {
+    const { origin, pathname, search } = window.location;
+    navigator.clipboard?.writeText(`${origin}${pathname}${search}${shareHash}`).then(() => {
+      setLinkCopied(true);
+      window.setTimeout(() => setLinkCopied(false), 1500);
+    });
+  };
+
+  // a pasted link (or back/forward) changes the hash without reloading
+  useEffect(() => {
+    const onHash = () => applyState({ ...DEFAULT_SHARE_STATE, ...decodeShareState(window.location.hash) });
+    window.addEventListener("hashchange", onHash);
+    return () => window.removeEventListener("hashchange", onHash);
+  }, []);
+
+  const parsedSubs = useMemo(() => parseSubstitutions(subsText), [subsText]);
+  const costs = useMemo<EditCosts>(
+    () => ({ ...weights, substitutions: parsedSubs.substitutions }),
+    [weights, parsedSubs]
+  );
+
+  // LCS, Needleman–Wunsch and Smith–Waterman maximize a score instead of minimizing a cost
+  const maximize = maximizes(algorithm);
+  // Sellers' variant only changes the first column, so it needs a plain edit distance and the whole table
+  const substringOn = substring && !maximize && algorithm !== "gotoh";
+  // Hirschberg mode replays its frames instead of the cell-by-cell fill
+  const linear = method === "hirschberg" && algorithm === "levenshtein" && !substringOn;
+  // Myers' bit vectors only hold deltas of −1, 0 and +1, so that mode needs unit costs
+  const unitCosts =
+    weights.insert === 1 &&
+    weights.delete === 1 &&
+    weights.replace === 1 &&
+    Object.keys(parsedSubs.substitutions).length === 0;
+  const bitParallel = method === "myers" && algorithm === "levenshtein" && unitCosts && !substringOn;
+
+  const result = useMemo(() => {
+    return editDistance(a, b, {
+      costs,
+      algorithm,
+      tieBreak,
+      fillOrder,
+      tokenize: tokenization,
+      scores,
+      substring: substringOn,
+      maxDistance:
+        linear || bitParallel || maximize || algorithm === "gotoh" || maxDistance === null ? undefined : maxDistance,
+    });
+  }, [
+    a,
+    b,
+    costs,
+    algorithm,
+    tieBreak,
+    fillOrder,
+    tokenization,
+    scores,
+    substringOn,
+    linear,
+    bitParallel,
+    maximize,
+    maxDistance,
+  ]);
+  const { dp, stepCount, stepAt, stepIndexOf, parentsOf, alignmentCount, tokensA, tokensB, band } = result;
+
+  // batch mode ranks with plain Levenshtein rows, which is what a trie can share
+  const candidates = useMemo(
+    () =>
+      list
+        .split(/\r?\n/)
+        .map((l) => l.trim())
+        .filter(Boolean),
+    [list]
+  );
+  const searchResult = useMemo(
+    () =>
+      search
+        ? fuzzySearch(a, candidates, { costs, tokenize: tokenization, maxDistance: maxDistance ?? undefined })
+        : null,
+    [search, a, candidates, costs, tokenization, maxDistance]
+  );
+  const openedHit = searchResult?.hits.find((h) => h.candidate === b);
+  // the opened pair's leading columns are the trie rows it shared; only Levenshtein's grid has those values
+  const reusedCols = openedHit && algorithm === "levenshtein" ? openedHit.sharedPrefix : 0;
+  const hb = useMemo(
+    () => (linear ? hirschberg(tokensA, tokensB, costs, tieBreak) : null),
+    [linear, tokensA, tokensB, costs, tieBreak]
+  );
+  const bp = useMemo(() => (bitParallel ? myers(tokensA, tokensB) : null), [bitParallel, tokensA, tokensB]);
+
+  // split view: the same strings under a second configuration, always a full table
+  const compareOn = !!compare && !hb && !bp && !practice && !substringOn;
+  const right = useMemo(
+    () =>
+      compareOn
+        ? editDistance(a, b, {
+            costs: { ...compare.weights, substitutions: parsedSubs.substitutions },
+            algorithm: compare.algorithm,
+            tieBreak: TIE_BREAKS[compare.tieBreak],
+            fillOrder: compare.fillOrder,
+            tokenize: tokenization,
+            scores,
+          })
+        : null,
+    [compareOn, compare, a, b, parsedSubs, tokenization, scores]
+  );
+  const rightPath = useMemo(
+    () => (right && showBacktrace && right.alignmentCount ? right.alignment(0).path : []),
+    [right, showBacktrace]
+  );
+
+  const stops = useMemo(
+    () =>
+      fillOrder === "anti-diagonal" && wavePerTick && !hb && !bp && !band && !right
+        ? wavefrontStops(tokensA.length, tokensB.length)
+        : null,
+    [tokensA.length, tokensB.length, fillOrder, wavePerTick, hb, bp, band, right]
+  );
+
+  // a new table means a new set of alignments; start from the tie-break's own pick
+  const table = tableKey(shareState);
+  // past Number.MAX_SAFE_INTEGER the count is only a lower bound, too large to page or number
+  const countable = alignmentCount <= Number.MAX_SAFE_INTEGER;
+  const alignmentIdx = alignment.table === table && countable ? clamp(alignment.idx, 0, alignmentCount - 1) : 0;
+  const setAlignmentIdx = (f: (k: number) => number) => setAlignment({ table, idx: f(alignmentIdx) });
+
+  // substring mode: the backtrace starts from the picked hit's row of the last column, the best one by default
+  const [pickedHit, setPickedHit] = useState({ table, end: -1 });
+  const hits = result.hits ?? [];
+  const hit =
+    hits.find((h) => pickedHit.table === table && h.end === pickedHit.end) ??
+    hits.find((h) => h.end === result.end[0]) ??
+    null;
+  const traceEnd = useMemo<[number, number]>(
+    () => (hit ? [hit.end, tokensB.length] : result.end),
+    [hit, tokensB.length, result.end]
+  );
+  const ownEnd = traceEnd[0] === result.end[0] && traceEnd[1] === result.end[1];
 
-  const { dp, steps, parent } = useMemo(() => {
-    const safeA = a ?? "";
-    const safeB = b ?? "";
-    return computeEditDistanceSteps(safeA, safeB);
-  }, [a, b]);
+  // a new table, or the cells coming in another order, starts the practice over
+  useEffect(() => setQuiz(NEW_QUIZ), [table, fillOrder]);
 
-  // total steps includes init cells too
-  const maxStep = steps.length - 1;
+  const shareHash = encodeShareState({ ...shareState, alignment: alignmentIdx });
+
+  // mirror state into the hash; debounced so playback doesn't flood the history API
+  useEffect(() => {
+    const t = window.setTimeout(() => {
+      if (window.location.hash !== shareHash) window.history.replaceState(null, "", shareHash);
+    }, 250);
+    return () => window.clearTimeout(t);
+  }, [shareHash]);
+
+  const path = useMemo(() => {
+    if (!showBacktrace || hb || bp || !alignmentCount) return [];
+    return ownEnd ? result.alignment(alignmentIdx).path : result.alignment(0, traceEnd).path;
+  }, [result, alignmentIdx, showBacktrace, hb, bp, alignmentCount, ownEnd, traceEnd]);
+
+  // total steps includes init cells too, then one step per backtrace cell from (m, n) back to (0, 0)
+  const fillSteps = hb ? hb.frames.length : bp ? bp.columns.length : stepCount;
+  // the split view plays both sides on one counter, until the longer of the two is done
+  const maxStep = Math.max(fillSteps + path.length, right ? right.stepCount + rightPath.length : 0) - 1;
+
+  // practice: the learner fills every interior cell in fill order (the boundary fills itself), then traces back
+  const practiceOn = practice && !hb && !bp;
+  const quizPos = useMemo(
+    () => (practiceOn ? quizAt(result.cellAt, stepCount, stepIdx) : null),
+    [practiceOn, stepIdx, stepCount, result]
+  );
+  const quizStep = quizPos ? quizPos.ask : -1;
+  const quizCell = useMemo(() => (quizStep >= 0 ? stepAt(quizStep) : null), [stepAt, quizStep]);
+  const practiceFilled = practiceOn && quizStep < 0;
+  const trace = practiceFilled && alignmentCount > 0 ? (quiz.trace ?? startTrace(parentsOf, result.end)) : null;
+  const traceTip = trace?.cells[trace.cells.length - 1];
+  const traceCells = useMemo(() => new Set(trace?.cells.map((c) => `${c.i},${c.j}`)), [trace]);
+  const traceScript = useMemo(
+    () => trace?.done && buildEditScript(tracePath(trace), tokensA, tokensB, tokenJoiner(tokenization)),
+    [trace, tokensA, tokensB, tokenization]
+  );
+
+  // once the last interior cell is answered, the rest of the boundary shows too
+  useEffect(() => {
+    if (practiceFilled && stepIdx < fillSteps - 1) setStepIdx(fillSteps - 1);
+  }, [practiceFilled, stepIdx, fillSteps]);
+
+  const submitAnswer = () => {
+    if (!quizCell) return;
+    const value = parseAnswer(quiz.value);
+    if (value === null) {
+      setQuiz((q) => ({ ...q, feedback: { ok: false, text: t.practice.typeNumber } }));
+      return;
+    }
+    const at = `dp[${quizCell.i}][${quizCell.j}]`;
+    const { valueRight, opRight } = checkCell(quizCell, value, quiz.op || null);
+    if (!valueRight) {
+      setQuiz((q) => ({
+        ...q,
+        tries: q.tries + 1,
+        feedback: { ok: false, text: t.practice.wrongValue(formatCost(value), at) },
+      }));
+      return;
+    }
+    const ops = optimalOps(quizCell)
+      .map((o) => opLabel(o, undefined, t))
+      .join(" / ");
+    setQuiz((q) => ({
+      ...q,
+      value: "",
+      op: "",
+      tries: 0,
+      hints: 0,
+      asked: q.asked + 1,
+      firstTry: q.firstTry + (q.tries === 0 ? 1 : 0),
+      opsAsked: q.opsAsked + (opRight === null ? 0 : 1),
+      opsRight: q.opsRight + (opRight ? 1 : 0),
+      feedback: {
+        ok: opRight !== false,
+        text:
+          opRight === false
+            ? t.practice.wrongOp(at, formatCost(quizCell.cost), opLabel(q.op as Op, undefined, t), ops)
+            : t.practice.right(at, formatCost(quizCell.cost), opRight ? ops : null),
+      },
+    }));
+    setStepIdx(quizStep);
+  };
+
+  const traceClick = (i: number, j: number) => {
+    if (!trace || trace.done) return;
+    const next = extendTrace(parentsOf, trace, i, j);
+    const tip = trace.cells[trace.cells.length - 1];
+    setQuiz((q) =>
+      next
+        ? { ...q, trace: next, traceHint: null, feedback: null }
+        : {
+            ...q,
+            traceMistakes: q.traceMistakes + 1,
+            feedback: { ok: false, text: t.practice.noStep(tip.i, tip.j, i, j) },
+          }
+    );
+  };
+
+  const restartPractice = () => {
+    setQuiz(NEW_QUIZ);
+    setStepIdx(0);
+  };
 
   // clamp stepIdx when inputs change
   useEffect(() => {
@@ -203,106 +1030,738 @@ export default function EditDistanceVisualizer() {
     if (!playing) return;
     if (stepIdx >= maxStep) return;
     const t = window.setTimeout(() => {
-      setStepIdx((s) => clamp(s + 1, 0, maxStep));
+      setStepIdx((s) => nextStepIndex(s, 1, stops, fillSteps, maxStep));
     }, speed);
     return () => window.clearTimeout(t);
-  }, [playing, speed, stepIdx, maxStep]);
+  }, [playing, speed, stepIdx, maxStep, stops, fillSteps]);
 
-  const cur = steps[stepIdx];
-  const revealed = useMemo(() => {
-    // which cells are already computed at this step
-    const s = new Set<string>();
-    for (let k = 0; k <= stepIdx; k++) s.add(`${steps[k].i},${steps[k].j}`);
-    return s;
-  }, [stepIdx, steps]);
+  // keyboard shortcuts: space play/pause, arrows step, Home/End jump (ignored while typing in a field)
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return;
+      if (e.altKey || e.ctrlKey || e.metaKey) return;
+      // practice mode moves on only when an answer is right
+      if (practiceOn) return;
+      switch (e.key) {
+        case " ":
+          // a focused button already handles space as a click
+          if (target?.tagName === "BUTTON") return;
+          setPlaying((p) => !p);
+          break;
+        case "ArrowRight":
+        case "ArrowDown":
+          setPlaying(false);
+          setStepIdx((s) => nextStepIndex(s, 1, stops, fillSteps, maxStep));
+          break;
+        case "ArrowLeft":
+        case "ArrowUp":
+          setPlaying(false);
+          setStepIdx((s) => nextStepIndex(s, -1, stops, fillSteps, maxStep));
+          break;
+        case "Home":
+          setPlaying(false);
+          setStepIdx(0);
+          break;
+        case "End":
+          setPlaying(false);
+          setStepIdx(maxStep);
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [maxStep, stops, fillSteps, practiceOn]);
 
-  const backtrace = useMemo(() => {
-    if (!showBacktrace) return new Set<string>();
-    return buildBacktrace(parent, a.length, b.length);
-  }, [parent, a.length, b.length, showBacktrace]);
+  const inBacktrace = stepIdx >= fillSteps && path.length > 0;
+  // index into `path` of the cell the backtrace has reached; it waits at (0, 0) for a longer right side
+  const btPos = inBacktrace ? Math.max(0, path.length - 1 - (stepIdx - fillSteps)) : path.length;
+  const btCell = inBacktrace ? path[btPos] : null;
 
-  const distance = dp[a.length][b.length];
+  const curStep = btCell ? stepIndexOf(btCell.i, btCell.j) : clamp(stepIdx, 0, stepCount - 1);
+  const cur = useMemo(() => stepAt(curStep), [stepAt, curStep]);
+  // a cell is already computed at this step iff stepIndexOf(i, j) <= revealedThrough;
+  // practice shows everything the fill computed before the cell it asks for
+  const revealedThrough = hb ? -1 : quizStep >= 0 ? quizPos!.revealedThrough : Math.min(stepIdx, fillSteps - 1);
 
-  const gridRef = useRef<HTMLDivElement | null>(null);
+  // bit-parallel mode reveals a whole column per step, its values rebuilt from the column's bit vectors
+  const bpCol = bp ? bp.columns[clamp(stepIdx, 0, bp.columns.length - 1)] : null;
+  const gridStepIndexOf = bp ? (_: number, j: number) => j : stepIndexOf;
+  const columnRegion = (j: number): Region => ({ top: 0, left: j, bottom: tokensA.length, right: j, depth: 0 });
+  // the first column whose rebuilt values differ from the cell-by-cell fill, -1 if none does
+  const bpMismatch = useMemo(
+    () => (bp ? bp.dp[0].findIndex((_, j) => bp.dp.some((row, i) => row[j] !== dp[i][j])) : -1),
+    [bp, dp]
+  );
 
-  // keep current cell in view
-  useEffect(() => {
-    const el = gridRef.current;
-    if (!el) return;
-    const target = el.querySelector(`[data-cell='${cur.i},${cur.j}']`) as HTMLElement | null;
-    if (!target) return;
-    const r1 = el.getBoundingClientRect();
-    const r2 = target.getBoundingClientRect();
-    const pad = 40;
-    const dx = r2.left - r1.left;
-    const dy = r2.top - r1.top;
-    if (dx < pad || dy < pad || r2.right > r1.right - pad || r2.bottom > r1.bottom - pad) {
-      target.scrollIntoView({ block: "nearest", inline: "nearest", behavior: "smooth" });
+  const hbView = useMemo(
+    () => (hb ? hirschbergView(hb, clamp(stepIdx, 0, hb.frames.length - 1)) : null),
+    [hb, stepIdx]
+  );
+  const hbScript = useMemo(
+    () => hb && buildEditScript(hb.path, tokensA, tokensB, tokenJoiner(tokenization)),
+    [hb, tokensA, tokensB, tokenization]
+  );
+  // Hirschberg never sees the full table; compare against it only after the fact
+  const hbMatchesBacktrace = useMemo(
+    () => !!hb && JSON.stringify(hb.path) === JSON.stringify(result.alignment(0).path),
+    [hb, result]
+  );
+
+  // the part of the path walked so far, still ordered from its earliest cell to (m, n)
+  const walked = useMemo(() => path.slice(btPos), [path, btPos]);
+
+  const backtrace = useMemo(() => new Set(walked.map((c) => `${c.i},${c.j}`)), [walked]);
+
+  const script = useMemo(
+    () => buildEditScript(walked, tokensA, tokensB, tokenJoiner(tokenization)),
+    [walked, tokensA, tokensB, tokenization]
+  );
+
+  // with a whole wavefront per tick, every cell of the current anti-diagonal is "current"
+  const waveDiagonal = stops && !inBacktrace ? cur.i + cur.j : null;
+
+  const dag = useMemo(() => {
+    if (!inBacktrace) return new Set<number>();
+    return optimalDag(parentsOf, tokensA.length, tokensB.length, traceEnd);
+  }, [parentsOf, tokensA.length, tokensB.length, traceEnd, inBacktrace]);
+
+  // during the backtrace phase the highlighted candidate is the predecessor the path takes
+  const btPred = btCell && btPos > 0 ? path[btPos - 1] : null;
+  const shown =
+    (btPred &&
+      cur.candidates.find(
+        (c) =>
+          c.op === btCell!.op &&
+          c.from !== null &&
+          c.from[0] === btPred.i &&
+          c.from[1] === btPred.j &&
+          (!c.fromLayer || c.fromLayer === opLayer(btPred.op))
+      )) ||
+    cur.chosen;
+  // past (m, n), a Gotoh path is in the matrix its move entered
+  const btLayer = result.layers && btCell && btPos < path.length - 1 ? opLayer(btCell.op) : undefined;
+  const tiedPreds = btCell ? parentsOf(btCell.i, btCell.j, btLayer).length : 0;
+  // value of a path cell in the matrix the path is in there
+  const pathValue = (c: { i: number; j: number; op: Op }) =>
+    result.layers ? result.layers[opLayer(c.op)][c.i][c.j] : dp[c.i][c.j];
+  const pathLayers = useMemo(
+    () => (result.layers ? new Map(walked.map((c) => [`${c.i},${c.j}`, opLayer(c.op)])) : undefined),
+    [result.layers, walked]
+  );
+
+  const { distance } = result;
+  // what the live region reads out for this frame; the practice fill never gives a value away
+  const narration = hbView
+    ? describeHirschbergFrame(hbView.frame, t)
+    : bpCol
+      ? describeMyersColumn(bpCol, tokensB[bpCol.j - 1], t)
+      : quizCell
+        ? describePrompt(quizCell, t)
+        : traceTip
+          ? t.narration.traceAt(traceTip.i, traceTip.j)
+          : `${btCell ? `${t.narration.backtrace} ` : ""}${describeStep(cur, shown, maximize ? "score" : "cost", t)}`;
+  // cut-off rows only show as skipped once the fill has reached the row it stopped at
+  const fillDone = stepIdx >= fillSteps - 1;
+  const skipped = (i: number, j: number) => {
+    const why = result.skipped(i, j);
+    return why === "cutoff" && !fillDone ? null : why;
+  };
+  const tableCells = (tokensA.length + 1) * (tokensB.length + 1);
+  const bandOutcome = !band
+    ? null
+    : band.lastRow < tokensA.length
+      ? bandStopReason(band, tokensA.length, tokensB.length, t)
+      : distance === Infinity
+        ? t.band.lastRowOver(tokensA.length, tokensB.length, formatCost(dp[tokensA.length][tokensB.length]))
+        : null;
+  const [hoverI, hoverJ] = hoverCell ? hoverCell.split(",").map(Number) : [0, 0];
+  const hoverSkip = hoverCell ? skipped(hoverI, hoverJ) : null;
+  const unit: Unit = tokenization === "word" ? "word" : tokenization === "line" ? "line" : "char";
+
+  // what the grid shows at step s, drawn standalone for the image exports
+  const frameAt = (s: number, fullDag: Set<number>): GridFrame => {
+    const view = hb ? hirschbergView(hb, clamp(s, 0, hb.frames.length - 1)) : null;
+    const through = hb ? -1 : Math.min(s, fillSteps - 1);
+    const inBt = !hb && s >= fillSteps && path.length > 0;
+    const pos = inBt ? Math.max(0, path.length - 1 - (s - fillSteps)) : path.length;
+    const onPath = view ? view.solved : new Set(path.slice(pos).map((c) => `${c.i},${c.j}`));
+    const done = s >= fillSteps - 1;
+    const values = bp
+      ? bp.dp
+      : result.layers && layerView !== "min" && layerView !== "stacked"
+        ? result.layers[layerView]
+        : dp;
+    const w = tokensB.length + 1;
+    return {
+      a: tokensA,
+      b: tokensB,
+      cell: (i, j) => {
+        const key = `${i},${j}`;
+        const k = gridStepIndexOf(i, j);
+        const why = result.skipped(i, j);
+        const mark = view?.marks.get(key);
+        let tone: CellTone = "hidden";
+        let text: string | null = "·";
+        if (k >= 0 && k <= through) {
+          tone = reusedCols > 0 && j <= reusedCols ? "reused" : "shown";
+          text = formatCost(values[i][j]);
+        } else if (why === "band" || (why === "cutoff" && done)) {
+          tone = "pruned";
+          text = why === "band" ? "×" : "–";
+        } else if (mark) {
+          tone = mark.tone;
+          text = mark.text;
+        }
+        if (onPath.has(key)) tone = "path";
+        else if (inBt && fullDag.has(i * w + j)) tone = "dag";
+        return { tone, text };
+      },
+      current: view
+        ? view.current
+        : bp
+          ? [tokensA.length, through]
+          : inBt
+            ? [path[pos].i, path[pos].j]
+            : result.cellAt(clamp(s, 0, stepCount - 1)),
+      regions: view ? view.regions : bp ? [columnRegion(through)] : undefined,
+      caption: t.playback.caption(
+        hb
+          ? t.playback.phases.hirschberg
+          : bp
+            ? t.playback.phases.bitParallel
+            : inBt
+              ? t.playback.phases.backtrace
+              : t.playback.phases.fill,
+        s,
+        maxStep
+      ),
+    };
+  };
+
+  const drawable = tableCells <= EXPORT_MAX_CELLS;
+  const gifable = tableCells <= GIF_MAX_CELLS;
+  const runExport = async (kind: ExportKind) => {
+    setExportError(null);
+    if (kind === "csv" || kind === "markdown" || kind === "latex" || kind === "text") {
+      const marked = hb ? hb.path : alignmentCount ? result.alignment(ownEnd ? alignmentIdx : 0, traceEnd).path : [];
+      const text = formatTable(tokensA, tokensB, dp, kind, {
+        path: marked,
+        skipped: band ? result.skipped : undefined,
+      });
+      const [filename, type] = TABLE_FILES[kind];
+      downloadText(filename, text, type);
+      return;
+    }
+    const fullDag = path.length ? optimalDag(parentsOf, tokensA.length, tokensB.length, traceEnd) : new Set<number>();
+    const draw = (s: number) => {
+      const { svg, width, height } = gridSvg(frameAt(s, fullDag));
+      return rasterize(svg, width, height, kind === "png" ? 2 : kind === "gif" ? gifScale(width, height) : 1);
+    };
+    try {
+      if (kind === "svg") {
+        downloadBlob("dp-grid.svg", new Blob([gridSvg(frameAt(stepIdx, fullDag)).svg], { type: "image/svg+xml" }));
+      } else if (kind === "png") {
+        downloadBlob("dp-grid.png", await canvasBlob(await draw(stepIdx)));
+      } else {
+        // every tick playback shows, whole wavefronts included
+        const steps = [0];
+        while (steps[steps.length - 1] < maxStep) {
+          steps.push(nextStepIndex(steps[steps.length - 1], 1, stops, fillSteps, maxStep));
+        }
+        const controller = new AbortController();
+        exportAbort.current = controller;
+        setPlaying(false);
+        setExporting({ kind, done: 0, total: steps.length });
+        const record = kind === "gif" ? recordGif : recordWebm;
+        const blob = await record(
+          steps.length,
+          (k) => draw(steps[k]),
+          speed,
+          (done) => setExporting({ kind, done, total: steps.length }),
+          controller.signal
+        );
+        downloadBlob(`dp-fill.${kind}`, blob);
+      }
+    } catch (e) {
+      if (!(e instanceof DOMException && e.name === "AbortError")) setExportError(String((e as Error).message ?? e));
+    } finally {
+      exportAbort.current = null;
+      setExporting(null);
     }
-  }, [cur.i, cur.j]);
+  };
+  const optimumLabel = substringOn ? t.optimum.bestMatch : optimumLabelOf(algorithm, t);
+  const leftConfig: CompareConfig = { algorithm, tieBreak: TIE_BREAKS.indexOf(tieBreak), fillOrder, weights };
+  const comparison = useMemo(
+    () => (right && tableCells <= COMPARE_MAX_CELLS ? compareTables(result, right, [alignmentIdx, 0]) : null),
+    [result, right, alignmentIdx, tableCells]
+  );
 
   return (
-    <div className="min-h-screen w-full bg-slate-50 text-slate-900">
+    <div
+      lang={display.language}
+      dir={pageDir}
+      className={`min-h-screen w-full ${contrast ? "bg-white text-black" : "bg-slate-50 text-slate-900"}`}
+    >
       <div className="mx-auto max-w-6xl px-4 py-8">
         <div className="flex flex-col gap-6">
           <header className="flex flex-col gap-2">
-            <h1 className="text-2xl md:text-3xl font-semibold tracking-tight">Edit Distance Visualizer</h1>
-            <p className="text-sm md:text-base text-slate-600 max-w-3xl">
-              Watch the Levenshtein DP table fill in real time. Step through each cell, see the candidate operations
-              (insert / delete / replace / match), and optionally highlight one optimal backtrace.
-            </p>
+            <h1 className="text-2xl md:text-3xl font-semibold tracking-tight">{t.header.title}</h1>
+            <p className="text-sm md:text-base text-slate-600 max-w-3xl">{t.header.intro}</p>
+            <div className="flex flex-wrap items-center gap-4 text-xs text-slate-600">
+              <label className="flex items-center gap-1 select-none">
+                <input
+                  type="checkbox"
+                  checked={display.highContrast}
+                  onChange={(e) => updateDisplay({ highContrast: e.target.checked })}
+                />
+                {t.header.highContrast}
+              </label>
+              <label className="flex items-center gap-1 select-none">
+                <input
+                  type="checkbox"
+                  checked={display.reducedMotion}
+                  onChange={(e) => updateDisplay({ reducedMotion: e.target.checked })}
+                />
+                {t.header.reduceMotion}
+              </label>
+              <label className="flex items-center gap-1">
+                {t.header.language}
+                <select
+                  value={display.language}
+                  onChange={(e) => updateDisplay({ language: e.target.value as Language })}
+                  className="rounded-lg border border-slate-200 bg-white px-2 py-1 outline-none focus:ring-2 focus:ring-slate-200"
+                >
+                  {LANGUAGES.map((l) => (
+                    <option key={l.value} value={l.value} lang={l.value}>
+                      {l.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
           </header>
 
           <section className="grid grid-cols-1 lg:grid-cols-3 gap-4">
             <div className="lg:col-span-2 rounded-2xl bg-white shadow-sm border border-slate-200 p-4">
+              <div className="mb-3 flex flex-wrap items-center gap-2">
+                <select
+                  value=""
+                  onChange={(e) => {
+                    const [group, idx] = e.target.value.split(":");
+                    const preset = (group === "saved" ? savedPresets : CLASSIC_PRESETS)[Number(idx)];
+                    if (preset) applyState({ ...DEFAULT_SHARE_STATE, ...preset.state });
+                  }}
+                  className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs outline-none focus:ring-2 focus:ring-slate-200"
+                >
+                  <option value="" disabled>
+                    {t.toolbar.examples}
+                  </option>
+                  <optgroup label={t.toolbar.classic}>
+                    {CLASSIC_PRESETS.map((p, idx) => (
+                      <option key={p.id} value={`classic:${idx}`}>
+                        {t.toolbar.presets[p.id]}
+                      </option>
+                    ))}
+                  </optgroup>
+                  {savedPresets.length > 0 && (
+                    <optgroup label={t.toolbar.saved}>
+                      {savedPresets.map((p, idx) => (
+                        <option key={p.name} value={`saved:${idx}`}>
+                          {p.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                  )}
+                </select>
+                <button
+                  onClick={savePreset}
+                  className="rounded-lg px-2 py-1 text-xs border border-slate-200 bg-white hover:bg-slate-50"
+                >
+                  {t.toolbar.savePreset}
+                </button>
+                {savedPresets.length > 0 && (
+                  <button
+                    onClick={clearSavedPresets}
+                    className="rounded-lg px-2 py-1 text-xs border border-slate-200 bg-white hover:bg-slate-50"
+                  >
+                    {t.toolbar.clearSaved}
+                  </button>
+                )}
+                {exporting ? (
+                  <span className="ms-auto flex items-center gap-2 text-xs text-slate-600">
+                    {t.toolbar.recording(exporting.kind === "gif" ? "GIF" : "WebM")}{" "}
+                    <span className="tabular-nums">
+                      {exporting.done} / {exporting.total}
+                    </span>
+                    <button
+                      onClick={() => exportAbort.current?.abort()}
+                      className="rounded-lg px-2 py-1 border border-slate-200 bg-white hover:bg-slate-50"
+                    >
+                      {t.toolbar.cancel}
+                    </button>
+                  </span>
+                ) : (
+                  <select
+                    value=""
+                    onChange={(e) => runExport(e.target.value as ExportKind)}
+                    className="ms-auto rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs outline-none focus:ring-2 focus:ring-slate-200"
+                  >
+                    <option value="" disabled>
+                      {t.toolbar.export}
+                    </option>
+                    {EXPORTS.map((g) => (
+                      <optgroup key={g.group} label={t.toolbar.exportGroups[g.group]}>
+                        {g.options.map((o) => (
+                          <option
+                            key={o}
+                            value={o}
+                            disabled={
+                              (["svg", "png", "gif", "webm"].includes(o) && !drawable) ||
+                              (o === "gif" && !gifable) ||
+                              (o === "webm" && !webmSupported())
+                            }
+                          >
+                            {t.toolbar.exports[o]}
+                          </option>
+                        ))}
+                      </optgroup>
+                    ))}
+                  </select>
+                )}
+                <button
+                  onClick={copyLink}
+                  className="rounded-lg px-2 py-1 text-xs border border-slate-200 bg-white hover:bg-slate-50"
+                >
+                  {linkCopied ? t.toolbar.linkCopied : t.toolbar.copyLink}
+                </button>
+              </div>
+              {!gifable && (
+                <div className="-mt-1 mb-3 text-end text-xs text-slate-500">
+                  {drawable
+                    ? t.toolbar.gifLimit(GIF_MAX_CELLS.toLocaleString())
+                    : t.toolbar.exportLimit(EXPORT_MAX_CELLS.toLocaleString())}
+                </div>
+              )}
+              {exportError && (
+                <div className="-mt-1 mb-3 text-end text-xs text-rose-600">{t.toolbar.exportFailed(exportError)}</div>
+              )}
+
               <div className="flex flex-col md:flex-row gap-3 md:items-end md:justify-between">
                 <div className="flex-1">
-                  <label className="text-xs font-medium text-slate-600">String A (rows)</label>
-                  <input
-                    value={a}
-                    onChange={(e) => setA(e.target.value)}
-                    className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-slate-200"
-                    placeholder="e.g. kitten"
-                  />
+                  <div className="flex items-center justify-between gap-2">
+                    <label className="text-xs font-medium text-slate-600">
+                      {search ? t.inputs.a.query : substringOn ? t.inputs.a.text : t.inputs.a.string}
+                    </label>
+                    <label
+                      className="flex items-center gap-1 text-xs text-slate-600 select-none"
+                      title={maximize || algorithm === "gotoh" ? t.titles.substringUnavailable : t.titles.substring}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={substring}
+                        disabled={maximize || algorithm === "gotoh"}
+                        onChange={(e) => setSubstring(e.target.checked)}
+                      />
+                      {t.inputs.findBInA}
+                    </label>
+                  </div>
+                  {tokenization === "line" ? (
+                    <textarea
+                      value={a}
+                      onChange={(e) => setA(e.target.value)}
+                      rows={4}
+                      dir="auto"
+                      className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-mono outline-none focus:ring-2 focus:ring-slate-200"
+                      placeholder={t.inputs.oneTokenPerLine}
+                    />
+                  ) : (
+                    <input
+                      value={a}
+                      onChange={(e) => setA(e.target.value)}
+                      dir="auto"
+                      className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-slate-200"
+                      placeholder={t.inputs.exampleA}
+                    />
+                  )}
                 </div>
                 <div className="flex-1">
-                  <label className="text-xs font-medium text-slate-600">String B (cols)</label>
+                  <div className="flex items-center justify-between gap-2">
+                    <label className="text-xs font-medium text-slate-600">
+                      {search ? t.inputs.b.list : substringOn ? t.inputs.b.pattern : t.inputs.b.string}
+                    </label>
+                    <label className="flex items-center gap-1 text-xs text-slate-600 select-none">
+                      <input type="checkbox" checked={search} onChange={(e) => setSearch(e.target.checked)} />
+                      {t.inputs.searchList}
+                    </label>
+                  </div>
+                  {search ? (
+                    <textarea
+                      value={list}
+                      onChange={(e) => setList(e.target.value)}
+                      rows={4}
+                      dir="auto"
+                      className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-mono outline-none focus:ring-2 focus:ring-slate-200"
+                      placeholder={"apple\napply\nmaple"}
+                    />
+                  ) : tokenization === "line" ? (
+                    <textarea
+                      value={b}
+                      onChange={(e) => setB(e.target.value)}
+                      rows={4}
+                      dir="auto"
+                      className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-mono outline-none focus:ring-2 focus:ring-slate-200"
+                      placeholder={t.inputs.oneTokenPerLine}
+                    />
+                  ) : (
+                    <input
+                      value={b}
+                      onChange={(e) => setB(e.target.value)}
+                      dir="auto"
+                      className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-slate-200"
+                      placeholder={t.inputs.exampleB}
+                    />
+                  )}
+                </div>
+              </div>
+
+              {searchResult && (
+                <SearchPanel
+                  t={t}
+                  result={searchResult}
+                  candidates={candidates}
+                  opened={b}
+                  maxDistance={maxDistance}
+                  algorithm={algorithm}
+                  onOpen={(c) => {
+                    setPlaying(false);
+                    setB(c);
+                    setStepIdx(0);
+                  }}
+                />
+              )}
+
+              {substringOn && (
+                <HitsPanel
+                  t={t}
+                  tokens={tokensA}
+                  joiner={tokenJoiner(tokenization)}
+                  hits={hits}
+                  picked={hit}
+                  best={distance}
+                  maxDistance={maxDistance}
+                  onPick={(h) => {
+                    setPlaying(false);
+                    setPickedHit({ table, end: h.end });
+                    setStepIdx(fillSteps);
+                  }}
+                />
+              )}
+
+              <div className="mt-3 flex flex-col md:flex-row gap-3">
+                <div>
+                  <label className="text-xs font-medium text-slate-600">{t.inputs.compareBy}</label>
+                  <select
+                    value={tokenization}
+                    onChange={(e) => setTokenization(e.target.value as Tokenization)}
+                    className="mt-1 block w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-slate-200"
+                  >
+                    {TOKENIZATIONS.map((tok) => (
+                      <option key={tok} value={tok}>
+                        {t.tokenizations[tok]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-xs font-medium text-slate-600">{t.inputs.direction}</label>
+                  <select
+                    value={direction}
+                    onChange={(e) => setDirection(e.target.value as ShareState["direction"])}
+                    className="mt-1 block w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-slate-200"
+                  >
+                    {(["auto", "ltr", "rtl"] as const).map((d) => (
+                      <option key={d} value={d}>
+                        {t.inputs.directions[d]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-xs font-medium text-slate-600">{t.inputs.algorithm}</label>
+                  <select
+                    value={algorithm}
+                    onChange={(e) => setAlgorithm(e.target.value as Algorithm)}
+                    className="mt-1 block w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-slate-200"
+                  >
+                    {ALGORITHMS.map((al) => (
+                      <option key={al} value={al}>
+                        {t.algorithms[al]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-xs font-medium text-slate-600">{t.inputs.method}</label>
+                  <select
+                    value={linear ? "hirschberg" : bitParallel ? "myers" : "full"}
+                    onChange={(e) => setMethod(e.target.value as Method)}
+                    disabled={algorithm !== "levenshtein"}
+                    title={
+                      algorithm !== "levenshtein"
+                        ? t.titles.methodUnavailable
+                        : !unitCosts
+                          ? t.titles.myersNeedsUnitCosts
+                          : undefined
+                    }
+                    className="mt-1 block w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-slate-200 disabled:opacity-50"
+                  >
+                    {METHODS.map((me) => (
+                      <option key={me} value={me} disabled={me === "myers" && !unitCosts}>
+                        {t.methods[me]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="w-28">
+                  <label className="text-xs font-medium text-slate-600">{t.inputs.maxDistance}</label>
                   <input
-                    value={b}
-                    onChange={(e) => setB(e.target.value)}
-                    className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-slate-200"
-                    placeholder="e.g. sitting"
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={maxDistance ?? ""}
+                    placeholder={t.inputs.off}
+                    onChange={(e) => {
+                      const v = Number(e.target.value);
+                      if (e.target.value === "") setMaxDistance(null);
+                      else if (v >= 0) setMaxDistance(v);
+                    }}
+                    disabled={!search && (linear || bitParallel || maximize || algorithm === "gotoh")}
+                    title={
+                      search
+                        ? t.titles.maxDistance.search
+                        : substringOn
+                          ? t.titles.maxDistance.substring
+                          : linear
+                            ? t.titles.maxDistance.hirschberg
+                            : bitParallel
+                              ? t.titles.maxDistance.myers
+                              : maximize
+                                ? t.titles.maxDistance.similarity
+                                : algorithm === "gotoh"
+                                  ? t.titles.maxDistance.affine
+                                  : t.titles.maxDistance.band
+                    }
+                    className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm tabular-nums outline-none focus:ring-2 focus:ring-slate-200 disabled:opacity-50"
                   />
                 </div>
+                {maximize ? (
+                  algorithm === "lcs" ? (
+                    <div className="self-end pb-2 text-xs text-slate-500">{t.inputs.lcsNote(unit)}</div>
+                  ) : (
+                    <div className="flex gap-3">
+                      {(["match", "mismatch", "gap"] as const).map((k) => (
+                        <div key={k} className="w-20">
+                          <label className="text-xs font-medium text-slate-600">{t.inputs.scores[k]}</label>
+                          <input
+                            type="number"
+                            step={1}
+                            value={scores[k]}
+                            onChange={(e) => {
+                              const v = Number(e.target.value);
+                              if (e.target.value === "" || !Number.isFinite(v)) return;
+                              setScores((sc) => ({ ...sc, [k]: v }));
+                            }}
+                            className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm tabular-nums outline-none focus:ring-2 focus:ring-slate-200"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  )
+                ) : (
+                  <>
+                    <div className="flex gap-3">
+                      {weightKeys(algorithm).map((k) => (
+                        <div key={k} className="w-20">
+                          <label className="text-xs font-medium text-slate-600">{t.inputs.weights[k]}</label>
+                          <input
+                            type="number"
+                            min={0}
+                            step={0.1}
+                            value={weights[k]}
+                            onChange={(e) => {
+                              const v = Number(e.target.value);
+                              if (e.target.value === "" || !(v >= 0)) return;
+                              setWeights((w) => ({ ...w, [k]: v }));
+                            }}
+                            className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm tabular-nums outline-none focus:ring-2 focus:ring-slate-200"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex-1">
+                      <label className="text-xs font-medium text-slate-600">
+                        {t.inputs.substitutions}{" "}
+                        <span className="font-normal text-slate-500">{t.inputs.onePairPerLine}</span>
+                      </label>
+                      <textarea
+                        value={subsText}
+                        onChange={(e) => setSubsText(e.target.value)}
+                        rows={2}
+                        className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-mono outline-none focus:ring-2 focus:ring-slate-200"
+                        placeholder={"o 0 0.2\nl 1 0.3"}
+                      />
+                      {parsedSubs.errors.length > 0 && (
+                        <div className="mt-1 text-xs text-rose-600">{t.inputs.ignoredLines(parsedSubs.errors)}</div>
+                      )}
+                    </div>
+                  </>
+                )}
               </div>
 
               <div className="mt-4 flex flex-wrap items-center gap-2">
                 <button
                   onClick={() => setPlaying((p) => !p)}
-                  className="rounded-xl px-3 py-2 text-sm font-medium border border-slate-200 bg-slate-900 text-white hover:bg-slate-800"
+                  disabled={practiceOn}
+                  className="rounded-xl px-3 py-2 text-sm font-medium border border-slate-200 bg-slate-900 text-white hover:bg-slate-800 disabled:opacity-40"
                 >
-                  {playing ? "Pause" : "Play"}
+                  {playing ? t.playback.pause : t.playback.play}
                 </button>
                 <button
                   onClick={() => {
                     setPlaying(false);
-                    setStepIdx((s) => clamp(s + 1, 0, maxStep));
+                    setStepIdx((s) => nextStepIndex(s, -1, stops, fillSteps, maxStep));
                   }}
-                  className="rounded-xl px-3 py-2 text-sm font-medium border border-slate-200 bg-white hover:bg-slate-50"
+                  disabled={stepIdx === 0 || practiceOn}
+                  className="rounded-xl px-3 py-2 text-sm font-medium border border-slate-200 bg-white hover:bg-slate-50 disabled:opacity-40"
                 >
-                  Step
+                  {t.playback.back}
                 </button>
                 <button
                   onClick={() => {
                     setPlaying(false);
-                    setStepIdx(0);
+                    setStepIdx((s) => nextStepIndex(s, 1, stops, fillSteps, maxStep));
+                  }}
+                  disabled={practiceOn}
+                  className="rounded-xl px-3 py-2 text-sm font-medium border border-slate-200 bg-white hover:bg-slate-50 disabled:opacity-40"
+                >
+                  {t.playback.step}
+                </button>
+                <button
+                  onClick={() => {
+                    setPlaying(false);
+                    if (practiceOn) restartPractice();
+                    else setStepIdx(0);
                   }}
                   className="rounded-xl px-3 py-2 text-sm font-medium border border-slate-200 bg-white hover:bg-slate-50"
                 >
-                  Reset
+                  {t.playback.reset}
                 </button>
-                <div className="ml-2 flex items-center gap-2">
-                  <span className="text-xs text-slate-600">Speed</span>
+                <div className="ms-2 flex items-center gap-2">
+                  <span className="text-xs text-slate-600">{t.playback.speed}</span>
                   <input
                     type="range"
                     min={80}
@@ -314,131 +1773,609 @@ export default function EditDistanceVisualizer() {
                   />
                   <span className="text-xs tabular-nums text-slate-600">{speed}ms</span>
                 </div>
-                <label className="ml-auto flex items-center gap-2 text-xs text-slate-700 select-none">
+                <div className="ms-2 flex items-center gap-2">
+                  <span className="text-xs text-slate-600">{t.playback.fillOrder}</span>
+                  <select
+                    value={fillOrder}
+                    onChange={(e) => setFillOrder(e.target.value as FillOrder)}
+                    disabled={!!hb || !!bp || !!band}
+                    title={band ? t.titles.bandedFillOrder : undefined}
+                    className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs outline-none focus:ring-2 focus:ring-slate-200 disabled:opacity-50"
+                  >
+                    {FILL_ORDERS.map((o) => (
+                      <option key={o} value={o}>
+                        {t.fillOrders[o]}
+                      </option>
+                    ))}
+                  </select>
+                  {fillOrder === "anti-diagonal" && (
+                    <label className="flex items-center gap-1 text-xs text-slate-700 select-none">
+                      <input type="checkbox" checked={wavePerTick} onChange={(e) => setWavePerTick(e.target.checked)} />
+                      {t.playback.wholeDiagonal}
+                    </label>
+                  )}
+                </div>
+                <label
+                  className="ms-auto flex items-center gap-2 text-xs text-slate-700 select-none"
+                  title={
+                    hb || bp ? t.titles.compareFullTables : practice ? t.titles.compareInPractice : t.titles.compare
+                  }
+                >
+                  <input
+                    type="checkbox"
+                    checked={compareOn}
+                    disabled={!!hb || !!bp || practice}
+                    onChange={(e) => setCompare(e.target.checked ? leftConfig : null)}
+                  />
+                  {t.playback.compare}
+                </label>
+                <label
+                  className="flex items-center gap-2 text-xs text-slate-700 select-none"
+                  title={hb ? t.titles.practiceHirschberg : bp ? t.titles.practiceMyers : t.titles.practice}
+                >
+                  <input
+                    type="checkbox"
+                    checked={practice}
+                    disabled={!!hb || !!bp || compareOn}
+                    onChange={(e) => {
+                      setPlaying(false);
+                      setPractice(e.target.checked);
+                      restartPractice();
+                    }}
+                  />
+                  {t.playback.practice}
+                </label>
+                <label className="flex items-center gap-2 text-xs text-slate-700 select-none">
                   <input
                     type="checkbox"
                     checked={showBacktrace}
                     onChange={(e) => setShowBacktrace(e.target.checked)}
                   />
-                  Show optimal backtrace
+                  {t.playback.showBacktrace}
                 </label>
               </div>
 
+              {showBacktrace && (
+                <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-slate-700">
+                  {ownEnd ? (
+                    <>
+                      <span>
+                        <span className="font-medium">{t.playback.optimalAlignments}</span>{" "}
+                        <span className="tabular-nums">
+                          {countable
+                            ? alignmentCount.toLocaleString()
+                            : t.playback.moreThan(Number.MAX_SAFE_INTEGER.toLocaleString())}
+                        </span>
+                      </span>
+                      {countable && (
+                        <>
+                          <button
+                            onClick={() => setAlignmentIdx((k) => clamp(k - 1, 0, alignmentCount - 1))}
+                            disabled={alignmentIdx === 0}
+                            className="rounded-lg px-2 py-1 border border-slate-200 bg-white hover:bg-slate-50 disabled:opacity-40"
+                          >
+                            {t.playback.prev}
+                          </button>
+                          <span className="tabular-nums">
+                            {t.playback.alignmentOf(
+                              (alignmentIdx + 1).toLocaleString(),
+                              alignmentCount.toLocaleString()
+                            )}
+                          </span>
+                          <button
+                            onClick={() => setAlignmentIdx((k) => clamp(k + 1, 0, alignmentCount - 1))}
+                            disabled={alignmentIdx >= alignmentCount - 1}
+                            className="rounded-lg px-2 py-1 border border-slate-200 bg-white hover:bg-slate-50 disabled:opacity-40"
+                          >
+                            {t.playback.next}
+                          </button>
+                        </>
+                      )}
+                    </>
+                  ) : (
+                    <span>{t.playback.tracingHit(traceEnd[0])}</span>
+                  )}
+                  <label className="ms-auto flex items-center gap-2">
+                    {t.playback.tieBreak}
+                    <select
+                      value={TIE_BREAKS.indexOf(tieBreak)}
+                      onChange={(e) => setTieBreak(TIE_BREAKS[Number(e.target.value)])}
+                      className="rounded-lg border border-slate-200 bg-white px-2 py-1 outline-none focus:ring-2 focus:ring-slate-200"
+                    >
+                      {TIE_BREAKS.map((order, idx) => (
+                        <option key={idx} value={idx}>
+                          {tieBreakLabel(order, algorithm, t)}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+              )}
+
+              {compare && compareOn && <CompareSettings t={t} config={compare} onChange={setCompare} />}
+
               <div className="mt-4">
                 <div className="flex items-center justify-between">
                   <div className="text-sm text-slate-700">
-                    <span className="font-medium">Distance:</span> <span className="tabular-nums">{distance}</span>
+                    <span className="font-medium">{optimumLabel}:</span>{" "}
+                    <span className="tabular-nums">
+                      {practiceOn && !practiceFilled
+                        ? "?"
+                        : band && distance === Infinity
+                          ? `> ${formatCost(band.k)}`
+                          : formatCost(distance)}
+                    </span>
                   </div>
                   <div className="text-xs text-slate-500">
-                    Step <span className="tabular-nums">{stepIdx}</span> / <span className="tabular-nums">{maxStep}</span>
+                    {hb
+                      ? t.playback.phases.hirschberg
+                      : bp
+                        ? t.playback.phases.bitParallel
+                        : inBacktrace
+                          ? t.playback.phases.backtrace
+                          : t.playback.phases.fill}{" "}
+                    · {t.playback.stepOf} <span className="tabular-nums">{stepIdx}</span> /{" "}
+                    <span className="tabular-nums">{maxStep}</span>
                   </div>
                 </div>
+                <div aria-live="polite" aria-atomic="true" className="sr-only">
+                  {narration}
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={maxStep}
+                  value={stepIdx}
+                  onChange={(e) => {
+                    setPlaying(false);
+                    setStepIdx(Number(e.target.value));
+                  }}
+                  disabled={practiceOn}
+                  aria-label={t.playback.timeline}
+                  className="mt-2 w-full"
+                  style={{
+                    // fill phase vs backtrace phase on the track, which runs the page's way
+                    background: `linear-gradient(to ${pageDir === "rtl" ? "left" : "right"}, #e2e8f0 ${(fillSteps / (maxStep + 1)) * 100}%, #cbd5e1 0)`,
+                  }}
+                />
+                {band && (
+                  <div className="mt-2 rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 text-xs text-slate-600">
+                    {t.band.summary(
+                      band.width,
+                      stepCount.toLocaleString(),
+                      tableCells.toLocaleString(),
+                      Math.round((1 - stepCount / tableCells) * 100)
+                    )}
+                    {fillDone && bandOutcome && ` ${bandOutcome}`}
+                  </div>
+                )}
               </div>
 
-              <div
-                ref={gridRef}
-                className="mt-4 overflow-auto rounded-2xl border border-slate-200 bg-slate-50"
-                style={{ maxHeight: 520 }}
-              >
-                <div className="inline-block min-w-full p-3">
+              {result.layers && (
+                <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-slate-700">
+                  <span className="font-medium">{t.playback.matrix}</span>
+                  {LAYER_VIEWS.map((v) => (
+                    <button
+                      key={v}
+                      onClick={() => setLayerView(v)}
+                      className={`rounded-lg px-2 py-1 border ${
+                        layerView === v
+                          ? "border-slate-900 bg-slate-900 text-white"
+                          : "border-slate-200 bg-white hover:bg-slate-50"
+                      }`}
+                    >
+                      {t.layerViews[v]}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {reusedCols > 0 && (
+                <div className="mt-3 rounded-xl border border-emerald-200 bg-emerald-50 px-3 py-2 text-xs text-emerald-800">
+                  {t.search.reused(
+                    reusedCols,
+                    sliceText(tokensB, 0, reusedCols, tokenJoiner(tokenization)),
+                    candidates[openedHit!.sharedWith!]
+                  )}{" "}
+                  {reusedCols < tokensB.length ? t.search.newWork(reusedCols + 1, tokensB.length) : t.search.noNewWork}
+                </div>
+              )}
+
+              <div className={right ? "grid grid-cols-1 md:grid-cols-2 gap-3" : undefined}>
+                <div className="min-w-0">
+                  {right && (
+                    <div className="mt-4 text-xs font-medium text-slate-600">
+                      {t.playback.left} · {describeConfig(leftConfig, t)}
+                    </div>
+                  )}
                   <DPGrid
-                    a={a}
-                    b={b}
-                    dp={dp}
-                    revealed={revealed}
-                    current={[cur.i, cur.j]}
-                    backtrace={backtrace}
+                    t={t}
+                    label={right ? t.grid.leftTable : t.grid.table}
+                    rtl={rtl}
+                    contrast={contrast}
+                    reduceMotion={display.reducedMotion}
+                    a={tokensA}
+                    b={tokensB}
+                    dp={bp ? bp.dp : dp}
+                    layers={result.layers}
+                    layerView={layerView}
+                    pathLayers={pathLayers}
+                    stepIndexOf={gridStepIndexOf}
+                    revealedThrough={revealedThrough}
+                    skipped={band ? skipped : undefined}
+                    reusedCols={reusedCols}
+                    diff={comparison?.cells}
+                    current={
+                      hbView
+                        ? hbView.current
+                        : bpCol
+                          ? [tokensA.length, bpCol.j]
+                          : quizCell
+                            ? [quizCell.i, quizCell.j]
+                            : traceTip
+                              ? [traceTip.i, traceTip.j]
+                              : [cur.i, cur.j]
+                    }
+                    waveDiagonal={waveDiagonal}
+                    transposeFrom={cur.candidates.find((c) => c.op === "transpose")?.from ?? null}
+                    backtrace={hbView ? hbView.solved : practiceOn ? traceCells : backtrace}
+                    dag={dag}
+                    regions={hbView ? hbView.regions : bpCol ? [columnRegion(bpCol.j)] : undefined}
+                    marks={hbView?.marks}
+                    parentsOf={parentsOf}
+                    hovered={practiceOn && quiz.traceHint ? quiz.traceHint.join(",") : hoverCell}
+                    onHoverCell={setHoverCell}
+                    edit={
+                      quizCell
+                        ? {
+                            i: quizCell.i,
+                            j: quizCell.j,
+                            value: quiz.value,
+                            onChange: (value) => setQuiz((q) => ({ ...q, value })),
+                            onSubmit: submitAnswer,
+                          }
+                        : undefined
+                    }
+                    onCellClick={(i, j) => {
+                      if (practiceOn) return traceClick(i, j);
+                      const k = gridStepIndexOf(i, j);
+                      if (k < 0 || k > revealedThrough) return;
+                      setPlaying(false);
+                      setStepIdx(k);
+                    }}
                   />
                 </div>
+                {right && (
+                  <div className="min-w-0">
+                    <div className="mt-4 text-xs font-medium text-fuchsia-700">
+                      {t.playback.right} · {describeConfig(compare!, t)}
+                    </div>
+                    <ComparePane
+                      t={t}
+                      rtl={rtl}
+                      contrast={contrast}
+                      reduceMotion={display.reducedMotion}
+                      result={right}
+                      path={rightPath}
+                      step={stepIdx}
+                      diff={comparison?.cells}
+                      hovered={hoverCell}
+                      onHoverCell={setHoverCell}
+                      onStep={(k) => {
+                        setPlaying(false);
+                        setStepIdx(k);
+                      }}
+                    />
+                  </div>
+                )}
               </div>
-            </div>
 
-            <div className="rounded-2xl bg-white shadow-sm border border-slate-200 p-4">
-              <div className="flex items-center justify-between gap-3">
-                <h2 className="text-lg font-semibold">Current Cell</h2>
-                <span
-                  className={`text-xs px-2 py-1 rounded-full border ${opBadgeClass(cur.chosen.op)}`}
-                  title={cur.chosen.op}
-                >
-                  {opLabel(cur.chosen.op)}
-                </span>
-              </div>
+              {right && (
+                <ComparePanel
+                  t={t}
+                  left={result}
+                  right={right}
+                  leftAlignment={alignmentCount ? result.alignment(alignmentIdx) : null}
+                  rightAlignment={right.alignmentCount ? right.alignment(0) : null}
+                  leftLabel={optimumLabel}
+                  rightLabel={optimumLabelOf(compare!.algorithm, t)}
+                  comparison={comparison}
+                />
+              )}
 
-              <div className="mt-3 text-sm text-slate-700">
-                <div className="flex items-center justify-between">
-                  <span>
-                    i, j: <span className="font-mono">({cur.i}, {cur.j})</span>
-                  </span>
-                  <span>
-                    dp[i][j] = <span className="font-mono font-semibold">{cur.cost}</span>
-                  </span>
+              {hbView && hbScript && !hbView.done && (
+                <div className="mt-4 rounded-2xl border border-slate-200 bg-slate-50 p-3 text-xs text-slate-500">
+                  {t.hirschberg.assembling}
                 </div>
+              )}
 
-                <div className="mt-3 grid grid-cols-2 gap-2">
-                  <div className="rounded-xl border border-slate-200 bg-slate-50 p-3">
-                    <div className="text-xs text-slate-600">A char (row)</div>
-                    <div className="mt-1 font-mono text-base">{cur.aChar ?? "∅"}</div>
-                  </div>
-                  <div className="rounded-xl border border-slate-200 bg-slate-50 p-3">
-                    <div className="text-xs text-slate-600">B char (col)</div>
-                    <div className="mt-1 font-mono text-base">{cur.bChar ?? "∅"}</div>
-                  </div>
+              {hbView && hbScript && hbView.done && (
+                <EditScriptPanel
+                  t={t}
+                  a={a}
+                  b={b}
+                  distance={distance}
+                  columns={hbScript.columns}
+                  separator={tokenJoiner(tokenization)}
+                  operations={hbScript.operations}
+                  hovered={hoverCell}
+                  contrast={contrast}
+                  rtl={rtl}
+                  onHoverCell={setHoverCell}
+                />
+              )}
+
+              {!hb && !practiceOn && showBacktrace && !inBacktrace && alignmentCount > 0 && (
+                <div className="mt-4 rounded-2xl border border-slate-200 bg-slate-50 p-3 text-xs text-slate-500">
+                  {t.playback.scriptPending}
                 </div>
+              )}
 
-                <div className="mt-4">
-                  <div className="text-xs font-medium text-slate-600">Candidates</div>
-                  <div className="mt-2 flex flex-col gap-2">
-                    {cur.candidates.map((c, idx) => {
-                      const chosen = c.op === cur.chosen.op && c.value === cur.chosen.value;
-                      return (
-                        <div
-                          key={idx}
-                          className={`rounded-xl border px-3 py-2 ${
-                            chosen ? "border-slate-900 bg-slate-900 text-white" : "border-slate-200 bg-white"
-                          }`}
-                        >
-                          <div className="flex items-center justify-between">
-                            <span className="text-sm font-medium">
-                              {opLabel(c.op)}
-                              {c.from ? (
-                                <span className={`ml-2 text-xs ${chosen ? "text-white/80" : "text-slate-500"}`}>
-                                  from ({c.from[0]}, {c.from[1]})
-                                </span>
-                              ) : null}
-                            </span>
-                            <span className="font-mono tabular-nums">{c.value}</span>
-                          </div>
-                        </div>
-                      );
-                    })}
+              {traceScript && (
+                <EditScriptPanel
+                  t={t}
+                  a={a}
+                  b={b}
+                  distance={distance}
+                  columns={traceScript.columns}
+                  separator={tokenJoiner(tokenization)}
+                  operations={traceScript.operations}
+                  hovered={hoverCell}
+                  contrast={contrast}
+                  rtl={rtl}
+                  onHoverCell={setHoverCell}
+                />
+              )}
+
+              {inBacktrace && (
+                <EditScriptPanel
+                  t={t}
+                  a={a}
+                  b={b}
+                  distance={distance}
+                  columns={script.columns}
+                  separator={tokenJoiner(tokenization)}
+                  operations={script.operations}
+                  hovered={hoverCell}
+                  contrast={contrast}
+                  rtl={rtl}
+                  onHoverCell={setHoverCell}
+                />
+              )}
+            </div>
+
+            <div className="rounded-2xl bg-white shadow-sm border border-slate-200 p-4">
+              {practiceOn ? (
+                <PracticePanel
+                  t={t}
+                  cell={quizCell}
+                  quiz={quiz}
+                  algorithm={algorithm}
+                  trace={trace}
+                  traceIndex={trace?.done ? alignmentIndexOf(result.alignment, alignmentCount, tracePath(trace)) : null}
+                  alignmentCount={alignmentCount}
+                  optimumLabel={optimumLabel}
+                  distance={distance}
+                  onOp={(op) => setQuiz((q) => ({ ...q, op }))}
+                  onSubmit={submitAnswer}
+                  onHint={() => setQuiz((q) => ({ ...q, hints: q.hints + 1, hintsUsed: q.hintsUsed + 1 }))}
+                  onTraceHint={() =>
+                    trace &&
+                    setQuiz((q) => ({ ...q, traceHint: traceOptions(parentsOf, trace)[0], hintsUsed: q.hintsUsed + 1 }))
+                  }
+                  onRestart={restartPractice}
+                />
+              ) : bpCol && bp ? (
+                <MyersPanel
+                  t={t}
+                  column={bpCol}
+                  a={tokensA}
+                  token={bpCol.j > 0 ? tokensB[bpCol.j - 1] : null}
+                  distance={bp.distance}
+                  columns={bp.columns.length}
+                  done={stepIdx >= fillSteps - 1}
+                  mismatch={bpMismatch}
+                />
+              ) : hbView && hb ? (
+                <HirschbergPanel
+                  t={t}
+                  frame={hbView.frame}
+                  distance={hb.distance}
+                  frames={hb.frames.length}
+                  done={hbView.done}
+                  matchesBacktrace={hbMatchesBacktrace}
+                />
+              ) : (
+                <>
+                  <div className="flex items-center justify-between gap-3">
+                    <h2 className="text-lg font-semibold">{t.cell.title}</h2>
+                    <span
+                      className={`text-xs px-2 py-1 rounded-full border ${opBadgeClass(shown.op, contrast)}`}
+                      title={t.cell.ops[shown.op]}
+                    >
+                      {contrast && <span aria-hidden="true">{OP_ICON[shown.op]} </span>}
+                      {candidateLabel(shown, algorithm, t)}
+                    </span>
                   </div>
-                </div>
 
-                <div className="mt-4 rounded-2xl border border-slate-200 bg-slate-50 p-3">
-                  <div className="text-xs font-medium text-slate-600">Rule</div>
-                  <div className="mt-1 text-sm text-slate-700 leading-relaxed">
-                    dp[i][j] = min(
-                    <span className="font-mono"> dp[i-1][j] + 1</span> (delete),
-                    <span className="font-mono"> dp[i][j-1] + 1</span> (insert),
-                    <span className="font-mono"> dp[i-1][j-1] + cost</span> (match/replace)
-                    )
+                  <div className="mt-3 text-sm text-slate-700">
+                    <div className="flex items-center justify-between">
+                      <span>
+                        i, j:{" "}
+                        <span className="font-mono">
+                          ({cur.i}, {cur.j})
+                        </span>
+                      </span>
+                      <span>
+                        dp[i][j] = <span className="font-mono font-semibold">{formatCost(cur.cost)}</span>
+                      </span>
+                    </div>
+                    {result.layers && (
+                      <div className="mt-1 flex justify-end gap-3 font-mono text-xs text-slate-500">
+                        {LAYERS.map((l) => (
+                          <span key={l}>
+                            {l} = {formatCost(result.layers![l][cur.i][cur.j])}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+
+                    <div className="mt-3 grid grid-cols-2 gap-2">
+                      <div className="rounded-xl border border-slate-200 bg-slate-50 p-3">
+                        <div className="text-xs text-slate-600">{t.cell.tokenA(t.cell.units[unit])}</div>
+                        <div className="mt-1 font-mono text-base break-all">
+                          {cur.aChar ? displayToken(cur.aChar) : "∅"}
+                        </div>
+                      </div>
+                      <div className="rounded-xl border border-slate-200 bg-slate-50 p-3">
+                        <div className="text-xs text-slate-600">{t.cell.tokenB(t.cell.units[unit])}</div>
+                        <div className="mt-1 font-mono text-base break-all">
+                          {cur.bChar ? displayToken(cur.bChar) : "∅"}
+                        </div>
+                      </div>
+                    </div>
+
+                    {band && hoverSkip && (
+                      <div className="mt-4 rounded-2xl border border-dashed border-slate-300 bg-slate-50 p-3">
+                        <div className="text-xs font-medium text-slate-600">
+                          {t.band.skipped} ·{" "}
+                          <span className="font-mono">
+                            ({hoverI}, {hoverJ})
+                          </span>
+                        </div>
+                        <div className="mt-1 text-sm text-slate-700 leading-relaxed">
+                          {hoverSkip === "band"
+                            ? t.band.pruned(hoverI, hoverJ, band.width, formatCost(band.k))
+                            : t.band.notReached(hoverI, bandStopReason(band, tokensA.length, tokensB.length, t))}
+                        </div>
+                      </div>
+                    )}
+
+                    {btCell && (
+                      <div className="mt-4 rounded-2xl border border-slate-900 bg-slate-900/5 p-3">
+                        <div className="text-xs font-medium text-slate-600">
+                          {t.cell.backtrace(stepIdx - fillSteps + 1, path.length)}
+                        </div>
+                        <div className="mt-1 text-sm text-slate-700 leading-relaxed">
+                          {btPred ? (
+                            <>
+                              {t.cell.cameFrom}{" "}
+                              <span className="font-mono">
+                                ({btPred.i}, {btPred.j})
+                              </span>{" "}
+                              {t.cell.by[btCell.op]}:{" "}
+                              <span className="font-mono">
+                                {formatCost(pathValue(btPred))} + {formatCost(shown.weight)} = {formatCost(shown.value)}
+                              </span>
+                              .{" "}
+                              {tiedPreds > 1
+                                ? alignmentIdx === 0
+                                  ? t.cell.tiesPicked(tiedPreds)
+                                  : t.cell.tiesBranch(tiedPreds, alignmentIdx + 1)
+                                : t.cell.onlyPredecessor}
+                            </>
+                          ) : (
+                            t.cell.complete(btCell.i, btCell.j)
+                          )}
+                        </div>
+                      </div>
+                    )}
+
+                    <div className="mt-4">
+                      <div className="text-xs font-medium text-slate-600">{t.cell.candidates}</div>
+                      <div className="mt-2 flex flex-col gap-2">
+                        {cur.candidates.map((c, idx) => {
+                          const chosen = c === shown;
+                          const tie = !chosen && c.value === cur.cost;
+                          return (
+                            <div
+                              key={idx}
+                              className={`rounded-xl border px-3 py-2 ${
+                                chosen ? "border-slate-900 bg-slate-900 text-white" : "border-slate-200 bg-white"
+                              }`}
+                            >
+                              <div className="flex items-center justify-between">
+                                <span className="text-sm font-medium">
+                                  {candidateLabel(c, algorithm, t)}
+                                  {c.from ? (
+                                    <span className={`ms-2 text-xs ${chosen ? "text-white/80" : "text-slate-500"}`}>
+                                      {c.layer && `→ ${c.layer} `}
+                                      {t.cell.from} {c.fromLayer}({c.from[0]}, {c.from[1]})
+                                    </span>
+                                  ) : null}
+                                </span>
+                                <span className="font-mono tabular-nums">
+                                  {tie && (
+                                    <span className="me-2 text-[10px] uppercase text-slate-500">{t.cell.tie}</span>
+                                  )}
+                                  {formatCost(c.value)}
+                                </span>
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+
+                    <div className="mt-4 rounded-2xl border border-slate-200 bg-slate-50 p-3">
+                      <div className="text-xs font-medium text-slate-600">{t.rule.title}</div>
+                      {maximize ? (
+                        <ScoreRule t={t} algorithm={algorithm} scores={scores} />
+                      ) : algorithm === "gotoh" ? (
+                        <AffineRule t={t} costs={costs} />
+                      ) : (
+                        <>
+                          <div className="mt-1 text-sm text-slate-700 leading-relaxed">
+                            dp[i][j] = min(
+                            <span className="font-mono"> dp[i-1][j] + {formatCost(costs.delete)}</span> ({t.rule.delete}
+                            ),
+                            <span className="font-mono"> dp[i][j-1] + {formatCost(costs.insert)}</span> ({t.rule.insert}
+                            ),
+                            <span className="font-mono"> dp[i-1][j-1] + cost(a, b)</span> ({t.rule.matchReplace})
+                            {algorithm === "osa" && (
+                              <>
+                                ,<span className="font-mono"> dp[i-2][j-2] + {formatCost(costs.transpose)}</span> (
+                                {t.rule.transposeOsa})
+                              </>
+                            )}
+                            {algorithm === "damerau" && (
+                              <>
+                                ,
+                                <span className="font-mono">
+                                  {" "}
+                                  dp[k-1][l-1] + (i-k-1)·{formatCost(costs.delete)} + {formatCost(costs.transpose)} +
+                                  (j-l-1)·
+                                  {formatCost(costs.insert)}
+                                </span>{" "}
+                                ({t.rule.transposeDamerau})
+                              </>
+                            )}
+                            )
+                          </div>
+                          <div className="mt-1 text-xs text-slate-600">
+                            {t.rule.cost(formatCost(costs.replace))}
+                            {Object.keys(costs.substitutions).length > 0 ? t.rule.substitutionOverride : ""}
+                          </div>
+                        </>
+                      )}
+                    </div>
                   </div>
-                </div>
-              </div>
+                </>
+              )}
 
               <div className="mt-4">
-                <h3 className="text-sm font-semibold">Quick tips</h3>
-                <ul className="mt-2 space-y-1 text-xs text-slate-600 list-disc pl-5">
-                  <li>Diagonal is match/replace; up is delete; left is insert.</li>
-                  <li>Toggle “Show optimal backtrace” to highlight one optimal path.</li>
-                  <li>Try small strings first (e.g. "kitten" → "sitting").</li>
+                <h3 className="text-sm font-semibold">{t.tips.title}</h3>
+                <ul className="mt-2 space-y-1 text-xs text-slate-600 list-disc ps-5">
+                  {t.tips.items.map((tip, idx) => (
+                    <li key={idx}>{tip}</li>
+                  ))}
                 </ul>
               </div>
             </div>
           </section>
 
           <footer className="text-xs text-slate-500">
-            Deterministic tie-break: diagonal &gt; delete &gt; insert (for consistent visualization).
+            {t.footer(tieBreakLabel(tieBreak, algorithm, t), algorithm === "smith-waterman")}
           </footer>
         </div>
       </div>
@@ -446,137 +2383,1701 @@ export default function EditDistanceVisualizer() {
   );
 }
 
+// points back toward the predecessor, like the backtrace walks
+const DAG_ARROW: Record<Move, string> = { diagonal: "↖", transpose: "⇖", delete: "↑", insert: "←" };
+// the same, with column 1 on the right
+const DAG_ARROW_RTL: Record<Move, string> = { diagonal: "↗", transpose: "⇗", delete: "↑", insert: "→" };
+
+// Hirschberg half-row values: forward in sky, reverse in rose, their sums in amber where they tie for the minimum
+const MARK_CLASS: Record<CellMark["tone"], string> = {
+  forward: "bg-sky-50 border-sky-300 text-sky-800",
+  reverse: "bg-rose-50 border-rose-300 text-rose-800",
+  sum: "bg-white border-slate-300 text-slate-500",
+  tie: "bg-amber-50 border-amber-400 text-amber-800",
+};
+
+// outline colour per recursion depth
+const REGION_CLASS = [
+  "border-slate-500",
+  "border-sky-500",
+  "border-violet-500",
+  "border-emerald-500",
+  "border-amber-500",
+];
+
+// cell looks per state; the high-contrast theme trades tints for borders and patterns
+const CELL_CLASS = {
+  hidden: "bg-white border-slate-200 text-slate-300",
+  shown: "bg-white border-slate-200 text-slate-800",
+  reused: "bg-emerald-50 border-emerald-200 text-slate-800",
+  changed: "bg-fuchsia-50 border-fuchsia-300 text-fuchsia-900",
+  opChanged: "bg-white border-dashed border-fuchsia-400 text-slate-800",
+  pruned: "bg-slate-100 border-dashed border-slate-200 text-slate-300",
+  cur: "ring-2 ring-slate-900 border-slate-900",
+  path: "bg-slate-900/10 border-slate-400",
+  dag: "bg-slate-900/5",
+  hover: "ring-2 ring-amber-400",
+  wave: "ring-2 ring-slate-400",
+};
+
+const CONTRAST_CELL_CLASS: typeof CELL_CLASS = {
+  hidden: "bg-white border-slate-400 text-slate-600",
+  shown: "bg-white border-slate-600 text-black",
+  reused: "bg-white border-2 border-dotted border-black text-black",
+  // hatched
+  changed:
+    "bg-white bg-[repeating-linear-gradient(45deg,transparent_0_5px,rgb(0_0_0/0.2)_5px_7px)] border-2 border-black text-black",
+  opChanged: "bg-white border-2 border-dashed border-black text-black",
+  pruned: "bg-slate-200 border-dashed border-slate-600 text-slate-700",
+  cur: "ring-4 ring-black border-black",
+  path: "bg-yellow-200 border-2 border-black font-semibold",
+  // dotted
+  dag: "bg-[radial-gradient(rgb(0_0_0/0.3)_1px,transparent_1px)] bg-[length:6px_6px]",
+  hover: "ring-4 ring-blue-700",
+  wave: "outline-dashed outline-2 outline-black",
+};
+
+// moves within the grid for each arrow key, as [rows, columns]; a right-to-left grid flips the columns
+const GRID_KEYS: Record<string, [number, number]> = {
+  ArrowUp: [-1, 0],
+  ArrowDown: [1, 0],
+  ArrowLeft: [0, -1],
+  ArrowRight: [0, 1],
+};
+
+// grid pitch in px; fixed so visible rows / columns follow from the scroll offset alone
+const CELL = 56;
+// rows / columns rendered beyond each edge of the viewport
+const OVERSCAN = 3;
+// tables with more cells than this also get a zoomed-out overview
+const OVERVIEW_MIN_CELLS = 400;
+
+function range(from: number, to: number) {
+  return Array.from({ length: Math.max(0, to - from + 1) }, (_, k) => from + k);
+}
+
+/**
+ * The DP table, virtualized: only cells within (or just outside) the scroll
+ * viewport are rendered, absolutely positioned on a full-size canvas, so a
+ * 2,000 × 2,000 table costs as much as a 15 × 10 one.
+ */
 function DPGrid({
+  t,
+  label = t.grid.table,
+  rtl = false,
+  contrast = false,
+  reduceMotion = false,
   a,
   b,
   dp,
-  revealed,
+  layers,
+  layerView = "min",
+  pathLayers,
+  stepIndexOf,
+  revealedThrough,
+  skipped,
+  reusedCols = 0,
+  diff,
   current,
+  waveDiagonal,
+  transposeFrom,
   backtrace,
+  dag,
+  parentsOf,
+  regions = [],
+  marks,
+  hovered,
+  onHoverCell,
+  edit,
+  onCellClick,
 }: {
-  a: string;
-  b: string;
-  dp: number[][];
-  revealed: Set<string>;
+  t: Messages;
+  /** the grid's accessible name */
+  label?: string;
+  /** column 1 on the right, next to the row headers; i and j keep their meaning */
+  rtl?: boolean;
+  contrast?: boolean;
+  /** no fades and no smooth scrolling */
+  reduceMotion?: boolean;
+  a: readonly string[];
+  b: readonly string[];
+  dp: Float64Array[];
+  /** Gotoh's matrices, shown one at a time or stacked per `layerView` */
+  layers?: Record<Layer, Float64Array[]>;
+  layerView?: LayerView;
+  /** the matrix the walked backtrace is in at each of its cells */
+  pathLayers?: Map<string, Layer>;
+  stepIndexOf: (i: number, j: number) => number;
+  revealedThrough: number;
+  /** cells a banded fill never computes */
+  skipped?: (i: number, j: number) => "band" | "cutoff" | null;
+  /** columns 0..reusedCols came from a word-list search's trie */
+  reusedCols?: number;
+  /** split view: VALUE_DIFFERS / OP_DIFFERS per cell against the other side */
+  diff?: Uint8Array;
   current: [number, number];
+  waveDiagonal: number | null;
+  transposeFrom: [number, number] | null;
   backtrace: Set<string>;
+  dag: Set<number>;
+  parentsOf: ParentLookup;
+  /** outlined subproblems, outermost first (Hirschberg) */
+  regions?: Region[];
+  /** values shown on cells the fill hasn't revealed (Hirschberg half-rows) */
+  marks?: Map<string, CellMark>;
+  hovered: string | null;
+  onHoverCell: (key: string | null) => void;
+  /** practice mode: the cell the learner types a value into */
+  edit?: { i: number; j: number; value: string; onChange: (value: string) => void; onSubmit: () => void };
+  onCellClick: (i: number, j: number) => void;
 }) {
   const m = a.length;
   const n = b.length;
+  const isRevealed = (i: number, j: number) => {
+    const k = stepIndexOf(i, j);
+    return k >= 0 && k <= revealedThrough;
+  };
+
+  // room for whole words / lines in the row headers
+  const longest = a.reduce((w, t) => Math.max(w, t.length), 1);
+  const headerWidth = clamp(56 + longest * 8, 80, 220);
+
+  const viewportRef = useRef<HTMLDivElement | null>(null);
+  const [view, setView] = useState({ top: 0, left: 0, width: 800, height: 520 });
+  const measure = () => {
+    const el = viewportRef.current;
+    if (!el) return;
+    // right to left, scrollLeft runs from 0 down to negative values
+    setView({ top: el.scrollTop, left: Math.abs(el.scrollLeft), width: el.clientWidth, height: el.clientHeight });
+  };
+
+  useEffect(() => {
+    const el = viewportRef.current;
+    if (!el) return;
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // scrolls (i, j) into view, clear of the sticky headers
+  const scrollToCell = (i: number, j: number) => {
+    const el = viewportRef.current;
+    if (!el) return;
+    const pad = 40;
+    const x = j * CELL;
+    const y = i * CELL;
+    const start = Math.abs(el.scrollLeft);
+    let left = start;
+    let top = el.scrollTop;
+    if (x < left + pad) left = x - pad;
+    else if (x + CELL > left + el.clientWidth - headerWidth - pad) left = x + CELL - el.clientWidth + headerWidth + pad;
+    if (y < top + pad) top = y - pad;
+    else if (y + CELL > top + el.clientHeight - CELL - pad) top = y + 2 * CELL - el.clientHeight + pad;
+    if (left === start && top === el.scrollTop) return;
+    // far jumps (scrubber, End) snap instead of animating across thousands of cells
+    const far = Math.abs(left - start) + Math.abs(top - el.scrollTop) > 4 * CELL;
+    el.scrollTo({ left: rtl ? -left : left, top, behavior: far || reduceMotion ? "auto" : "smooth" });
+  };
+
+  // keep current cell in view
+  useEffect(() => scrollToCell(current[0], current[1]), [current[0], current[1], headerWidth, rtl]);
+
+  // keyboard focus moves through the cells with a roving tabindex; until the
+  // arrow keys move it, it sits on the current cell
+  const [focus, setFocus] = useState<[number, number] | null>(null);
+  const [fi, fj] = focus ? [Math.min(focus[0], m), Math.min(focus[1], n)] : current;
+  // the cell to focus may only render once the scroll towards it has
+  const focusPending = useRef(false);
+  useEffect(() => {
+    if (!focusPending.current) return;
+    const el = viewportRef.current?.querySelector<HTMLElement>(`[data-cell="${fi},${fj}"]`);
+    if (!el) return;
+    focusPending.current = false;
+    el.focus({ preventScroll: true });
+  });
+
+  const onGridKey = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    // the practice input keeps its own keys
+    if ((e.target as HTMLElement).tagName === "INPUT") return;
+    const move = GRID_KEYS[e.key];
+    let next: [number, number] | null = null;
+    if (move) next = [clamp(fi + move[0], 0, m), clamp(fj + (rtl ? -move[1] : move[1]), 0, n)];
+    else if (e.key === "Home") next = e.ctrlKey ? [0, 0] : [fi, 0];
+    else if (e.key === "End") next = e.ctrlKey ? [m, n] : [fi, n];
+    else if (e.key === "Enter" || e.key === " ") onCellClick(fi, fj);
+    else return;
+    // not the page's step shortcuts
+    e.preventDefault();
+    e.stopPropagation();
+    if (!next) return;
+    setFocus(next);
+    focusPending.current = true;
+    scrollToCell(next[0], next[1]);
+  };
+
+  const centerOn = (i: number, j: number) => {
+    const el = viewportRef.current;
+    if (!el) return;
+    const left = (j + 0.5) * CELL - (el.clientWidth - headerWidth) / 2;
+    el.scrollTo({ left: rtl ? -left : left, top: (i + 0.5) * CELL - (el.clientHeight - CELL) / 2 });
+  };
+
+  const rows = range(
+    Math.max(0, Math.floor(view.top / CELL) - OVERSCAN),
+    Math.min(m, Math.ceil((view.top + view.height - CELL) / CELL) + OVERSCAN)
+  );
+  const cols = range(
+    Math.max(0, Math.floor(view.left / CELL) - OVERSCAN),
+    Math.min(n, Math.ceil((view.left + view.width - headerWidth) / CELL) + OVERSCAN)
+  );
+
+  const fade = reduceMotion ? { duration: 0 } : { duration: 0.12 };
+  // the high-contrast theme tells the arrows apart by direction alone, in black
+  const arrowTone = (tone: string) => (contrast ? "font-bold text-black" : tone);
 
   const cellClass = (i: number, j: number) => {
     const key = `${i},${j}`;
-    const isRevealed = revealed.has(key);
     const isCur = current[0] === i && current[1] === j;
     const isPath = backtrace.has(key);
+    const isDag = dag.has(i * (n + 1) + j);
+    const isHover = hovered === key;
+    const isWave = waveDiagonal === i + j;
+    const isReused = reusedCols > 0 && j <= reusedCols;
+    const differs = diff ? diff[i * (n + 1) + j] : 0;
 
-    const base = "relative rounded-xl border text-center w-12 h-12 md:w-14 md:h-14 flex items-center justify-center";
-    const hidden = "bg-white border-slate-200 text-slate-300";
-    const shown = "bg-white border-slate-200 text-slate-800";
-    const cur = "ring-2 ring-slate-900 border-slate-900";
-    const path = "bg-slate-900/5";
+    const mark = marks?.get(key);
+    const skip = skipped?.(i, j);
+    const base = "relative rounded-xl border text-center w-full h-full flex items-center justify-center";
+    const t = contrast ? CONTRAST_CELL_CLASS : CELL_CLASS;
 
-    return [base, isRevealed ? shown : hidden, isPath ? path : "", isCur ? cur : ""].filter(Boolean).join(" ");
+    return [
+      base,
+      isRevealed(i, j)
+        ? isReused
+          ? t.reused
+          : differs & VALUE_DIFFERS
+            ? t.changed
+            : differs & OP_DIFFERS
+              ? t.opChanged
+              : t.shown
+        : skip
+          ? t.pruned
+          : mark
+            ? MARK_CLASS[mark.tone]
+            : t.hidden,
+      isPath ? t.path : isDag ? t.dag : "",
+      isCur ? t.cur : isHover ? t.hover : isWave ? t.wave : "",
+    ]
+      .filter(Boolean)
+      .join(" ");
   };
 
   return (
-    <div className="grid" style={{ gridTemplateColumns: `80px repeat(${n + 1}, minmax(48px, 56px))` }}>
-      {/* top-left corner */}
-      <div className="sticky left-0 z-10 bg-slate-50" />
-
-      {/* column headers */}
-      {Array.from({ length: n + 1 }).map((_, j) => {
-        const label = j === 0 ? "∅" : b[j - 1];
-        return (
-          <div key={`col-${j}`} className="sticky top-0 z-10 bg-slate-50">
-            <div className="h-12 md:h-14 flex items-center justify-center">
-              <span className="text-xs font-medium text-slate-600">
-                {j === 0 ? "∅" : (
-                  <span className="inline-flex items-center justify-center w-7 h-7 rounded-full bg-white border border-slate-200 font-mono text-slate-800">
-                    {label}
-                  </span>
-                )}
-              </span>
+    <>
+      {(m + 1) * (n + 1) > OVERVIEW_MIN_CELLS && (
+        <TableOverview
+          t={t}
+          rtl={rtl}
+          dp={dp}
+          stepIndexOf={stepIndexOf}
+          revealedThrough={revealedThrough}
+          backtrace={backtrace}
+          view={{
+            top: view.top / CELL,
+            left: view.left / CELL,
+            rows: (view.height - CELL) / CELL,
+            cols: (view.width - headerWidth) / CELL,
+          }}
+          onJump={centerOn}
+        />
+      )}
+
+      <div
+        ref={viewportRef}
+        dir={rtl ? "rtl" : "ltr"}
+        onScroll={measure}
+        className="mt-4 overflow-auto rounded-2xl border border-slate-200 bg-slate-50"
+        style={{ maxHeight: 520 }}
+      >
+        <div
+          style={{
+            width: headerWidth + (n + 1) * CELL,
+            height: (m + 2) * CELL,
+          }}
+        >
+          {/* column headers; each cell's accessible name carries its tokens instead */}
+          <div aria-hidden="true" className="sticky top-0 z-20 flex bg-slate-50" style={{ height: CELL }}>
+            {/* top-left corner */}
+            <div className="sticky start-0 z-10 shrink-0 bg-slate-50" style={{ width: headerWidth }} />
+            <div className="relative shrink-0" style={{ width: (n + 1) * CELL }}>
+              {cols.map((j) => {
+                const label = j === 0 ? "∅" : b[j - 1];
+                return (
+                  <div
+                    key={`col-${j}`}
+                    className="absolute top-0 h-full flex items-center justify-center"
+                    style={{ insetInlineStart: j * CELL, width: CELL }}
+                  >
+                    <span className="text-xs font-medium text-slate-600">
+                      {j === 0 ? "∅" : (
+                        <span
+                          title={label}
+                          className="inline-block min-w-7 max-w-[52px] h-7 px-1.5 truncate leading-7 text-center rounded-full bg-white border border-slate-200 font-mono text-slate-800"
+                        >
+                          {displayToken(label)}
+                        </span>
+                      )}
+                    </span>
+                  </div>
+                );
+              })}
             </div>
           </div>
-        );
-      })}
-
-      {/* rows */}
-      {Array.from({ length: m + 1 }).map((_, i) => {
-        const rowLabel = i === 0 ? "∅" : a[i - 1];
-        return (
-          <React.Fragment key={`row-${i}`}>
-            {/* row header */}
-            <div className="sticky left-0 z-10 bg-slate-50">
-              <div className="h-12 md:h-14 flex items-center gap-2">
-                <span className="text-xs text-slate-500 w-10 text-right tabular-nums">{i}</span>
-                <span className="text-xs font-medium text-slate-600">
-                  {i === 0 ? "∅" : (
-                    <span className="inline-flex items-center justify-center w-7 h-7 rounded-full bg-white border border-slate-200 font-mono text-slate-800">
-                      {rowLabel}
+
+          <div className="flex">
+            {/* row headers */}
+            <div
+              aria-hidden="true"
+              className="sticky start-0 z-10 shrink-0 bg-slate-50"
+              style={{ width: headerWidth, height: (m + 1) * CELL }}
+            >
+              {rows.map((i) => {
+                const rowLabel = i === 0 ? "∅" : a[i - 1];
+                return (
+                  <div
+                    key={`row-${i}`}
+                    className="absolute start-0 flex items-center gap-2"
+                    style={{ top: i * CELL, height: CELL }}
+                  >
+                    <span className="text-xs text-slate-500 w-10 text-end tabular-nums">{i}</span>
+                    <span className="text-xs font-medium text-slate-600">
+                      {i === 0 ? "∅" : (
+                        <span
+                          title={rowLabel}
+                          className="inline-block min-w-7 h-7 px-1.5 truncate leading-7 text-center rounded-full bg-white border border-slate-200 font-mono text-slate-800"
+                          style={{ maxWidth: headerWidth - 56 }}
+                        >
+                          {displayToken(rowLabel)}
+                        </span>
+                      )}
                     </span>
-                  )}
-                </span>
-              </div>
+                  </div>
+                );
+              })}
             </div>
 
             {/* cells */}
-            {Array.from({ length: n + 1 }).map((_, j) => {
-              const key = `${i},${j}`;
-              const isRevealed = revealed.has(key);
-              const isCur = current[0] === i && current[1] === j;
-              const val = dp[i][j];
-
-              const showArrows = isCur && i > 0 && j > 0;
-
-              return (
-                <div key={`cell-${i}-${j}`} data-cell={`${i},${j}`} className="p-1">
-                  <div className={cellClass(i, j)}>
-                    {/* arrows showing ALL tried operations */}
-                    {showArrows && (
-                      <>
-                        {/* delete (from top) */}
-                        <span className="absolute -top-2 left-1/2 -translate-x-1/2 text-rose-500 text-xs">↓</span>
-                        {/* insert (from left) */}
-                        <span className="absolute top-1/2 -left-2 -translate-y-1/2 text-sky-500 text-xs">→</span>
-                        {/* match/replace (from diag) */}
-                        <span className="absolute -top-2 -left-2 text-amber-500 text-xs">↘</span>
-                      </>
-                    )}
+            <div
+              role="grid"
+              aria-label={label}
+              aria-rowcount={m + 1}
+              aria-colcount={n + 1}
+              onKeyDown={onGridKey}
+              onBlur={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget)) setFocus(null);
+              }}
+              className="relative shrink-0"
+              style={{ width: (n + 1) * CELL, height: (m + 1) * CELL }}
+            >
+              {regions.map((r, d) => (
+                <div
+                  key={`region-${d}`}
+                  aria-hidden="true"
+                  className={`pointer-events-none absolute z-10 rounded-2xl border-2 ${REGION_CLASS[d % REGION_CLASS.length]} ${
+                    d === regions.length - 1 ? "" : "border-dashed"
+                  }`}
+                  style={{
+                    top: r.top * CELL,
+                    insetInlineStart: r.left * CELL,
+                    width: (r.right - r.left + 1) * CELL,
+                    height: (r.bottom - r.top + 1) * CELL,
+                  }}
+                />
+              ))}
+              {rows.map((i) => (
+                <div key={`row-${i}`} role="row" aria-rowindex={i + 1} className="contents">
+                  {cols.map((j) => {
+                    const key = `${i},${j}`;
+                    const revealed = isRevealed(i, j);
+                    const isCur = current[0] === i && current[1] === j;
+                    const single = layers && layerView !== "min" && layerView !== "stacked" ? layers[layerView] : dp;
+                    const val = formatCost(single[i][j]);
+                    const stacked = layers && layerView === "stacked";
+                    const preds = revealed && dag.has(i * (n + 1) + j) ? parentsOf(i, j) : [];
 
-                    <AnimatePresence mode="wait">
-                      {isRevealed ? (
-                        <motion.span
-                          key={`v-${val}`}
-                          initial={{ opacity: 0, y: 6 }}
-                          animate={{ opacity: 1, y: 0 }}
-                          exit={{ opacity: 0, y: -6 }}
-                          transition={{ duration: 0.12 }}
-                          className={`font-mono text-sm md:text-base tabular-nums ${isCur ? "font-semibold" : ""}`}
-                        >
-                          {val}
-                        </motion.span>
-                      ) : (
-                        <motion.span
-                          key="hidden"
-                          initial={{ opacity: 0 }}
-                          animate={{ opacity: 1 }}
-                          exit={{ opacity: 0 }}
-                          transition={{ duration: 0.12 }}
-                          className="text-xs text-slate-300"
-                        >
-                          ·
-                        </motion.span>
+                    const mark = marks?.get(key);
+                    const skip = revealed ? null : skipped?.(i, j);
+
+                    const showArrows = isCur && revealed && i > 0 && j > 0;
+                    const spoken = revealed
+                      ? stacked
+                        ? LAYERS.map((l) => `${l} ${formatCost(layers[l][i][j])}`).join(", ")
+                        : val
+                      : skip
+                        ? t.grid.skipped
+                        : (mark?.text ?? t.grid.notFilled);
+                    const rowName = i === 0 ? t.grid.empty : spokenToken(a[i - 1], t);
+                    const colName = j === 0 ? t.grid.empty : spokenToken(b[j - 1], t);
+
+                    return (
+                      <div
+                        key={`cell-${i}-${j}`}
+                        role="gridcell"
+                        aria-colindex={j + 1}
+                        aria-label={
+                          t.grid.cell(i, rowName, j, colName, spoken) + (backtrace.has(key) ? t.grid.onPath : "")
+                        }
+                        aria-current={isCur ? "step" : undefined}
+                        data-cell={key}
+                        tabIndex={i === fi && j === fj ? 0 : -1}
+                        className={`absolute p-1 rounded-xl outline-none focus-visible:ring-2 focus-visible:ring-blue-600 ${
+                          revealed ? "cursor-pointer" : ""
+                        }`}
+                        style={{ top: i * CELL, insetInlineStart: j * CELL, width: CELL, height: CELL }}
+                        onMouseEnter={() => onHoverCell(key)}
+                        onMouseLeave={() => onHoverCell(null)}
+                        onClick={() => onCellClick(i, j)}
+                      >
+                        <div className={cellClass(i, j)}>
+                          {/* arrows showing ALL tried operations */}
+                          {showArrows && (
+                            <>
+                              {/* delete (from top) */}
+                              <span
+                                aria-hidden="true"
+                                title={t.grid.delete}
+                                className={`absolute -top-2 left-1/2 -translate-x-1/2 text-xs ${arrowTone("text-rose-500")}`}
+                              >
+                                ↓
+                              </span>
+                              {/* insert (from the previous column) */}
+                              <span
+                                aria-hidden="true"
+                                title={t.grid.insert}
+                                className={`absolute top-1/2 -start-2 -translate-y-1/2 text-xs ${arrowTone("text-sky-500")}`}
+                              >
+                                {rtl ? "←" : "→"}
+                              </span>
+                              {/* match/replace (from diag) */}
+                              <span
+                                aria-hidden="true"
+                                title={t.grid.matchReplace}
+                                className={`absolute -top-2 -start-2 text-xs ${arrowTone("text-amber-500")}`}
+                              >
+                                {rtl ? "↙" : "↘"}
+                              </span>
+                              {/* transpose (from further up the diagonal) */}
+                              {transposeFrom && (
+                                <span
+                                  aria-hidden="true"
+                                  className={`absolute -top-3 start-1 text-xs ${arrowTone("text-violet-500")}`}
+                                  title={t.grid.transposeFrom(transposeFrom[0], transposeFrom[1])}
+                                >
+                                  {rtl ? "⇙" : "⇘"}
+                                </span>
+                              )}
+                            </>
+                          )}
+
+                          {/* optimal predecessors of cells on the optimal-path DAG */}
+                          {preds.length > 0 && (
+                            <span className="absolute bottom-0.5 end-1 text-[9px] leading-none text-slate-400">
+                              {preds.map((p) => (rtl ? DAG_ARROW_RTL : DAG_ARROW)[moveOf(p.op)!]).join("")}
+                            </span>
+                          )}
+
+                          {edit && edit.i === i && edit.j === j && (
+                            <input
+                              autoFocus
+                              value={edit.value}
+                              onChange={(e) => edit.onChange(e.target.value)}
+                              onKeyDown={(e) => e.key === "Enter" && edit.onSubmit()}
+                              aria-label={`dp[${i}][${j}]`}
+                              inputMode="decimal"
+                              className="absolute inset-0 z-10 w-full h-full rounded-xl bg-white text-center font-mono text-sm outline-none"
+                            />
+                          )}
+
+                          <AnimatePresence mode="wait">
+                            {revealed && stacked ? (
+                              <motion.span
+                                key="stacked"
+                                initial={{ opacity: 0, y: 6 }}
+                                animate={{ opacity: 1, y: 0 }}
+                                exit={{ opacity: 0, y: -6 }}
+                                transition={fade}
+                                className="flex flex-col font-mono tabular-nums text-[10px] leading-tight"
+                              >
+                                {LAYERS.map((l) => (
+                                  <span
+                                    key={l}
+                                    className={
+                                      pathLayers?.get(key) === l ? "font-semibold text-slate-900" : "text-slate-500"
+                                    }
+                                  >
+                                    {l} {formatCost(layers[l][i][j])}
+                                  </span>
+                                ))}
+                              </motion.span>
+                            ) : revealed ? (
+                              <motion.span
+                                key={`v-${val}`}
+                                initial={{ opacity: 0, y: 6 }}
+                                animate={{ opacity: 1, y: 0 }}
+                                exit={{ opacity: 0, y: -6 }}
+                                transition={fade}
+                                className={`font-mono tabular-nums ${val.length > 3 ? "text-xs" : "text-sm md:text-base"} ${
+                                  isCur ? "font-semibold" : ""
+                                }`}
+                              >
+                                {val}
+                              </motion.span>
+                            ) : skip ? (
+                              <motion.span
+                                key={`s-${skip}`}
+                                initial={{ opacity: 0 }}
+                                animate={{ opacity: 1 }}
+                                exit={{ opacity: 0 }}
+                                transition={fade}
+                                className="text-xs text-slate-400"
+                              >
+                                {skip === "band" ? "×" : "–"}
+                              </motion.span>
+                            ) : mark ? (
+                              <motion.span
+                                key={`m-${mark.tone}-${mark.text}`}
+                                initial={{ opacity: 0, y: 6 }}
+                                animate={{ opacity: 1, y: 0 }}
+                                exit={{ opacity: 0, y: -6 }}
+                                transition={fade}
+                                className={`font-mono tabular-nums ${mark.text.length > 3 ? "text-xs" : "text-sm"}`}
+                              >
+                                {mark.text}
+                              </motion.span>
+                            ) : (
+                              <motion.span
+                                key="hidden"
+                                initial={{ opacity: 0 }}
+                                animate={{ opacity: 1 }}
+                                exit={{ opacity: 0 }}
+                                transition={fade}
+                                className="text-xs text-slate-300"
+                              >
+                                ·
+                              </motion.span>
+                            )}
+                          </AnimatePresence>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
+
+// largest overview canvas, in px
+const OVERVIEW_SIZE = { width: 320, height: 160 };
+
+/**
+ * Zoomed-out heatmap of the whole table: darker is a larger value, blank is not yet
+ * computed, amber is the backtrace. Each pixel samples one cell, so drawing
+ * is bounded by the canvas size, not the table size. Click to jump there.
+ */
+function TableOverview({
+  t,
+  rtl,
+  dp,
+  stepIndexOf,
+  revealedThrough,
+  backtrace,
+  view,
+  onJump,
+}: {
+  t: Messages;
+  /** mirrored like the grid */
+  rtl: boolean;
+  dp: Float64Array[];
+  stepIndexOf: (i: number, j: number) => number;
+  revealedThrough: number;
+  backtrace: Set<string>;
+  /** the grid viewport, in cells */
+  view: { top: number; left: number; rows: number; cols: number };
+  onJump: (i: number, j: number) => void;
+}) {
+  const m = dp.length - 1;
+  const n = dp[0].length - 1;
+  const scale = Math.min(OVERVIEW_SIZE.width / (n + 1), OVERVIEW_SIZE.height / (m + 1));
+  const width = Math.max(1, Math.round((n + 1) * scale));
+  const height = Math.max(1, Math.round((m + 1) * scale));
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  // scores can go negative, and a banded table leaves Infinity in the cells it skips
+  const [lo, hi] = useMemo(() => {
+    let min = 0;
+    let max = 0;
+    for (const row of dp) {
+      for (const v of row) {
+        if (v === Infinity) continue;
+        min = Math.min(min, v);
+        max = Math.max(max, v);
+      }
+    }
+    return [min, max];
+  }, [dp]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    const img = ctx.createImageData(width, height);
+    for (let y = 0; y < height; y++) {
+      const i = Math.min(m, Math.floor(y / scale));
+      for (let x = 0; x < width; x++) {
+        const j = Math.min(n, Math.floor(x / scale));
+        const p = (y * width + x) * 4;
+        // sky-100 → slate-900 by value; white while hidden
+        const t = hi > lo ? (dp[i][j] - lo) / (hi - lo) : 0;
+        const k = stepIndexOf(i, j);
+        const shown = k >= 0 && k <= revealedThrough;
+        img.data[p] = shown ? 224 - t * 209 : 255;
+        img.data[p + 1] = shown ? 242 - t * 219 : 255;
+        img.data[p + 2] = shown ? 254 - t * 212 : 255;
+        img.data[p + 3] = 255;
+      }
+    }
+    ctx.putImageData(img, 0, 0);
+    ctx.fillStyle = "#f59e0b";
+    const dot = Math.max(1, Math.ceil(scale));
+    for (const key of backtrace) {
+      const [i, j] = key.split(",").map(Number);
+      ctx.fillRect(Math.floor(j * scale), Math.floor(i * scale), dot, dot);
+    }
+  }, [dp, stepIndexOf, revealedThrough, backtrace, lo, hi, width, height, scale, m, n]);
+
+  return (
+    <div className="mt-4 flex items-end gap-3">
+      <div
+        className="relative cursor-crosshair rounded border border-slate-200"
+        style={rtl ? { transform: "scaleX(-1)" } : undefined}
+        onClick={(e) => {
+          const r = e.currentTarget.getBoundingClientRect();
+          const x = rtl ? r.right - e.clientX : e.clientX - r.left;
+          onJump(clamp(Math.floor((e.clientY - r.top) / scale), 0, m), clamp(Math.floor(x / scale), 0, n));
+        }}
+      >
+        <canvas
+          ref={canvasRef}
+          width={width}
+          height={height}
+          className="block"
+          style={{ imageRendering: "pixelated" }}
+        />
+        {/* the part of the table the grid is showing */}
+        <div
+          className="pointer-events-none absolute border border-rose-500"
+          style={{
+            top: view.top * scale,
+            left: view.left * scale,
+            width: Math.max(2, Math.min(view.cols, n + 1 - view.left) * scale),
+            height: Math.max(2, Math.min(view.rows, m + 1 - view.top) * scale),
+          }}
+        />
+      </div>
+      <div className="text-xs text-slate-500">{t.grid.overview(m + 1, n + 1)}</div>
+    </div>
+  );
+}
+
+/** Gotoh's three coupled recurrences, with the current weights filled in. */
+function AffineRule({ t, costs }: { t: Messages; costs: EditCosts }) {
+  const open = formatCost(costs.gapOpen);
+  const del = formatCost(costs.delete);
+  const ins = formatCost(costs.insert);
+  return (
+    <>
+      <div className="mt-1 space-y-1 font-mono text-xs text-slate-700 leading-relaxed">
+        <div>M[i][j] = min(M, X, Y)[i-1][j-1] + cost(a, b)</div>
+        <div>
+          X[i][j] = min(M[i-1][j] + {open} + {del}, X[i-1][j] + {del}, Y[i-1][j] + {open} + {del})
+        </div>
+        <div>
+          Y[i][j] = min(M[i][j-1] + {open} + {ins}, X[i][j-1] + {open} + {ins}, Y[i][j-1] + {ins})
+        </div>
+        <div>dp[i][j] = min(M, X, Y)[i][j]</div>
+      </div>
+      <div className="mt-1 text-xs text-slate-600">{t.rule.affine(open, formatCost(costs.replace))}</div>
+    </>
+  );
+}
+
+/** The maximizing recurrences, with the current scores filled in. */
+function ScoreRule({ t, algorithm, scores }: { t: Messages; algorithm: Algorithm; scores: Scores }) {
+  if (algorithm === "lcs") {
+    return (
+      <>
+        <div className="mt-1 text-sm text-slate-700 leading-relaxed">
+          dp[i][j] = max(
+          <span className="font-mono"> dp[i-1][j]</span> ({t.rule.gap}),
+          <span className="font-mono"> dp[i][j-1]</span> ({t.rule.gap}),
+          <span className="font-mono"> dp[i-1][j-1] + 1</span> ({t.rule.lcsMatch}) )
+        </div>
+        <div className="mt-1 text-xs text-slate-600">{t.rule.zeroEdges}</div>
+      </>
+    );
+  }
+  const local = algorithm === "smith-waterman";
+  return (
+    <>
+      <div className="mt-1 text-sm text-slate-700 leading-relaxed">
+        dp[i][j] = max(
+        {local && (
+          <>
+            <span className="font-mono"> 0</span> ({t.rule.startHere}),
+          </>
+        )}
+        <span className="font-mono"> dp[i-1][j] + {formatCost(scores.gap)}</span> ({t.rule.gap}),
+        <span className="font-mono"> dp[i][j-1] + {formatCost(scores.gap)}</span> ({t.rule.gap}),
+        <span className="font-mono"> dp[i-1][j-1] + s(a, b)</span> ({t.rule.matchMismatch}) )
+      </div>
+      <div className="mt-1 text-xs text-slate-600">
+        {t.rule.score(formatCost(scores.match), formatCost(scores.mismatch))}{" "}
+        {local ? t.rule.local : t.rule.global(formatCost(scores.gap))}
+      </div>
+    </>
+  );
+}
+
+const SEARCH_HITS_SHOWN = 100;
+
+/** Substring mode: text A with every match of B within k marked; clicking one traces it back. */
+function HitsPanel({
+  t,
+  tokens,
+  joiner,
+  hits,
+  picked,
+  best,
+  maxDistance,
+  onPick,
+}: {
+  t: Messages;
+  tokens: readonly string[];
+  joiner: string;
+  hits: SubstringHit[];
+  picked: SubstringHit | null;
+  best: number;
+  maxDistance: number | null;
+  onPick: (hit: SubstringHit) => void;
+}) {
+  // the hit covering each token of A, the first one in text order when they overlap
+  const cover = useMemo(() => {
+    const out: (SubstringHit | null)[] = tokens.map(() => null);
+    for (const h of hits) for (let k = h.start; k < h.end; k++) out[k] ??= h;
+    return out;
+  }, [tokens, hits]);
+  return (
+    <div className="mt-3 rounded-2xl border border-slate-200 bg-slate-50 p-3">
+      <div className="text-xs text-slate-600">
+        {hits.length
+          ? maxDistance !== null
+            ? t.hits.within(hits.length, maxDistance)
+            : t.hits.atBest(hits.length, formatCost(best))
+          : t.hits.none(maxDistance, formatCost(best))}
+      </div>
+      <div className="mt-2 rounded-xl border border-slate-200 bg-white px-3 py-2 font-mono text-sm whitespace-pre-wrap break-words">
+        {tokens.map((token, k) => {
+          const h = cover[k];
+          const inPicked = !!picked && k >= picked.start && k < picked.end;
+          return (
+            <span key={k}>
+              {k > 0 && joiner}
+              {h ? (
+                <button
+                  onClick={() => onPick(inPicked ? picked : h)}
+                  className={`rounded ${inPicked ? "bg-amber-300 text-amber-950" : "bg-amber-100 hover:bg-amber-200"}`}
+                >
+                  {token}
+                </button>
+              ) : (
+                token
+              )}
+            </span>
+          );
+        })}
+      </div>
+      {hits.length > 0 && (
+        <ol className="mt-2 max-h-40 overflow-auto divide-y divide-slate-200 rounded-xl border border-slate-200 bg-white">
+          {hits.slice(0, SEARCH_HITS_SHOWN).map((h) => (
+            <li key={h.end}>
+              <button
+                onClick={() => onPick(h)}
+                className={`flex w-full items-center gap-3 px-3 py-1.5 text-left text-sm hover:bg-slate-50 ${
+                  h === picked ? "bg-slate-900/5" : ""
+                }`}
+              >
+                <span className="w-24 text-xs tabular-nums text-slate-500">{t.hits.rows(h.start + 1, h.end)}</span>
+                <span className="flex-1 truncate font-mono">{tokens.slice(h.start, h.end).join(joiner) || "∅"}</span>
+                <span className="w-10 text-right font-mono font-semibold tabular-nums">{formatCost(h.distance)}</span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+      {hits.length > SEARCH_HITS_SHOWN && (
+        <div className="mt-1 text-xs text-slate-500">
+          {t.search.more((hits.length - SEARCH_HITS_SHOWN).toLocaleString())}
+        </div>
+      )}
+      <div className="mt-2 text-xs text-slate-500 leading-relaxed">{t.hits.explain}</div>
+    </div>
+  );
+}
+
+/** Ranked results of a word-list search; clicking one opens it as B. */
+function SearchPanel({
+  t,
+  result,
+  candidates,
+  opened,
+  maxDistance,
+  algorithm,
+  onOpen,
+}: {
+  t: Messages;
+  result: FuzzySearchResult;
+  candidates: string[];
+  opened: string;
+  maxDistance: number | null;
+  algorithm: Algorithm;
+  onOpen: (candidate: string) => void;
+}) {
+  const { hits, rowsComputed, rowsNaive, rowsPruned } = result;
+  const reused = rowsNaive - rowsComputed - rowsPruned;
+  return (
+    <div className="mt-3 rounded-2xl border border-slate-200 bg-slate-50 p-3">
+      <div className="flex flex-wrap items-baseline justify-between gap-2 text-xs text-slate-600">
+        <span>{t.search.found(hits.length.toLocaleString(), candidates.length.toLocaleString(), maxDistance)}</span>
+        <span className="tabular-nums">
+          {t.search.trie(
+            rowsComputed.toLocaleString(),
+            rowsNaive.toLocaleString(),
+            reused.toLocaleString(),
+            rowsPruned ? rowsPruned.toLocaleString() : null
+          )}
+        </span>
+      </div>
+      {hits.length === 0 ? (
+        <div className="mt-2 text-xs text-slate-500">
+          {candidates.length ? t.search.noneWithin : t.search.pasteList}
+        </div>
+      ) : (
+        <ol className="mt-2 max-h-56 overflow-auto divide-y divide-slate-200 rounded-xl border border-slate-200 bg-white">
+          {hits.slice(0, SEARCH_HITS_SHOWN).map((h, rank) => (
+            <li key={h.index}>
+              <button
+                onClick={() => onOpen(h.candidate)}
+                className={`flex w-full items-center gap-3 px-3 py-1.5 text-left text-sm hover:bg-slate-50 ${
+                  h.candidate === opened ? "bg-slate-900/5" : ""
+                }`}
+              >
+                <span className="w-6 text-right text-xs tabular-nums text-slate-400">{rank + 1}</span>
+                <span className="flex-1 truncate font-mono">{h.candidate}</span>
+                <span className="text-xs text-slate-500">
+                  {h.sharedWith === null
+                    ? t.search.allNew
+                    : t.search.sharedRows(h.sharedPrefix, candidates[h.sharedWith])}
+                </span>
+                <span className="w-10 text-right font-mono font-semibold tabular-nums">{formatCost(h.distance)}</span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+      {hits.length > SEARCH_HITS_SHOWN && (
+        <div className="mt-1 text-xs text-slate-500">
+          {t.search.more((hits.length - SEARCH_HITS_SHOWN).toLocaleString())}
+        </div>
+      )}
+      <div className="mt-2 text-xs text-slate-500 leading-relaxed">{t.search.explain(algorithm !== "levenshtein")}</div>
+    </div>
+  );
+}
+
+/** The side panel in practice mode: the cell being asked, hints, the trace-back exercise and the score. */
+function PracticePanel({
+  t,
+  cell,
+  quiz,
+  algorithm,
+  trace,
+  traceIndex,
+  alignmentCount,
+  optimumLabel,
+  distance,
+  onOp,
+  onSubmit,
+  onHint,
+  onTraceHint,
+  onRestart,
+}: {
+  t: Messages;
+  cell: CellExplain | null;
+  quiz: QuizState;
+  algorithm: Algorithm;
+  trace: Trace | null;
+  /** which alignment a finished trace is, -1 if past the ones checked */
+  traceIndex: number | null;
+  alignmentCount: number;
+  optimumLabel: string;
+  distance: number;
+  onOp: (op: Op | "") => void;
+  onSubmit: () => void;
+  onHint: () => void;
+  onTraceHint: () => void;
+  onRestart: () => void;
+}) {
+  const tip = trace?.cells[trace.cells.length - 1];
+  const done = !cell && (!trace || trace.done);
+  const countable = alignmentCount <= Number.MAX_SAFE_INTEGER;
+  const ops = cell ? cell.candidates.filter((c, k) => cell.candidates.findIndex((d) => d.op === c.op) === k) : [];
+  return (
+    <>
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold">{t.practice.title}</h2>
+        <span className="text-xs px-2 py-1 rounded-full border bg-slate-100 text-slate-700 border-slate-200">
+          {cell ? t.practice.fill : done ? t.practice.done : t.practice.traceBack}
+        </span>
+      </div>
+
+      <div className="mt-3 text-sm text-slate-700">
+        {cell && (
+          <>
+            <div className="flex items-center justify-between">
+              <span>
+                i, j:{" "}
+                <span className="font-mono">
+                  ({cell.i}, {cell.j})
+                </span>
+              </span>
+              <span className="font-mono text-xs text-slate-500">
+                {t.practice.versus(cell.aChar ?? "∅", cell.bChar ?? "∅")}
+              </span>
+            </div>
+            <div className="mt-3 leading-relaxed">{t.practice.typeCell(cell.i, cell.j)}</div>
+            <label className="mt-3 flex items-center justify-between gap-2 text-xs text-slate-600">
+              {t.practice.operation}
+              <select
+                value={quiz.op}
+                onChange={(e) => onOp(e.target.value as Op | "")}
+                className="rounded-lg border border-slate-200 bg-white px-2 py-1 outline-none focus:ring-2 focus:ring-slate-200"
+              >
+                <option value="">—</option>
+                {ops.map((c) => (
+                  <option key={c.op} value={c.op}>
+                    {candidateLabel(c, algorithm, t)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className="mt-3 flex gap-2">
+              <button
+                onClick={onSubmit}
+                className="rounded-xl px-3 py-2 text-sm font-medium border border-slate-200 bg-slate-900 text-white hover:bg-slate-800"
+              >
+                {t.practice.check}
+              </button>
+              <button
+                onClick={onHint}
+                disabled={quiz.hints >= cell.candidates.length}
+                className="rounded-xl px-3 py-2 text-sm font-medium border border-slate-200 bg-white hover:bg-slate-50 disabled:opacity-40"
+              >
+                {t.practice.hint}
+              </button>
+            </div>
+            {quiz.hints > 0 && (
+              <div className="mt-3 flex flex-col gap-2">
+                {cell.candidates.slice(0, quiz.hints).map((c, idx) => (
+                  <div
+                    key={idx}
+                    className="flex items-center justify-between rounded-xl border border-slate-200 bg-white px-3 py-2"
+                  >
+                    <span className="text-sm font-medium">
+                      {candidateLabel(c, algorithm, t)}
+                      {c.from && (
+                        <span className="ms-2 text-xs text-slate-500">
+                          {t.cell.from} {c.fromLayer}({c.from[0]}, {c.from[1]})
+                        </span>
                       )}
-                    </AnimatePresence>
+                    </span>
+                    <span className="font-mono tabular-nums">{formatCost(c.value)}</span>
                   </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+
+        {!cell && !trace && <div className="leading-relaxed">{t.practice.noTrace(optimumLabel)}</div>}
+        {tip && !trace!.done && (
+          <>
+            <div className="leading-relaxed">{t.practice.traceFrom(tip.i, tip.j)}</div>
+            <button
+              onClick={onTraceHint}
+              className="mt-3 rounded-xl px-3 py-2 text-sm font-medium border border-slate-200 bg-white hover:bg-slate-50"
+            >
+              {t.practice.hint}
+            </button>
+          </>
+        )}
+        {trace?.done && (
+          <div className="leading-relaxed">
+            {optimumLabel} <span className="font-mono font-semibold">{formatCost(distance)}</span>.{" "}
+            {t.practice.yourPath(
+              traceIndex !== null && traceIndex >= 0 && countable ? (traceIndex + 1).toLocaleString() : null,
+              countable
+                ? alignmentCount.toLocaleString()
+                : t.playback.moreThan(Number.MAX_SAFE_INTEGER.toLocaleString()),
+              traceIndex === 0
+            )}
+          </div>
+        )}
+
+        {quiz.feedback && (
+          <div
+            className={`mt-4 rounded-2xl border p-3 text-sm leading-relaxed ${
+              quiz.feedback.ok
+                ? "border-emerald-200 bg-emerald-50 text-emerald-800"
+                : "border-rose-200 bg-rose-50 text-rose-800"
+            }`}
+          >
+            {quiz.feedback.text}
+          </div>
+        )}
+
+        <div className="mt-4 rounded-2xl border border-slate-200 bg-slate-50 p-3">
+          <div className="text-xs font-medium text-slate-600">{done ? t.practice.finalScore : t.practice.score}</div>
+          <div className="mt-1 text-xs tabular-nums text-slate-600 leading-relaxed">
+            {[
+              t.practice.firstTry(quiz.firstTry, quiz.asked),
+              quiz.opsAsked > 0 && t.practice.ops(quiz.opsRight, quiz.opsAsked),
+              t.practice.hints(quiz.hintsUsed),
+              trace && t.practice.traceMistakes(quiz.traceMistakes),
+            ]
+              .filter(Boolean)
+              .join(" · ")}
+          </div>
+          {done && (
+            <button
+              onClick={onRestart}
+              className="mt-2 rounded-lg px-2 py-1 text-xs border border-slate-200 bg-white hover:bg-slate-50"
+            >
+              {t.practice.startOver}
+            </button>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
+
+function HirschbergPanel({
+  t,
+  frame,
+  distance,
+  frames,
+  done,
+  matchesBacktrace,
+}: {
+  t: Messages;
+  frame: HirschbergFrame;
+  distance: number;
+  frames: number;
+  done: boolean;
+  matchesBacktrace: boolean;
+}) {
+  const { top, left, bottom, right, depth } = frame.region;
+  const region = `(${top}, ${left}) – (${bottom}, ${right})`;
+  return (
+    <>
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold">{t.hirschberg.title}</h2>
+        <span className="text-xs px-2 py-1 rounded-full border bg-slate-100 text-slate-700 border-slate-200">
+          {t.hirschberg.frames[frame.kind]}
+        </span>
+      </div>
+
+      <div className="mt-3 text-sm text-slate-700">
+        <div className="flex items-center justify-between">
+          <span>
+            {t.hirschberg.region} <span className="font-mono">{region}</span>
+          </span>
+          <span className="text-xs text-slate-500">{t.hirschberg.depth(depth)}</span>
+        </div>
+
+        <div className="mt-4 rounded-2xl border border-slate-900 bg-slate-900/5 p-3 text-sm leading-relaxed">
+          {frame.kind === "forward" && t.hirschberg.forward(top, frame.row)}
+          {frame.kind === "reverse" && t.hirschberg.reverse(bottom, right, frame.row)}
+          {frame.kind === "split" &&
+            t.hirschberg.split(
+              frame.ties,
+              frame.row,
+              frame.col,
+              `(${top}, ${left}) – (${frame.row}, ${frame.col})`,
+              `(${frame.row}, ${frame.col}) – (${bottom}, ${right})`
+            )}
+          {frame.kind === "solve" &&
+            t.hirschberg.solve(
+              bottom,
+              right,
+              frame.path
+                .slice(1)
+                .map((c) => t.cell.ops[c.op])
+                .join(", ") || t.hirschberg.nothingToDo
+            )}
+        </div>
+
+        {(frame.kind === "forward" || frame.kind === "reverse") && (
+          <div className="mt-3 font-mono text-xs text-slate-600 break-all">
+            [{frame.scores.map((s) => formatCost(s)).join(", ")}]
+          </div>
+        )}
+
+        {done && (
+          <div className="mt-4 rounded-2xl border border-slate-200 bg-slate-50 p-3 text-sm leading-relaxed">
+            {t.hirschberg.done(formatCost(distance), frames)}{" "}
+            {matchesBacktrace ? t.hirschberg.sameAlignment : t.hirschberg.otherAlignment}
+          </div>
+        )}
+
+        <div className="mt-4 rounded-2xl border border-slate-200 bg-slate-50 p-3">
+          <div className="text-xs font-medium text-slate-600">{t.grid.colours}</div>
+          <div className="mt-1 text-xs text-slate-600 leading-relaxed">{t.hirschberg.colourKey}</div>
+        </div>
+      </div>
+    </>
+  );
+}
+
+/** The right-hand configuration of the split view. */
+function CompareSettings({
+  t,
+  config,
+  onChange,
+}: {
+  t: Messages;
+  config: CompareConfig;
+  onChange: (c: CompareConfig) => void;
+}) {
+  const { algorithm } = config;
+  const select =
+    "mt-1 block rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-slate-200";
+  return (
+    <div className="mt-3 rounded-2xl border border-fuchsia-200 bg-fuchsia-50/40 p-3">
+      <div className="text-xs font-medium text-fuchsia-700">
+        {t.compare.settings} <span className="font-normal text-slate-500">{t.compare.shared}</span>
+      </div>
+      <div className="mt-2 flex flex-wrap items-end gap-3">
+        <div>
+          <label className="text-xs font-medium text-slate-600">{t.inputs.algorithm}</label>
+          <select
+            value={algorithm}
+            onChange={(e) => onChange({ ...config, algorithm: e.target.value as Algorithm })}
+            className={select}
+          >
+            {ALGORITHMS.map((al) => (
+              <option key={al} value={al}>
+                {t.algorithms[al]}
+              </option>
+            ))}
+          </select>
+        </div>
+        {!maximizes(algorithm) &&
+          weightKeys(algorithm).map((k) => (
+            <div key={k} className="w-20">
+              <label className="text-xs font-medium text-slate-600">{t.inputs.weights[k]}</label>
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={config.weights[k]}
+                onChange={(e) => {
+                  const v = Number(e.target.value);
+                  if (e.target.value === "" || !(v >= 0)) return;
+                  onChange({ ...config, weights: { ...config.weights, [k]: v } });
+                }}
+                className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm tabular-nums outline-none focus:ring-2 focus:ring-slate-200"
+              />
+            </div>
+          ))}
+        <div>
+          <label className="text-xs font-medium text-slate-600">{t.playback.tieBreak}</label>
+          <select
+            value={config.tieBreak}
+            onChange={(e) => onChange({ ...config, tieBreak: Number(e.target.value) })}
+            className={select}
+          >
+            {TIE_BREAKS.map((order, idx) => (
+              <option key={idx} value={idx}>
+                {tieBreakLabel(order, algorithm, t)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="text-xs font-medium text-slate-600">{t.playback.fillOrder}</label>
+          <select
+            value={config.fillOrder}
+            onChange={(e) => onChange({ ...config, fillOrder: e.target.value as FillOrder })}
+            className={select}
+          >
+            {FILL_ORDERS.map((o) => (
+              <option key={o} value={o}>
+                {t.fillOrders[o]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/** The right half of the split view: the second run's grid, on the same step counter as the left. */
+function ComparePane({
+  t,
+  rtl,
+  contrast,
+  reduceMotion,
+  result,
+  path,
+  step,
+  diff,
+  hovered,
+  onHoverCell,
+  onStep,
+}: {
+  t: Messages;
+  rtl: boolean;
+  contrast: boolean;
+  reduceMotion: boolean;
+  result: EditDistanceResult;
+  path: PathCell[];
+  step: number;
+  diff?: Uint8Array;
+  hovered: string | null;
+  onHoverCell: (key: string | null) => void;
+  onStep: (k: number) => void;
+}) {
+  const m = result.tokensA.length;
+  const n = result.tokensB.length;
+  const fillSteps = result.stepCount;
+  const inBacktrace = step >= fillSteps && path.length > 0;
+  const btPos = inBacktrace ? Math.max(0, path.length - 1 - (step - fillSteps)) : path.length;
+  const revealedThrough = Math.min(step, fillSteps - 1);
+  const backtrace = useMemo(() => new Set(path.slice(btPos).map((c) => `${c.i},${c.j}`)), [path, btPos]);
+  const dag = useMemo(
+    () => (inBacktrace ? optimalDag(result.parentsOf, m, n, result.end) : new Set<number>()),
+    [inBacktrace, result, m, n]
+  );
+  return (
+    <DPGrid
+      t={t}
+      rtl={rtl}
+      label={t.grid.rightTable}
+      contrast={contrast}
+      reduceMotion={reduceMotion}
+      a={result.tokensA}
+      b={result.tokensB}
+      dp={result.dp}
+      stepIndexOf={result.stepIndexOf}
+      revealedThrough={revealedThrough}
+      skipped={result.band ? result.skipped : undefined}
+      diff={diff}
+      current={inBacktrace ? [path[btPos].i, path[btPos].j] : result.cellAt(clamp(step, 0, fillSteps - 1))}
+      waveDiagonal={null}
+      transposeFrom={null}
+      backtrace={backtrace}
+      dag={dag}
+      parentsOf={result.parentsOf}
+      hovered={hovered}
+      onHoverCell={onHoverCell}
+      onCellClick={(i, j) => {
+        const k = result.stepIndexOf(i, j);
+        if (k >= 0 && k <= revealedThrough) onStep(k);
+      }}
+    />
+  );
+}
+
+// the edits per operation, "2 replace, 1 insert" in English
+function editSummary(operations: EditOperation[], t: Messages) {
+  const counts = Object.entries(countEdits(operations)) as [EditOperation["op"], number][];
+  if (!counts.length) return t.compare.noEdits;
+  return counts.map(([op, k]) => t.compare.editCount(k, op)).join(t.compare.separator);
+}
+
+/** How the two sides of the split view differ: their optimum, the cells that changed and the edits they trade. */
+function ComparePanel({
+  t,
+  left,
+  right,
+  leftAlignment,
+  rightAlignment,
+  leftLabel,
+  rightLabel,
+  comparison,
+}: {
+  t: Messages;
+  left: EditDistanceResult;
+  right: EditDistanceResult;
+  leftAlignment: Alignment | null;
+  rightAlignment: Alignment | null;
+  leftLabel: string;
+  rightLabel: string;
+  /** null when the table is too large to compare cell by cell */
+  comparison: TableComparison | null;
+}) {
+  const sides = [
+    { name: t.playback.left, result: left, alignment: leftAlignment, label: leftLabel },
+    { name: t.playback.right, result: right, alignment: rightAlignment, label: rightLabel },
+  ];
+  const cells = (left.tokensA.length + 1) * (left.tokensB.length + 1);
+  return (
+    <div className="mt-4 rounded-2xl border border-slate-200 bg-slate-50 p-3 text-sm text-slate-700">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {sides.map((s) => (
+          <div key={s.name}>
+            <div className="text-xs font-medium text-slate-600">
+              {t.compare.heading(s.name, s.label)}{" "}
+              <span className="font-mono">
+                {s.result.distance === Infinity ? "> k" : formatCost(s.result.distance)}
+              </span>
+              {s.alignment && (
+                <> · {t.compare.alignment(s.alignment.index + 1, editSummary(s.alignment.operations, t))}</>
+              )}
+            </div>
+            {s.alignment && (
+              <pre className="mt-1 overflow-x-auto font-mono text-xs leading-5 text-slate-800">
+                {s.alignment.rows.join("\n")}
+              </pre>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-3 text-xs leading-relaxed text-slate-600">
+        {comparison ? (
+          <>
+            {t.compare.cellsDiffer(
+              comparison.valueDiffs.toLocaleString(),
+              cells.toLocaleString(),
+              comparison.opDiffs.toLocaleString()
+            )}{" "}
+            {leftAlignment &&
+              rightAlignment &&
+              t.compare.sharedPath(comparison.sharedPath, leftAlignment.path.length, rightAlignment.path.length)}
+          </>
+        ) : (
+          t.compare.tooLarge(COMPARE_MAX_CELLS.toLocaleString())
+        )}
+      </div>
+
+      {comparison && leftAlignment && rightAlignment && (
+        <div className="mt-3 text-xs text-slate-700">
+          {comparison.onlyLeft.length === 0 && comparison.onlyRight.length === 0 ? (
+            t.compare.sameEdits
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {[
+                { name: t.compare.onlyLeft, ops: comparison.onlyLeft },
+                { name: t.compare.onlyRight, ops: comparison.onlyRight },
+              ].map((g) => (
+                <div key={g.name}>
+                  <div className="font-medium text-slate-600">{g.name}</div>
+                  <ul className="mt-1 space-y-0.5 font-mono">
+                    {g.ops.length === 0 ? (
+                      <li className="font-sans text-slate-500">{t.compare.nothing}</li>
+                    ) : (
+                      g.ops.map((o, idx) => <li key={idx}>{describeEdit(o, t)}</li>)
+                    )}
+                  </ul>
                 </div>
-              );
-            })}
-          </React.Fragment>
-        );
-      })}
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// a bit vector's 1 bits: +1 deltas in rose, −1 in emerald, like costs going up and down
+const BIT_TONE = {
+  one: "bg-slate-200 text-slate-900",
+  plus: "bg-rose-100 text-rose-800",
+  minus: "bg-emerald-100 text-emerald-800",
+  eq: "bg-sky-100 text-sky-800",
+  carry: "bg-amber-100 text-amber-800",
+};
+
+// rows of A past this are left out of the bit vectors
+const MAX_BITS = 48;
+
+/** One bit vector as a row of cells, row m first like a written binary number. */
+function BitRow({
+  label,
+  formula,
+  value,
+  bits,
+  tone = "one",
+}: {
+  label: string;
+  formula: string;
+  value: bigint;
+  bits: number[];
+  tone?: keyof typeof BIT_TONE;
+}) {
+  return (
+    <tr>
+      <th className="pr-2 text-left font-mono text-xs font-medium text-slate-700">{label}</th>
+      {bits.map((i) => (
+        <td
+          key={i}
+          className={`w-4 rounded text-center font-mono text-[11px] ${bitAt(value, i) ? BIT_TONE[tone] : "text-slate-300"}`}
+        >
+          {bitAt(value, i)}
+        </td>
+      ))}
+      <td className="pl-2 font-mono text-[11px] text-slate-500 whitespace-nowrap">{formula}</td>
+    </tr>
+  );
+}
+
+function MyersPanel({
+  t,
+  column,
+  a,
+  token,
+  distance,
+  columns,
+  done,
+  mismatch,
+}: {
+  t: Messages;
+  column: MyersColumn;
+  a: readonly string[];
+  /** B's token at this column, null for column 0 */
+  token: string | null;
+  distance: number;
+  columns: number;
+  done: boolean;
+  /** the first column whose rebuilt values differ from the full table, -1 if none */
+  mismatch: number;
+}) {
+  const m = a.length;
+  const bits = range(0, Math.min(m, MAX_BITS) - 1).reverse();
+  const c = column;
+  return (
+    <>
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold">{t.playback.phases.bitParallel}</h2>
+        <span className="text-xs px-2 py-1 rounded-full border bg-slate-100 text-slate-700 border-slate-200">
+          {t.myers.column(c.j)}
+        </span>
+      </div>
+
+      <div className="mt-3 text-sm text-slate-700">
+        <div className="flex items-center justify-between">
+          <span>
+            {token === null ? (
+              t.myers.emptyPrefix
+            ) : (
+              <>
+                {t.myers.token} <span className="font-mono">{displayToken(token)}</span>
+              </>
+            )}
+          </span>
+          <span className="font-mono text-xs text-slate-500">
+            dp[{m}][{c.j}] = {c.score}
+          </span>
+        </div>
+
+        <div className="mt-4 rounded-2xl border border-slate-900 bg-slate-900/5 p-3 text-sm leading-relaxed">
+          {c.j === 0 ? t.myers.column0(m) : t.myers.step(c.j - 1, c.j)}
+        </div>
+
+        {m > 0 && (
+          <div className="mt-3 overflow-x-auto">
+            <table className="border-separate border-spacing-px">
+              <thead>
+                <tr>
+                  <th />
+                  {bits.map((i) => (
+                    <th
+                      key={i}
+                      title={t.myers.row(i + 1)}
+                      className="w-4 max-w-4 truncate text-center font-mono text-[10px] font-normal text-slate-500"
+                    >
+                      {displayToken(a[i])}
+                    </th>
+                  ))}
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {c.j > 0 && (
+                  <>
+                    <BitRow label="Eq" formula="Peq[token]" value={c.eq} bits={bits} tone="eq" />
+                    <BitRow label="Pv" formula={t.myers.plusIn("j − 1")} value={c.pvIn} bits={bits} tone="plus" />
+                    <BitRow label="Mv" formula={t.myers.minusIn("j − 1")} value={c.mvIn} bits={bits} tone="minus" />
+                    <BitRow label="Xv" formula="Eq | Mv" value={c.xv} bits={bits} />
+                    <BitRow
+                      label={t.myers.carry}
+                      formula={t.myers.carryOf("(Eq & Pv) + Pv")}
+                      value={c.carry}
+                      bits={bits}
+                      tone="carry"
+                    />
+                    <BitRow label={t.myers.sum} formula="(Eq & Pv) + Pv" value={c.sum} bits={bits} />
+                    <BitRow label="Xh" formula={`(${t.myers.sum} ^ Pv) | Eq`} value={c.xh} bits={bits} />
+                    <BitRow label="Ph" formula="Mv | ~(Xh | Pv)" value={c.ph} bits={bits} tone="plus" />
+                    <BitRow label="Mh" formula="Pv & Xh" value={c.mh} bits={bits} tone="minus" />
+                  </>
+                )}
+                <BitRow
+                  label={c.j > 0 ? "Pv′" : "Pv"}
+                  formula={c.j > 0 ? "Mh≪1 | ~(Xv | Ph≪1 | 1)" : t.myers.plusIn("0")}
+                  value={c.pv}
+                  bits={bits}
+                  tone="plus"
+                />
+                <BitRow
+                  label={c.j > 0 ? "Mv′" : "Mv"}
+                  formula={c.j > 0 ? "(Ph≪1 | 1) & Xv" : t.myers.minusIn("0")}
+                  value={c.mv}
+                  bits={bits}
+                  tone="minus"
+                />
+              </tbody>
+            </table>
+            {m > MAX_BITS && <div className="mt-2 text-xs text-slate-500">{t.myers.showingRows(MAX_BITS, m)}</div>}
+          </div>
+        )}
+
+        {done && (
+          <div className="mt-4 rounded-2xl border border-slate-200 bg-slate-50 p-3 text-sm leading-relaxed">
+            {t.myers.done(distance, columns, m)} {mismatch < 0 ? t.myers.matches : t.myers.mismatch(mismatch)}{" "}
+            {t.myers.noBacktrace}
+          </div>
+        )}
+
+        <div className="mt-4 rounded-2xl border border-slate-200 bg-slate-50 p-3">
+          <div className="text-xs font-medium text-slate-600">{t.grid.colours}</div>
+          <div className="mt-1 text-xs text-slate-600 leading-relaxed">{t.myers.colourKey(m)}</div>
+        </div>
+      </div>
+    </>
+  );
+}
+
+function EditScriptPanel({
+  t,
+  a,
+  b,
+  distance,
+  columns,
+  separator,
+  operations,
+  hovered,
+  contrast,
+  rtl,
+  onHoverCell,
+}: {
+  t: Messages;
+  a: string;
+  b: string;
+  distance: number;
+  columns: AlignColumn[];
+  separator: string;
+  operations: EditOperation[];
+  hovered: string | null;
+  contrast: boolean;
+  /** lay the alignment out right to left, like the grid */
+  rtl: boolean;
+  onHoverCell: (key: string | null) => void;
+}) {
+  const exportText = () => {
+    const lines = [...alignmentRows(columns, separator), "", ...operations.map((o) => describeEdit(o, t))];
+    downloadText("edit-script.txt", lines.join("\n") + "\n", "text/plain");
+  };
+
+  const exportJson = () => {
+    const [rowA, markers, rowB] = alignmentRows(columns, separator);
+    const json = { a, b, distance, alignment: { a: rowA, ops: markers, b: rowB }, operations };
+    downloadText("edit-script.json", JSON.stringify(json, null, 2) + "\n", "application/json");
+  };
+
+  return (
+    <div className="mt-4 rounded-2xl border border-slate-200 bg-slate-50 p-3">
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-xs font-medium text-slate-600">{t.script.title}</div>
+        <div className="flex gap-2">
+          <button
+            onClick={exportText}
+            className="rounded-lg px-2 py-1 text-xs border border-slate-200 bg-white hover:bg-slate-50"
+          >
+            {t.script.exportText}
+          </button>
+          <button
+            onClick={exportJson}
+            className="rounded-lg px-2 py-1 text-xs border border-slate-200 bg-white hover:bg-slate-50"
+          >
+            {t.script.exportJson}
+          </button>
+        </div>
+      </div>
+
+      <div dir={rtl ? "rtl" : "ltr"} className="mt-2 overflow-x-auto">
+        <div className="inline-flex font-mono text-sm">
+          {columns.map((c) => {
+            const key = `${c.i},${c.j}`;
+            return (
+              <div
+                key={key}
+                onMouseEnter={() => onHoverCell(key)}
+                onMouseLeave={() => onHoverCell(null)}
+                className={`flex flex-col items-center px-1 rounded-md cursor-default ${
+                  hovered === key ? "bg-amber-100" : ""
+                }`}
+              >
+                <span className="whitespace-pre">{c.aText}</span>
+                <span className={`whitespace-pre text-xs rounded px-1 border ${opBadgeClass(c.op, contrast)}`}>
+                  {c.marker}
+                </span>
+                <span className="whitespace-pre">{c.bText}</span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <ol className="mt-3 space-y-1 text-xs text-slate-700 list-decimal ps-5">
+        {operations.length === 0 ? (
+          <li className="list-none -ms-5 text-slate-500">{t.script.noEdits}</li>
+        ) : (
+          operations.map((o, idx) => (
+            <li key={idx} className="font-mono">
+              {describeEdit(o, t)}
+            </li>
+          ))
+        )}
+      </ol>
     </div>
   );
 }
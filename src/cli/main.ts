@@ -0,0 +1,10 @@
+import { readFileSync } from "node:fs";
+import { runCli } from "./run";
+
+// npm run cli -- [options] <a> <b>
+try {
+  process.stdout.write(runCli(process.argv.slice(2), (path) => readFileSync(path, "utf8")));
+} catch (e) {
+  process.stderr.write(`edit-distance: ${(e as Error).message}\nTry --help for usage.\n`);
+  process.exitCode = 2;
+}
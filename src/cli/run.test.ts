@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { USAGE, parseArgs, runCli } from "./run";
+
+const noFiles = (path: string): string => {
+  throw new Error(`unexpected read of ${path}`);
+};
+
+describe("command line", () => {
+  it("reads options, weights and negative numbers as arguments", () => {
+    const o = parseArgs(["-a", "osa", "--replace", "2", "--mismatch", "-3", "-k", "1", "-5", "x"]);
+    expect(o).toMatchObject({ a: "-5", b: "x", algorithm: "osa", costs: { replace: 2 }, scores: { mismatch: -3 } });
+    expect(o.maxDistance).toBe(1);
+    expect(parseArgs(["--", "--json", "b"])).toMatchObject({ a: "--json", b: "b", json: false });
+    expect(() => parseArgs(["a"])).toThrow("expected two strings, got 1");
+    expect(() => parseArgs(["--bogus", "a", "b"])).toThrow("unknown option --bogus");
+    expect(() => parseArgs(["-a", "hamming", "a", "b"])).toThrow(RangeError);
+    expect(() => parseArgs(["--insert", "-1", "a", "b"])).toThrow("--insert must be a non-negative number, got -1");
+    expect(() => parseArgs(["--gap-open", "Infinity", "a", "b"])).toThrow("--gap-open must be a non-negative number");
+    expect(() => parseArgs(["--insert"])).toThrow("--insert needs a value");
+    expect(runCli(["--help"], noFiles)).toBe(USAGE);
+  });
+
+  it("prints the distance, the starred table, the alignment and its edits", () => {
+    const out = runCli(["kitten", "sitting"], noFiles);
+    expect(out.startsWith("Distance: 3\n\n┌")).toBe(true);
+    expect(out).toContain("│ n │ 6  │ 6  │ 5  │ 4  │ 3  │ 3  │ 2* │ 3* │");
+    expect(out).toContain("kitten-\nx|||x|+\nsitting\n");
+    expect(out.endsWith("1. replace 'k'→'s' at 0\n2. replace 'e'→'i' at 4\n3. insert 'g' at 6\n")).toBe(true);
+    const same = runCli(["abc", "abc"], noFiles);
+    expect(same).toContain("No edits needed.");
+    expect(runCli(["--max-cells", "10", "kitten", "sitting"], noFiles)).toContain(
+      "(56 cells: table left out, see --max-cells)"
+    );
+  });
+
+  it("gives scripts JSON, with no distance past k", () => {
+    const json = JSON.parse(runCli(["--json", "-k", "1", "kitten", "sitting"], noFiles));
+    expect(json).toMatchObject({ algorithm: "levenshtein", distance: null, alignmentCount: 0, alignment: null });
+    expect(json.table[0][0]).toBe(0);
+    expect(json.table[0][6]).toBeNull();
+    const lcs = JSON.parse(runCli(["--json", "--steps", "-a", "lcs", "ab", "b"], noFiles));
+    expect(lcs.distance).toBe(1);
+    expect(lcs.steps).toHaveLength(6);
+    expect(lcs.steps[0]).toMatchObject({ i: 0, j: 0, cost: 0, chosen: 0 });
+  });
+
+  it("reads files without their final newline", () => {
+    const files: Record<string, string> = { "a.txt": "kitten\n", "b.txt": "sitting\r\n" };
+    const json = JSON.parse(runCli(["--files", "--json", "a.txt", "b.txt"], (p) => files[p]));
+    expect(json.tokensA.join("")).toBe("kitten");
+    expect(json.tokensB.join("")).toBe("sitting");
+    expect(json.distance).toBe(3);
+  });
+
+  it("lists each cell's candidates with the one taken and its ties", () => {
+    const out = runCli(["--steps", "ab", "ba"], noFiles);
+    expect(out.startsWith("(0, 0) ∅ / ∅: 0\n  > Init")).toBe(true);
+    const cell = out.split("\n\n").find((s) => s.startsWith('(2, 2) "b" / "a": 2'))!;
+    expect(cell.split("\n").filter((l) => l.endsWith("tie"))).toHaveLength(2);
+    expect(cell).toMatch(/\n {2}> Replace \(1\) +from \(1, 1\) +2$/);
+  });
+});
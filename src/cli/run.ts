@@ -0,0 +1,210 @@
+import { describeOperation, editDistance, formatCost, formatTable } from "../engine";
+import type { Algorithm, CellExplain, EditCosts, EditDistanceResult, Scores, Tokenization } from "../engine";
+import { candidateLabel, optimumLabelOf } from "../narration";
+
+/**
+ * The command-line companion: the page's engine run on two strings or two
+ * files, printed for a terminal (the distance, the table with the backtrace
+ * starred, the alignment and its edits) or as JSON for scripts. Reading files
+ * and writing to the terminal is left to ./main, so all of this runs in tests.
+ */
+
+export const USAGE = `Usage: edit-distance [options] <a> <b>
+
+Compares <a> (the rows) with <b> (the columns).
+
+Options:
+  -f, --files              read <a> and <b> from these files
+  -a, --algorithm <name>   levenshtein (default), osa, damerau, gotoh, lcs,
+                           needleman-wunsch or smith-waterman
+  -t, --tokenize <unit>    codepoint, grapheme (default), word or line
+  --insert, --delete, --replace, --transpose, --gap-open <cost>
+                           operation weights (default 1; gap open 2)
+  --match, --mismatch, --gap <score>
+                           similarity scores (default 1, -1, -2)
+  -k, --max-distance <k>   fill only the band a path within k can use
+  --max-cells <n>          leave out tables with more cells (default 2500)
+  --steps                  print every cell's candidates, in fill order
+  --json                   print JSON instead of text
+  -h, --help               show this help
+`;
+
+const ALGORITHMS: Algorithm[] = ["levenshtein", "osa", "damerau", "gotoh", "lcs", "needleman-wunsch", "smith-waterman"];
+const TOKENIZATIONS: Tokenization[] = ["codepoint", "grapheme", "word", "line"];
+
+const COST_FLAGS: Record<string, keyof Omit<EditCosts, "substitutions">> = {
+  "--insert": "insert",
+  "--delete": "delete",
+  "--replace": "replace",
+  "--transpose": "transpose",
+  "--gap-open": "gapOpen",
+};
+const SCORE_FLAGS: Record<string, keyof Scores> = { "--match": "match", "--mismatch": "mismatch", "--gap": "gap" };
+
+export type CliOptions = {
+  a: string;
+  b: string;
+  files: boolean;
+  algorithm: Algorithm;
+  tokenize: Tokenization;
+  costs: Partial<EditCosts>;
+  scores: Partial<Scores>;
+  maxDistance?: number;
+  maxCells: number;
+  steps: boolean;
+  json: boolean;
+  help: boolean;
+};
+
+/** Reads the command line; throws on anything it doesn't understand, with a message fit for the user. */
+export function parseArgs(argv: readonly string[]): CliOptions {
+  const positional: string[] = [];
+  const opts: Omit<CliOptions, "a" | "b"> = {
+    files: false,
+    algorithm: "levenshtein",
+    tokenize: "grapheme",
+    costs: {},
+    scores: {},
+    maxCells: 2500,
+    steps: false,
+    json: false,
+    help: false,
+  };
+  for (let k = 0; k < argv.length; k++) {
+    const arg = argv[k];
+    const value = () => {
+      if (k + 1 >= argv.length) throw new Error(`${arg} needs a value`);
+      return argv[++k];
+    };
+    const number = (ok: (v: number) => boolean, what: string) => {
+      const raw = value();
+      const v = Number(raw);
+      if (raw.trim() === "" || !ok(v)) throw new RangeError(`${arg} must be ${what}, got ${raw}`);
+      return v;
+    };
+    if (arg === "--") {
+      positional.push(...argv.slice(k + 1));
+      break;
+    } else if (arg === "-h" || arg === "--help") opts.help = true;
+    else if (arg === "-f" || arg === "--files") opts.files = true;
+    else if (arg === "--steps") opts.steps = true;
+    else if (arg === "--json") opts.json = true;
+    else if (arg === "-a" || arg === "--algorithm") {
+      const v = value();
+      if (!ALGORITHMS.includes(v as Algorithm)) throw new RangeError(`unknown algorithm ${v}`);
+      opts.algorithm = v as Algorithm;
+    } else if (arg === "-t" || arg === "--tokenize") {
+      const v = value();
+      if (!TOKENIZATIONS.includes(v as Tokenization)) throw new RangeError(`unknown tokenization ${v}`);
+      opts.tokenize = v as Tokenization;
+    } else if (arg in COST_FLAGS)
+      opts.costs[COST_FLAGS[arg]] = number((v) => v >= 0 && v < Infinity, "a non-negative number");
+    else if (arg in SCORE_FLAGS) opts.scores[SCORE_FLAGS[arg]] = number(Number.isFinite, "a number");
+    else if (arg === "-k" || arg === "--max-distance")
+      opts.maxDistance = number((v) => v >= 0, "a non-negative number");
+    else if (arg === "--max-cells") opts.maxCells = number((v) => Number.isInteger(v) && v >= 0, "a whole number");
+    // a lone "-" or a negative number is an argument, not an option
+    else if (/^-[^\d.]/.test(arg)) throw new Error(`unknown option ${arg}`);
+    else positional.push(arg);
+  }
+  if (opts.help) return { ...opts, a: "", b: "" };
+  if (positional.length !== 2)
+    throw new Error(`expected two ${opts.files ? "files" : "strings"}, got ${positional.length}`);
+  return { ...opts, a: positional[0], b: positional[1] };
+}
+
+// the Current Cell panel's list: the candidate taken marked with ">", others reaching the same value with "tie"
+function formatStep(step: CellExplain, algorithm: Algorithm) {
+  // row and column 0 stand for the empty prefix, whatever aChar / bChar hold there
+  const token = (index: number, t: string | undefined) => (index === 0 || t === undefined ? "∅" : JSON.stringify(t));
+  const a = token(step.i, step.aChar);
+  const b = token(step.j, step.bChar);
+  const lines = [`(${step.i}, ${step.j}) ${a} / ${b}: ${formatCost(step.cost)}`];
+  const rows = step.candidates.map((c) => [
+    c === step.chosen ? ">" : " ",
+    candidateLabel(c, algorithm),
+    c.from ? `${c.layer ? `→ ${c.layer} ` : ""}from ${c.fromLayer ?? ""}(${c.from[0]}, ${c.from[1]})` : "",
+    formatCost(c.value) + (c !== step.chosen && c.value === step.cost ? "  tie" : ""),
+  ]);
+  const label = Math.max(...rows.map((r) => r[1].length));
+  const from = Math.max(...rows.map((r) => r[2].length));
+  for (const r of rows) lines.push(`  ${r[0]} ${r[1].padEnd(label)}  ${r[2].padEnd(from)}  ${r[3]}`.trimEnd());
+  return lines.join("\n");
+}
+
+function stepJson(step: CellExplain) {
+  const { i, j, aChar, bChar, cost, candidates, chosen } = step;
+  return { i, j, a: aChar ?? null, b: bChar ?? null, cost, chosen: candidates.indexOf(chosen), candidates };
+}
+
+function* steps(r: EditDistanceResult) {
+  for (let k = 0; k < r.stepCount; k++) yield r.stepAt(k);
+}
+
+/** Runs the command line and returns what it prints. `readFile` is only called with --files. */
+export function runCli(argv: readonly string[], readFile: (path: string) => string) {
+  const opts = parseArgs(argv);
+  if (opts.help) return USAGE;
+  // an editor's final newline isn't part of the text
+  const read = (path: string) => readFile(path).replace(/\r?\n$/, "");
+  const a = opts.files ? read(opts.a) : opts.a;
+  const b = opts.files ? read(opts.b) : opts.b;
+  const r = editDistance(a, b, {
+    algorithm: opts.algorithm,
+    tokenize: opts.tokenize,
+    costs: opts.costs,
+    scores: opts.scores,
+    maxDistance: opts.maxDistance,
+  });
+  const cells = (r.tokensA.length + 1) * (r.tokensB.length + 1);
+  const showTable = cells <= opts.maxCells;
+  const alignment = r.alignmentCount ? r.alignment() : null;
+
+  if (opts.json) {
+    const skipped = r.band ? r.skipped : null;
+    const json = {
+      algorithm: opts.algorithm,
+      tokensA: r.tokensA,
+      tokensB: r.tokensB,
+      // past k the distance is unknown; JSON has no Infinity
+      distance: r.distance === Infinity ? null : r.distance,
+      alignmentCount: r.alignmentCount,
+      alignment: alignment && { rows: alignment.rows, operations: alignment.operations, path: alignment.path },
+      table: showTable ? r.dp.map((row, i) => Array.from(row, (v, j) => (skipped?.(i, j) ? null : v))) : null,
+      ...(opts.steps && { steps: Array.from(steps(r), stepJson) }),
+    };
+    return JSON.stringify(json, null, 2) + "\n";
+  }
+
+  const out: string[] = [];
+  if (opts.steps) for (const step of steps(r)) out.push(formatStep(step, opts.algorithm), "");
+  const label = optimumLabelOf(opts.algorithm);
+  out.push(
+    r.distance === Infinity && r.band ? `${label}: > ${formatCost(r.band.k)}` : `${label}: ${formatCost(r.distance)}`,
+    ""
+  );
+  if (showTable) {
+    out.push(
+      formatTable(r.tokensA, r.tokensB, r.dp, "text", {
+        path: alignment?.path,
+        skipped: r.band ? r.skipped : undefined,
+      })
+    );
+  } else {
+    out.push(`(${cells.toLocaleString("en")} cells: table left out, see --max-cells)`, "");
+  }
+  if (!alignment) {
+    out.push("No alignment within k.");
+  } else {
+    out.push(...alignment.rows, "");
+    if (alignment.operations.length === 0) out.push("No edits needed.");
+    else alignment.operations.forEach((o, k) => out.push(`${k + 1}. ${describeOperation(o)}`));
+    // past Number.MAX_SAFE_INTEGER the count is capped, a lower bound
+    const count =
+      r.alignmentCount > Number.MAX_SAFE_INTEGER
+        ? `more than ${Number.MAX_SAFE_INTEGER.toLocaleString("en")}`
+        : r.alignmentCount.toLocaleString("en");
+    if (r.alignmentCount > 1) out.push("", `one of ${count} optimal alignments`);
+  }
+  return out.join("\n") + "\n";
+}
@@ -0,0 +1,78 @@
+import type { Op, PathCell } from "./editDistance";
+import { sliceText, textWidth } from "./tokenize";
+import type { Sequence } from "./tokenize";
+
+/** One column of the aligned view; `i, j` is the DP cell the column ends at. */
+export type AlignColumn = {
+  i: number;
+  j: number;
+  op: Op;
+  aText: string;
+  bText: string;
+  marker: string;
+};
+
+/** A non-match operation, positioned by token index into A. */
+export type EditOperation = {
+  op: Exclude<Op, "init" | "match">;
+  at: number;
+  from: string;
+  to: string;
+};
+
+export const ALIGN_MARKER: Record<Exclude<Op, "init">, string> = {
+  match: "|",
+  replace: "x",
+  insert: "+",
+  delete: "-",
+  transpose: "~",
+};
+
+/**
+ * Turns a backtrace path into aligned columns plus the ordered list of edits.
+ * `joiner` separates tokens when one column spans several (a transposition).
+ */
+export function buildEditScript(path: PathCell[], a: Sequence, b: Sequence, joiner = "") {
+  const columns: AlignColumn[] = [];
+  const operations: EditOperation[] = [];
+  for (let k = 1; k < path.length; k++) {
+    const prev = path[k - 1];
+    const { i, j, op } = path[k];
+    if (op === "init") continue;
+    const aText = op === "insert" ? "-" : sliceText(a, prev.i, i, joiner);
+    const bText = op === "delete" ? "-" : sliceText(b, prev.j, j, joiner);
+    columns.push({ i, j, op, aText, bText, marker: ALIGN_MARKER[op] });
+    if (op === "match") continue;
+    operations.push({
+      op,
+      at: prev.i,
+      from: op === "insert" ? "" : aText,
+      to: op === "delete" ? "" : bText,
+    });
+  }
+  return { columns, operations };
+}
+
+export function describeOperation(o: EditOperation) {
+  switch (o.op) {
+    case "replace":
+    case "transpose":
+      return `${o.op} '${o.from}'→'${o.to}' at ${o.at}`;
+    case "insert":
+      return `insert '${o.to}' at ${o.at}`;
+    case "delete":
+      return `delete '${o.from}' at ${o.at}`;
+  }
+}
+
+/** Three-row text view: A with gaps, markers, B with gaps; `separator` goes between columns. */
+export function alignmentRows(columns: AlignColumn[], separator = "") {
+  const rows: string[][] = [[], [], []];
+  for (const c of columns) {
+    const w = Math.max(textWidth(c.aText), textWidth(c.bText));
+    rows[0].push(c.op === "insert" ? "-".repeat(w) : c.aText + " ".repeat(w - textWidth(c.aText)));
+    rows[1].push(c.marker.repeat(w));
+    rows[2].push(c.op === "delete" ? "-".repeat(w) : c.bText + " ".repeat(w - textWidth(c.bText)));
+  }
+  return rows.map((r) => r.join(separator));
+}
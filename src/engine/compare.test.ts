@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { OP_DIFFERS, TIE_BREAKS, VALUE_DIFFERS, compareTables, countEdits, editDistance } from ".";
+
+describe("compareTables", () => {
+  it("finds nothing between identical runs", () => {
+    const r = editDistance("kitten", "sitting");
+    const c = compareTables(r, editDistance("kitten", "sitting", { fillOrder: "anti-diagonal" }));
+    expect([c.valueDiffs, c.opDiffs]).toEqual([0, 0]);
+    expect(c.onlyLeft).toEqual([]);
+    expect(c.onlyRight).toEqual([]);
+    expect(c.sharedPath).toBe(r.alignment().path.length);
+  });
+
+  it("flags cells a weighting change alters and the edits it trades", () => {
+    const left = editDistance("abc", "adc");
+    const right = editDistance("abc", "adc", { costs: { replace: 3 } });
+    const c = compareTables(left, right);
+    // replace now costs more than delete + insert
+    expect(c.cells[2 * 4 + 2] & VALUE_DIFFERS).toBeTruthy();
+    expect(c.cells[0]).toBe(0);
+    expect(c.onlyLeft).toEqual([{ op: "replace", at: 1, from: "b", to: "d" }]);
+    expect(c.onlyRight.map((o) => o.op).sort()).toEqual(["delete", "insert"]);
+    expect(countEdits(right.alignment().operations)).toEqual({ delete: 1, insert: 1 });
+  });
+
+  it("flags ties broken differently without a change in value", () => {
+    // diagonal first against insert first: (2, 2) of "ab" / "ba" ties all three
+    const left = editDistance("ab", "ba", { tieBreak: TIE_BREAKS[0] });
+    const right = editDistance("ab", "ba", { tieBreak: TIE_BREAKS[5] });
+    const c = compareTables(left, right);
+    expect(c.valueDiffs).toBe(0);
+    expect(c.opDiffs).toBeGreaterThan(0);
+    expect(c.cells[2 * 3 + 2]).toBe(OP_DIFFERS);
+  });
+
+  it("skips cells a banded run never computed", () => {
+    const banded = editDistance("abcd", "abcd", { maxDistance: 0 });
+    const c = compareTables(banded, editDistance("abcd", "abcd"));
+    expect(c.valueDiffs).toBe(0);
+  });
+
+  it("refuses tables of different sizes", () => {
+    expect(() => compareTables(editDistance("ab", "c"), editDistance("a", "c"))).toThrow(RangeError);
+  });
+});
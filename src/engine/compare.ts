@@ -0,0 +1,99 @@
+import type { EditOperation } from "./alignment";
+import type { Op } from "./editDistance";
+import type { EditDistanceResult } from "./index";
+
+/**
+ * Two runs over the same tokens, side by side: which cells came out with a
+ * different value or a different chosen operation, and how the two picked
+ * alignments differ edit by edit. Cells either run skipped (a banded fill)
+ * are left out, since there is nothing to compare them with.
+ */
+
+/** Per-cell flags in `TableComparison.cells`. */
+export const VALUE_DIFFERS = 1;
+export const OP_DIFFERS = 2;
+
+export type TableComparison = {
+  /** VALUE_DIFFERS | OP_DIFFERS per cell, at i * (n + 1) + j */
+  cells: Uint8Array;
+  valueDiffs: number;
+  opDiffs: number;
+  /** edits of the left alignment the right one doesn't make, and the other way round */
+  onlyLeft: EditOperation[];
+  onlyRight: EditOperation[];
+  /** cells the two alignment paths share */
+  sharedPath: number;
+};
+
+// the operation the tie-break picks into (i, j); parentsOf lists the tied moves in that order
+function chosenOp(r: EditDistanceResult, i: number, j: number): Op {
+  return r.parentsOf(i, j)[0]?.op ?? "init";
+}
+
+// the edits in `ops` that `other` lacks, counting repeats
+function missingFrom(ops: EditOperation[], other: EditOperation[]) {
+  const key = (o: EditOperation) => `${o.op}\u0000${o.at}\u0000${o.from}\u0000${o.to}`;
+  const unmatched = new Map<string, number>();
+  for (const o of other) unmatched.set(key(o), (unmatched.get(key(o)) ?? 0) + 1);
+  return ops.filter((o) => {
+    const k = unmatched.get(key(o)) ?? 0;
+    unmatched.set(key(o), k - 1);
+    return k <= 0;
+  });
+}
+
+/**
+ * Compares `left` and `right`, which must be over the same tokens. The
+ * alignments compared are `left.alignment(indices[0])` and
+ * `right.alignment(indices[1])`, when both runs have one.
+ */
+export function compareTables(
+  left: EditDistanceResult,
+  right: EditDistanceResult,
+  indices: [number, number] = [0, 0]
+): TableComparison {
+  const m = left.tokensA.length;
+  const n = left.tokensB.length;
+  if (right.tokensA.length !== m || right.tokensB.length !== n) {
+    throw new RangeError(
+      `can't compare a ${m} × ${n} table with a ${right.tokensA.length} × ${right.tokensB.length} one`
+    );
+  }
+  const w = n + 1;
+  const cells = new Uint8Array((m + 1) * w);
+  let valueDiffs = 0;
+  let opDiffs = 0;
+  for (let i = 0; i <= m; i++) {
+    for (let j = 0; j <= n; j++) {
+      if (left.skipped(i, j) || right.skipped(i, j)) continue;
+      let flags = 0;
+      if (left.dp[i][j] !== right.dp[i][j]) flags |= VALUE_DIFFERS;
+      if (chosenOp(left, i, j) !== chosenOp(right, i, j)) flags |= OP_DIFFERS;
+      cells[i * w + j] = flags;
+      if (flags & VALUE_DIFFERS) valueDiffs++;
+      if (flags & OP_DIFFERS) opDiffs++;
+    }
+  }
+
+  if (!left.alignmentCount || !right.alignmentCount) {
+    return { cells, valueDiffs, opDiffs, onlyLeft: [], onlyRight: [], sharedPath: 0 };
+  }
+  const l = left.alignment(indices[0]);
+  const r = right.alignment(indices[1]);
+  const onPath = new Set(l.path.map((c) => c.i * w + c.j));
+  return {
+    cells,
+    valueDiffs,
+    opDiffs,
+    onlyLeft: missingFrom(l.operations, r.operations),
+    onlyRight: missingFrom(r.operations, l.operations),
+    sharedPath: r.path.filter((c) => onPath.has(c.i * w + c.j)).length,
+  };
+}
+
+/** The alignment's edits per operation, e.g. { replace: 2, insert: 1 }. */
+export function countEdits(operations: EditOperation[]) {
+  const counts: Partial<Record<EditOperation["op"], number>> = {};
+  for (const o of operations) counts[o.op] = (counts[o.op] ?? 0) + 1;
+  return counts;
+}
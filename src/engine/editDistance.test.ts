@@ -0,0 +1,427 @@
+import { describe, expect, it } from "vitest";
+import { ALIGNMENT_COUNT_CAP, TIE_BREAKS, assertFillOrder, editDistance, parseSubstitutions } from ".";
+import type { Alignment } from ".";
+import { randomString } from "./testUtils";
+
+// plain two-row Levenshtein, the reference the engine is checked against
+function reference(a: string, b: string) {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+describe("editDistance", () => {
+  it.each([
+    ["kitten", "sitting", 3],
+    ["intention", "execution", 5],
+    ["sunday", "saturday", 3],
+    ["flaw", "lawn", 2],
+  ])("%s → %s = %i", (a, b, d) => {
+    expect(editDistance(a, b).distance).toBe(d);
+  });
+
+  it("handles two empty strings", () => {
+    const r = editDistance("", "");
+    expect(r.distance).toBe(0);
+    expect(r.steps).toHaveLength(1);
+    expect(r.steps[0].chosen.op).toBe("init");
+    expect(r.alignmentCount).toBe(1);
+    expect(r.alignment().columns).toEqual([]);
+  });
+
+  it("handles one empty side as pure inserts or deletes", () => {
+    const ins = editDistance("", "abc");
+    expect(ins.distance).toBe(3);
+    expect(ins.alignment().operations.map((o) => o.op)).toEqual(["insert", "insert", "insert"]);
+
+    const del = editDistance("abc", "");
+    expect(del.distance).toBe(3);
+    expect(del.alignment().rows).toEqual(["abc", "---", "---"]);
+  });
+
+  it("aligns identical strings with matches only", () => {
+    const r = editDistance("levenshtein", "levenshtein");
+    expect(r.distance).toBe(0);
+    expect(r.alignmentCount).toBe(1);
+    expect(r.alignment().operations).toEqual([]);
+    expect(r.alignment().rows[1]).toBe("|".repeat(11));
+  });
+
+  it("compares non-ASCII characters", () => {
+    expect(editDistance("café", "cafe").distance).toBe(1);
+    expect(editDistance("naïve", "naive").distance).toBe(1);
+    expect(editDistance("東京", "京都").distance).toBe(2);
+    expect(editDistance("привет", "привед").alignment().operations).toEqual([
+      { op: "replace", at: 5, from: "т", to: "д" },
+    ]);
+  });
+
+  it("matches the reference on long inputs", () => {
+    const a = randomString(300, "acgt", 7);
+    const b = randomString(280, "acgt", 11);
+    const r = editDistance(a, b);
+    expect(r.distance).toBe(reference(a, b));
+    expect(r.steps).toHaveLength(301 * 281);
+    expect(r.alignment().operations).toHaveLength(r.distance);
+  });
+
+  it("describes every cell's candidates", () => {
+    const r = editDistance("ab", "ac");
+    const last = r.steps[r.steps.length - 1];
+    expect(last).toMatchObject({ i: 2, j: 2, aChar: "b", bChar: "c", cost: 1 });
+    expect(last.candidates.map((c) => [c.op, c.from, c.value])).toEqual([
+      ["delete", [1, 2], 2],
+      ["insert", [2, 1], 2],
+      ["replace", [1, 1], 1],
+    ]);
+    expect(last.chosen.op).toBe("replace");
+  });
+});
+
+describe("costs", () => {
+  it("uses per-operation weights", () => {
+    const r = editDistance("kitten", "sitting", { costs: { replace: 3 } });
+    // two replaces at 3 are worse than a delete + insert each
+    expect(r.distance).toBe(5);
+    expect(r.alignment().operations.some((o) => o.op === "replace")).toBe(false);
+  });
+
+  it("applies substitution overrides symmetrically", () => {
+    const { substitutions, errors } = parseSubstitutions("o 0 0.2\nbad line\n\nl 1 0.3");
+    expect(errors).toEqual([2]);
+    expect(editDistance("b00k", "book", { costs: { substitutions } }).distance).toBe(0.4);
+    expect(editDistance("hello", "he1l0", { costs: { substitutions } }).distance).toBe(0.5);
+  });
+
+  it("rejects negative or non-finite weights", () => {
+    expect(() => editDistance("a", "b", { costs: { insert: -1 } })).toThrow(RangeError);
+    expect(() => editDistance("a", "b", { costs: { replace: NaN } })).toThrow(RangeError);
+    expect(() => editDistance("a", "b", { costs: { gapOpen: Infinity }, algorithm: "gotoh" })).toThrow(RangeError);
+    expect(() => editDistance("a", "b", { costs: { substitutions: { a: { b: -0.5 } } } })).toThrow(RangeError);
+    expect(parseSubstitutions("a b -1\na b Infinity").errors).toEqual([1, 2]);
+  });
+
+  it("keeps fractional sums exact so ties are detected", () => {
+    const r = editDistance("abc", "", { costs: { delete: 0.1 } });
+    expect(r.dp[3][0]).toBe(0.3);
+  });
+});
+
+describe("transpositions", () => {
+  it("counts an adjacent swap once under OSA and Damerau–Levenshtein", () => {
+    expect(editDistance("ab", "ba").distance).toBe(2);
+    expect(editDistance("ab", "ba", { algorithm: "osa" }).distance).toBe(1);
+    expect(editDistance("ab", "ba", { algorithm: "damerau" }).alignment().operations).toEqual([
+      { op: "transpose", at: 0, from: "ab", to: "ba" },
+    ]);
+  });
+
+  it("only lets Damerau–Levenshtein edit a transposed pair again", () => {
+    expect(editDistance("ca", "abc", { algorithm: "osa" }).distance).toBe(3);
+    expect(editDistance("ca", "abc", { algorithm: "damerau" }).distance).toBe(2);
+  });
+});
+
+// an alignment's cost under affine gaps, read off its columns
+function affineCost(al: Alignment, open: number) {
+  let cost = 0;
+  al.columns.forEach((c, k) => {
+    if (c.op === "replace") cost += 1;
+    if ((c.op === "insert" || c.op === "delete") && al.columns[k - 1]?.op !== c.op) cost += open + 1;
+    else if (c.op === "insert" || c.op === "delete") cost += 1;
+  });
+  return cost;
+}
+
+describe("affine gaps", () => {
+  it("prefers one long gap to scattered ones", () => {
+    const r = editDistance("AAAGGGTTT", "AAATTT", { algorithm: "gotoh" });
+    expect(r.distance).toBe(5);
+    expect(r.alignment().rows).toEqual(["AAAGGGTTT", "|||---|||", "AAA---TTT"]);
+    expect(editDistance("AAAGGGTTT", "AAATTT").distance).toBe(3);
+  });
+
+  it("reduces to Levenshtein when opening a gap is free", () => {
+    const a = randomString(40, "acgt", 17);
+    const b = randomString(36, "acgt", 19);
+    expect(editDistance(a, b, { algorithm: "gotoh", costs: { gapOpen: 0 } }).distance).toBe(reference(a, b));
+  });
+
+  it.each(TIE_BREAKS.map((t) => [t.join(" > "), t] as const))(
+    "traces every alignment across the three matrices at the optimal cost (%s)",
+    (_, tieBreak) => {
+      const r = editDistance("GATTACAGG", "GCATGCAG", { algorithm: "gotoh", costs: { gapOpen: 1.5 }, tieBreak });
+      const seen = new Set<string>();
+      for (let k = 0; k < r.alignmentCount; k++) {
+        const al = r.alignment(k);
+        expect(affineCost(al, 1.5)).toBeCloseTo(r.distance);
+        seen.add(al.rows.join("\n"));
+      }
+      expect(seen.size).toBe(r.alignmentCount);
+    }
+  );
+
+  it("explains moves between matrices", () => {
+    const r = editDistance("ab", "b", { algorithm: "gotoh" });
+    expect(r.layers?.X[1][0]).toBe(3);
+    expect(r.layers?.M[1][0]).toBe(Infinity);
+    const last = r.stepAt(r.stepCount - 1);
+    expect(last.candidates.map((c) => `${c.fromLayer}→${c.layer} ${c.value}`)).toEqual([
+      "X→M 3",
+      "M→X 4",
+      "X→X 7",
+      "Y→X 9",
+      "X→Y 7",
+    ]);
+    expect(r.parentsOf(2, 1)).toEqual([{ i: 1, j: 0, op: "match", layer: "X" }]);
+    expect(() => assertFillOrder(r.steps)).not.toThrow();
+  });
+});
+
+describe("similarity algorithms", () => {
+  it("finds the longest common subsequence without pairing different tokens", () => {
+    const r = editDistance("ABCBDAB", "BDCABA", { algorithm: "lcs" });
+    expect(r.distance).toBe(4);
+    for (let k = 0; k < r.alignmentCount; k++) {
+      const cols = r.alignment(k).columns;
+      expect(cols.filter((c) => c.op === "match")).toHaveLength(4);
+      expect(cols.some((c) => c.op === "replace")).toBe(false);
+    }
+  });
+
+  it("scores a Needleman–Wunsch global alignment", () => {
+    const r = editDistance("GATTACA", "GCATGCU", { algorithm: "needleman-wunsch", scores: { gap: -1 } });
+    expect(r.distance).toBe(0);
+    expect(r.end).toEqual([7, 7]);
+    expect(r.dp[7][0]).toBe(-7);
+    expect(r.stepAt(r.stepCount - 1).candidates.map((c) => c.op)).toEqual(["delete", "insert", "replace"]);
+  });
+
+  it("traces a Smith–Waterman local alignment back from the best cell", () => {
+    const r = editDistance("TGTTACGG", "GGTTGACTA", {
+      algorithm: "smith-waterman",
+      scores: { match: 3, mismatch: -3, gap: -2 },
+    });
+    expect(r.distance).toBe(13);
+    expect(r.end).toEqual([6, 7]);
+    expect(r.alignment().rows).toEqual(["GTT-AC", "|||+||", "GTTGAC"]);
+    expect(r.alignment().path[0]).toMatchObject({ i: 1, j: 1, op: "init" });
+    expect(r.dp.every((row) => row.every((v) => v >= 0))).toBe(true);
+  });
+
+  it("restarts at the zero floor", () => {
+    const r = editDistance("xyz", "abc", { algorithm: "smith-waterman" });
+    expect(r.distance).toBe(0);
+    expect(r.end).toEqual([0, 0]);
+    expect(r.alignment().columns).toEqual([]);
+    expect(r.stepAt(r.stepCount - 1).chosen).toMatchObject({ op: "init", from: null });
+    expect(r.parentsOf(3, 3)).toEqual([]);
+    expect(() => assertFillOrder(r.steps)).not.toThrow();
+  });
+
+  it("rejects a distance threshold", () => {
+    expect(() => editDistance("a", "b", { algorithm: "lcs", maxDistance: 1 })).toThrow(RangeError);
+  });
+});
+
+describe("alignments", () => {
+  it("enumerates every optimal alignment exactly once", () => {
+    const r = editDistance("intention", "execution");
+    const seen = new Set<string>();
+    for (let k = 0; k < r.alignmentCount; k++) {
+      const al = r.alignment(k);
+      expect(al.operations).toHaveLength(r.distance);
+      seen.add(al.rows.join("\n"));
+    }
+    expect(seen.size).toBe(r.alignmentCount);
+    expect(() => r.alignment(r.alignmentCount)).toThrow(RangeError);
+  });
+
+  it("starts with the path the tie-break picks", () => {
+    const diagonalFirst = editDistance("ab", "ba").alignment();
+    expect(diagonalFirst.operations.map((o) => o.op)).toEqual(["replace", "replace"]);
+    const deleteFirst = editDistance("ab", "ba", { tieBreak: ["delete", "insert", "diagonal", "transpose"] });
+    // walking back, delete is tried first at (2, 2): insert b, match a, delete b
+    expect(deleteFirst.alignment().rows).toEqual(["-ab", "+|-", "ba-"]);
+  });
+
+  it("counts exactly up to the cap and stops there", () => {
+    // C(50, 25) ways to pick the deleted a's
+    expect(editDistance("a".repeat(50), "a".repeat(25)).alignmentCount).toBe(126410606437752);
+    const r = editDistance("a".repeat(1200), "a".repeat(600));
+    expect(r.alignmentCount).toBe(ALIGNMENT_COUNT_CAP);
+    expect(r.alignment(Number.MAX_SAFE_INTEGER).operations).toHaveLength(600);
+    expect(() => r.alignment(ALIGNMENT_COUNT_CAP)).toThrow(RangeError);
+  });
+});
+
+describe("fill orders", () => {
+  it.each(["row-major", "column-major", "anti-diagonal"] as const)("%s reads only computed cells", (fillOrder) => {
+    const r = editDistance("abcab", "bacb", { fillOrder, algorithm: "damerau" });
+    expect(r.steps).toHaveLength(6 * 5);
+    expect(() => assertFillOrder(r.steps)).not.toThrow();
+  });
+
+  it.each(["row-major", "column-major", "anti-diagonal"] as const)("%s indexes cells both ways", (fillOrder) => {
+    const r = editDistance("kitten", "sitting", { fillOrder });
+    for (let k = 0; k < r.stepCount; k++) {
+      const [i, j] = r.cellAt(k);
+      expect(r.stepIndexOf(i, j)).toBe(k);
+      expect(r.stepAt(k)).toEqual(r.steps[k]);
+    }
+  });
+});
+
+describe("large inputs", () => {
+  it("fills a 1500 × 1500 table without materializing steps", () => {
+    const a = randomString(1500, "acgt", 3);
+    const b = randomString(1500, "acgt", 5);
+    const r = editDistance(a, b);
+    expect(r.distance).toBe(reference(a, b));
+    // two unrelated DNA strings differ in about half their positions, so most of the table is real work
+    expect(r.distance).toBeGreaterThan(600);
+    expect(r.distance).toBeLessThan(900);
+    expect(r.stepCount).toBe(1501 * 1501);
+    expect(r.alignment().operations).toHaveLength(r.distance);
+    expect(r.stepAt(r.stepCount - 1).cost).toBe(r.distance);
+  });
+
+  it("recomputes Damerau–Levenshtein transpositions on demand", () => {
+    const r = editDistance("abcdefab", "badcfeba", { algorithm: "damerau" });
+    // four adjacent swaps
+    expect(r.distance).toBe(4);
+    expect(r.stepAt(r.stepCount - 1).chosen.op).toBe("transpose");
+    expect(r.parents[8][8]).toEqual(r.parentsOf(8, 8));
+  });
+});
+
+describe("banded threshold", () => {
+  it("agrees with the full fill within k while computing far fewer cells", () => {
+    const a = randomString(200, "acgt", 13);
+    const b = a.slice(0, 80) + "tt" + a.slice(83, 150) + a.slice(151);
+    const full = editDistance(a, b);
+    const r = editDistance(a, b, { maxDistance: 5 });
+    expect(r.distance).toBe(full.distance);
+    expect(r.band).toMatchObject({ k: 5, width: 5, lastRow: a.length });
+    expect(r.stepCount).toBeLessThan(full.stepCount / 10);
+    expect(r.alignment().operations).toEqual(full.alignment().operations);
+  });
+
+  it.each(["levenshtein", "osa", "damerau"] as const)(
+    "matches the full fill for every k around the distance (%s)",
+    (algorithm) => {
+      const a = randomString(120, "acgt", 13);
+      // a replace, a delete and an insert, then two adjacent swaps last, where k is tightest
+      const swap = (s: string, k: number) => s.slice(0, k) + s[k + 1] + s[k] + s.slice(k + 2);
+      let b = a.slice(0, 10) + (a[10] === "a" ? "c" : "a") + a.slice(11);
+      b = b.slice(0, 30) + b.slice(31);
+      b = b.slice(0, 50) + "g" + b.slice(50);
+      b = swap(b, b[80] === b[81] ? 82 : 80);
+      b = swap(b, b[105] === b[106] ? 107 : 105);
+      // the last set makes the rows between a swap's letters cost more than the swap, so the band must jump them
+      const costSets = [
+        {},
+        { insert: 0.5, delete: 0.5, transpose: 0.5 },
+        { insert: 3, delete: 3, replace: 3, transpose: 1 },
+      ];
+      for (const costs of costSets) {
+        const full = editDistance(a, b, { algorithm, costs });
+        expect(full.distance).toBeGreaterThan(2);
+        for (let k = 0; k <= full.distance + 2; k += 0.5) {
+          const r = editDistance(a, b, { algorithm, costs, maxDistance: k });
+          if (full.distance > k) {
+            expect(r.distance).toBe(Infinity);
+            continue;
+          }
+          expect(r.distance).toBe(full.distance);
+          expect(r.stepCount).toBeLessThan(full.stepCount);
+          expect(r.alignment().operations).toEqual(full.alignment().operations);
+        }
+      }
+    }
+  );
+
+  it("stops after the first row whose band exceeds k", () => {
+    const r = editDistance("abcdefgh", "stuvwxyz", { maxDistance: 2 });
+    expect(r.distance).toBe(Infinity);
+    expect(r.band).toMatchObject({ lastRow: 3, rowMin: 3 });
+    expect(r.alignmentCount).toBe(0);
+    expect(r.skipped(4, 4)).toBe("cutoff");
+    expect(r.skipped(1, 5)).toBe("band");
+    expect(r.skipped(3, 2)).toBe(null);
+    expect(r.stepIndexOf(4, 4)).toBe(-1);
+    expect(r.cellAt(r.stepCount - 1)).toEqual([3, 5]);
+  });
+
+  it("keeps filling past a row a transposition can jump", () => {
+    const osa = editDistance("ab", "ba", { algorithm: "osa", costs: { transpose: 0.5 }, maxDistance: 0.5 });
+    expect(osa.distance).toBe(0.5);
+    const heavy = { insert: 5, delete: 5, replace: 5, transpose: 1 };
+    expect(editDistance("ab", "ba", { algorithm: "osa", costs: heavy, maxDistance: 1 }).distance).toBe(1);
+    const damerau = editDistance("xaby", "xbay", { algorithm: "damerau", costs: { transpose: 0.5 }, maxDistance: 0.5 });
+    expect(damerau.distance).toBe(0.5);
+    // two rows over k: nothing OSA can do jumps both
+    const stopped = editDistance("abcdefgh", "stuvwxyz", { algorithm: "osa", maxDistance: 2 });
+    expect(stopped.band).toMatchObject({ lastRow: 4, overFrom: 3 });
+  });
+
+  it("gives up at once when the lengths differ by more than the band", () => {
+    const r = editDistance("abc", "abcdefg", { maxDistance: 3 });
+    expect(r.distance).toBe(Infinity);
+    expect(r.band?.lastRow).toBe(0);
+    expect(r.stepCount).toBe(4);
+  });
+
+  it("reports a distance over k as Infinity even when the corner was filled", () => {
+    expect(editDistance("kitten", "sitting", { maxDistance: 2 }).distance).toBe(Infinity);
+    expect(editDistance("kitten", "sitting", { maxDistance: 3 }).distance).toBe(3);
+  });
+
+  it("widens the band when gaps are cheap and keeps transpositions", () => {
+    const r = editDistance("abcdef", "badcfe", { maxDistance: 3, costs: { insert: 0.5, delete: 0.5 } });
+    expect(r.band?.width).toBe(6);
+    expect(r.distance).toBe(editDistance("abcdef", "badcfe", { costs: { insert: 0.5, delete: 0.5 } }).distance);
+    expect(editDistance("abcdefab", "badcfeba", { algorithm: "damerau", maxDistance: 4 }).distance).toBe(4);
+    expect(() => editDistance("a", "b", { maxDistance: -1 })).toThrow(RangeError);
+  });
+});
+
+describe("substring search", () => {
+  it("reports every end position within k, each traced back to its start", () => {
+    const r = editDistance("the quick brwn fox", "brown", { substring: true, maxDistance: 1 });
+    expect(r.hits).toEqual([{ start: 10, end: 14, distance: 1 }]);
+    expect(r.distance).toBe(1);
+    expect(r.end).toEqual([14, 5]);
+    const path = r.alignment().path;
+    expect(path[0]).toEqual({ i: 10, j: 0, op: "init" });
+    expect(r.alignment().rows).toEqual(["br-wn", "||+||", "brown"]);
+  });
+
+  it("lets a match start at any row for free", () => {
+    const r = editDistance("xxab", "ab", { substring: true });
+    expect(Array.from(r.dp, (row) => row[0])).toEqual([0, 0, 0, 0, 0]);
+    expect(r.parentsOf(3, 0)).toEqual([]);
+    expect(r.stepAt(r.stepIndexOf(3, 0)).chosen.op).toBe("init");
+  });
+
+  it("keeps every occurrence tied for the best without a threshold", () => {
+    const r = editDistance("abcabc", "bc", { substring: true });
+    expect(r.hits).toEqual([
+      { start: 1, end: 3, distance: 0 },
+      { start: 4, end: 6, distance: 0 },
+    ]);
+    expect(r.alignment(0, [6, 2]).path.map((c) => c.i)).toEqual([4, 5, 6]);
+  });
+
+  it("needs an edit distance", () => {
+    expect(() => editDistance("a", "b", { substring: true, algorithm: "lcs" })).toThrow(RangeError);
+    expect(() => editDistance("a", "b", { substring: true, algorithm: "gotoh" })).toThrow(RangeError);
+    expect(editDistance("xabcx", "acb", { substring: true, algorithm: "osa" }).distance).toBe(1);
+  });
+});
@@ -0,0 +1,743 @@
+import type { Sequence } from "./tokenize";
+
+/**
+ * Headless edit-distance engine: fills the DP table and explains, for any
+ * cell, the candidates it considered and every co-optimal predecessor. No
+ * React or DOM dependencies, so the visualizer and grading scripts share it.
+ */
+
+export type Op = "init" | "match" | "replace" | "insert" | "delete" | "transpose";
+
+/**
+ * Edit distances (minimized):
+ * - levenshtein: insert / delete / replace
+ * - osa: adds swapping two adjacent characters, each substring edited at most once
+ * - damerau: unrestricted transpositions (Lowrance–Wagner), needs a last-seen-row table
+ * - gotoh: Levenshtein with affine gaps, a run of inserts or deletes paying `gapOpen` once;
+ *   needs three coupled matrices (see `Layer`)
+ *
+ * Similarity scores (maximized), where insert / delete are gaps and replace is a mismatch:
+ * - lcs: longest common subsequence, one point per match
+ * - needleman-wunsch: global alignment under match / mismatch / gap scores
+ * - smith-waterman: local alignment, Needleman–Wunsch floored at 0 and traced back from the best cell
+ */
+export type Algorithm = "levenshtein" | "osa" | "damerau" | "gotoh" | "lcs" | "needleman-wunsch" | "smith-waterman";
+
+export function maximizes(algorithm: Algorithm) {
+  return algorithm === "lcs" || algorithm === "needleman-wunsch" || algorithm === "smith-waterman";
+}
+
+/**
+ * Gotoh's three matrices, by how the alignment so far ends: M in a match or
+ * replace, X in a delete (gap in B), Y in an insert (gap in A).
+ */
+export type Layer = "M" | "X" | "Y";
+
+export const LAYERS: Layer[] = ["M", "X", "Y"];
+
+/** The matrix a move ends in. */
+export function opLayer(op: Op): Layer {
+  return op === "delete" ? "X" : op === "insert" ? "Y" : "M";
+}
+
+export type Candidate = {
+  op: Op;
+  from: [number, number] | null;
+  /** cost of the operation itself, added to dp[from] (to the `fromLayer` matrix for Gotoh) */
+  weight: number;
+  value: number;
+  /** gotoh: the matrix this candidate fills and the one it moves out of */
+  layer?: Layer;
+  fromLayer?: Layer;
+};
+
+export type FillOrder = "row-major" | "column-major" | "anti-diagonal";
+
+/** A move the backtrace can take: diagonal covers both match and replace. */
+export type Move = "diagonal" | "transpose" | "delete" | "insert";
+
+/** Preference order among tied candidates, most preferred first. */
+export type TieBreak = Move[];
+
+export const TIE_BREAKS: TieBreak[] = [
+  ["diagonal", "transpose", "delete", "insert"],
+  ["diagonal", "transpose", "insert", "delete"],
+  ["delete", "diagonal", "transpose", "insert"],
+  ["delete", "insert", "diagonal", "transpose"],
+  ["insert", "diagonal", "transpose", "delete"],
+  ["insert", "delete", "diagonal", "transpose"],
+];
+
+export const DEFAULT_TIE_BREAK = TIE_BREAKS[0];
+
+/** `layer`: the predecessor's matrix, for Gotoh. */
+export type Pred = { i: number; j: number; op: Op; layer?: Layer };
+
+export type PathCell = { i: number; j: number; op: Op };
+
+export type CellExplain = {
+  i: number;
+  j: number;
+  /** the row / column token (a character unless the input was tokenized otherwise) */
+  aChar?: string;
+  bChar?: string;
+  cost: number;
+  candidates: Candidate[];
+  chosen: Candidate;
+};
+
+/**
+ * Operation weights. A match always costs 0; `substitutions` overrides the
+ * replace cost for specific character pairs (e.g. OCR confusions like o/0).
+ * `gapOpen` is paid once per run of inserts or deletes, by Gotoh only.
+ */
+export type EditCosts = {
+  insert: number;
+  delete: number;
+  replace: number;
+  transpose: number;
+  gapOpen: number;
+  substitutions: Record<string, Record<string, number>>;
+};
+
+export const DEFAULT_COSTS: EditCosts = {
+  insert: 1,
+  delete: 1,
+  replace: 1,
+  transpose: 1,
+  gapOpen: 2,
+  substitutions: {},
+};
+
+/** Scores for Needleman–Wunsch and Smith–Waterman; a gap is an insert or a delete. */
+export type Scores = {
+  match: number;
+  mismatch: number;
+  gap: number;
+};
+
+export const DEFAULT_SCORES: Scores = { match: 1, mismatch: -1, gap: -2 };
+
+// LCS as a score: gaps are free and two different tokens are never paired
+const LCS_SCORES: Scores = { match: 1, mismatch: -Infinity, gap: 0 };
+
+// fractional weights accumulate float noise (0.1 + 0.2); round so ties stay exact
+export function roundCost(x: number) {
+  return Math.round(x * 1e9) / 1e9;
+}
+
+export function formatCost(x: number) {
+  if (x === Infinity) return "∞";
+  return String(Math.round(x * 1e6) / 1e6);
+}
+
+/** Throws a RangeError unless every weight is a finite non-negative number. */
+export function checkCosts(costs: EditCosts) {
+  for (const key of ["insert", "delete", "replace", "transpose", "gapOpen"] as const) {
+    const w = costs[key];
+    if (!(w >= 0 && w < Infinity)) throw new RangeError(`costs.${key} must be a non-negative number, got ${w}`);
+  }
+  for (const [x, row] of Object.entries(costs.substitutions)) {
+    for (const [y, w] of Object.entries(row)) {
+      if (!(w >= 0 && w < Infinity)) {
+        throw new RangeError(`substitution ${x} → ${y} must cost a non-negative number, got ${w}`);
+      }
+    }
+  }
+}
+
+export function substitutionCost(costs: EditCosts, x: string, y: string) {
+  if (x === y) return 0;
+  return costs.substitutions[x]?.[y] ?? costs.replace;
+}
+
+/**
+ * Parses one substitution override per line: `<token> <token> <cost>`
+ * (a character, or a whole word in word mode). Pairs are symmetric, so
+ * "o 0 0.2" also sets 0 → o.
+ */
+export function parseSubstitutions(text: string) {
+  const substitutions: EditCosts["substitutions"] = {};
+  const errors: number[] = [];
+  text.split("\n").forEach((line, idx) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+    const parts = trimmed.split(/\s+/);
+    const w = Number(parts[2]);
+    if (parts.length !== 3 || !(w >= 0 && w < Infinity)) {
+      errors.push(idx + 1);
+      return;
+    }
+    const [x, y] = parts;
+    (substitutions[x] ??= {})[y] = w;
+    (substitutions[y] ??= {})[x] = w;
+  });
+  return { substitutions, errors };
+}
+
+export function moveOf(op: Op): Move | null {
+  switch (op) {
+    case "match":
+    case "replace":
+      return "diagonal";
+    case "init":
+      return null;
+    default:
+      return op;
+  }
+}
+
+/**
+ * The filled DP table. Only the values are stored: a cell's candidates, its
+ * chosen op and its co-optimal parents are recomputed from its neighbours on
+ * demand (`explainCell`, `parentsOf`), which keeps a 2,000 × 2,000 table at
+ * one Float64Array per row instead of millions of step objects.
+ */
+export type DPTable = {
+  a: Sequence;
+  b: Sequence;
+  m: number;
+  n: number;
+  costs: EditCosts;
+  algorithm: Algorithm;
+  /** used by Needleman–Wunsch and Smith–Waterman */
+  scores: Scores;
+  /** unfilled cells of a banded table hold Infinity; for Gotoh, the minimum over the three matrices */
+  dp: Float64Array[];
+  band?: Band;
+  /** Sellers: the first column is all 0, so a match of B may start at any row of A */
+  substring?: boolean;
+  /** gotoh: each matrix, Infinity where it can't be entered */
+  layers?: Record<Layer, Float64Array[]>;
+};
+
+/**
+ * Ukkonen's threshold: only the cells with |i − j| ≤ `width` are filled, row
+ * by row, and the fill stops after the first row whose band cells all exceed
+ * `k`, since every path to (m, n) crosses that row. A transposition can jump
+ * rows (OSA one, Damerau as many as its deletes allow within k), so with one
+ * the fill only stops once every row it could jump exceeds k as well.
+ */
+export type Band = {
+  k: number;
+  width: number;
+  /** the last row filled: m, unless the run stopped early */
+  lastRow: number;
+  /** the smallest value in `lastRow`'s band */
+  rowMin: number;
+  /** the first of the rows above k that ended the run: `lastRow` unless a transposition could jump it */
+  overFrom: number;
+};
+
+/**
+ * Half-width of the band a threshold of k allows: every step off the diagonal
+ * is an insert or a delete, so a path that strays further than k over the
+ * cheaper of the two already costs more than k.
+ */
+export function bandWidth(costs: EditCosts, k: number) {
+  const step = Math.min(costs.insert, costs.delete);
+  return step > 0 ? Math.floor(roundCost(k / step)) : Infinity;
+}
+
+/**
+ * How many rows in a row a transposition can jump: none for Levenshtein, one
+ * for OSA, and for Damerau one more than the deletes k pays for, since the
+ * rows it jumps are charged as deletes but the last.
+ */
+function jumpableRows(algorithm: Algorithm, costs: EditCosts, k: number) {
+  if (algorithm === "osa") return 1;
+  if (algorithm !== "damerau") return 0;
+  return costs.delete > 0 ? Math.floor(roundCost(k / costs.delete)) + 1 : Infinity;
+}
+
+/** Why a banded fill never computed (i, j), or null if it did. */
+export function skipReason(t: DPTable, i: number, j: number): "band" | "cutoff" | null {
+  if (!t.band) return null;
+  if (Math.abs(i - j) > t.band.width) return "band";
+  return i > t.band.lastRow ? "cutoff" : null;
+}
+
+export function fillTable(
+  a: Sequence,
+  b: Sequence,
+  costs: EditCosts = DEFAULT_COSTS,
+  algorithm: Algorithm = "levenshtein",
+  maxDistance?: number,
+  scores: Scores = DEFAULT_SCORES,
+  substring = false
+): DPTable {
+  checkCosts(costs);
+  if (maximizes(algorithm)) return fillScoreTable(a, b, costs, algorithm, scores);
+  if (algorithm === "gotoh") return fillAffineTable(a, b, costs);
+  const m = a.length;
+  const n = b.length;
+  const width = maxDistance === undefined ? Infinity : bandWidth(costs, maxDistance);
+  const dp = Array.from({ length: m + 1 }, () => new Float64Array(n + 1));
+  if (maxDistance !== undefined) for (const row of dp) row.fill(Infinity);
+
+  // init first row; the first column is filled as each row starts
+  dp[0][0] = 0;
+  for (let j = 1; j <= Math.min(n, width); j++) dp[0][j] = roundCost(dp[0][j - 1] + costs.insert);
+
+  // damerau: last row (1-based) in which each character of `a` was seen
+  const lastRow = new Map<string, number>();
+
+  // with (m, n) outside the band the distance exceeds k before anything is filled
+  let filled = Math.abs(m - n) > width ? 0 : m;
+  let rowMin = 0;
+  // rows in a row, up to this one, whose band cells all exceed k
+  let over = 0;
+  const jumpable = maxDistance === undefined ? 0 : jumpableRows(algorithm, costs, maxDistance);
+
+  // fill
+  for (let i = 1; i <= filled; i++) {
+    const row = dp[i];
+    const up = dp[i - 1];
+    if (i <= width) row[0] = substring ? 0 : roundCost(up[0] + costs.delete);
+    let min = row[0];
+    const lo = Math.max(1, i - width);
+    const hi = Math.min(n, i + width);
+    // damerau: last column in this row where b matched a[i - 1], found from where the band starts
+    let lastCol = lo - 1;
+    while (algorithm === "damerau" && lastCol > 0 && b[lastCol - 1] !== a[i - 1]) lastCol--;
+    for (let j = lo; j <= hi; j++) {
+      let best = Math.min(
+        roundCost(up[j] + costs.delete),
+        roundCost(row[j - 1] + costs.insert),
+        roundCost(up[j - 1] + substitutionCost(costs, a[i - 1], b[j - 1]))
+      );
+      if (algorithm === "osa") {
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          best = Math.min(best, roundCost(dp[i - 2][j - 2] + costs.transpose));
+        }
+      } else if (algorithm === "damerau") {
+        const k = lastRow.get(b[j - 1]) ?? 0;
+        const l = lastCol;
+        if (a[i - 1] === b[j - 1]) lastCol = j;
+        if (k > 0 && l > 0) best = Math.min(best, roundCost(dp[k - 1][l - 1] + transposeWeight(costs, i, j, k, l)));
+      }
+      row[j] = best;
+      min = Math.min(min, best);
+    }
+    lastRow.set(a[i - 1], i);
+    rowMin = min;
+    over = maxDistance !== undefined && min > maxDistance ? over + 1 : 0;
+    if (i < m && over > jumpable) filled = i;
+  }
+
+  const overFrom = filled - Math.max(0, over - 1);
+  const band = maxDistance === undefined ? undefined : { k: maxDistance, width, lastRow: filled, rowMin, overFrom };
+  return { a, b, m, n, costs, algorithm, scores, dp, band, ...(substring && { substring }) };
+}
+
+// Gotoh: a run of k inserts (deletes) costs gapOpen + k × insert (delete)
+function fillAffineTable(a: Sequence, b: Sequence, costs: EditCosts): DPTable {
+  const m = a.length;
+  const n = b.length;
+  const matrix = () => Array.from({ length: m + 1 }, () => new Float64Array(n + 1).fill(Infinity));
+  const layers = { M: matrix(), X: matrix(), Y: matrix() };
+  const { M, X, Y } = layers;
+  const dp = Array.from({ length: m + 1 }, () => new Float64Array(n + 1));
+  const openDelete = roundCost(costs.gapOpen + costs.delete);
+  const openInsert = roundCost(costs.gapOpen + costs.insert);
+  M[0][0] = 0;
+
+  for (let i = 0; i <= m; i++) {
+    for (let j = 0; j <= n; j++) {
+      if (i > 0 && j > 0) {
+        const sub = substitutionCost(costs, a[i - 1], b[j - 1]);
+        M[i][j] = Math.min(
+          roundCost(M[i - 1][j - 1] + sub),
+          roundCost(X[i - 1][j - 1] + sub),
+          roundCost(Y[i - 1][j - 1] + sub)
+        );
+      }
+      if (i > 0) {
+        X[i][j] = Math.min(
+          roundCost(M[i - 1][j] + openDelete),
+          roundCost(X[i - 1][j] + costs.delete),
+          roundCost(Y[i - 1][j] + openDelete)
+        );
+      }
+      if (j > 0) {
+        Y[i][j] = Math.min(
+          roundCost(M[i][j - 1] + openInsert),
+          roundCost(X[i][j - 1] + openInsert),
+          roundCost(Y[i][j - 1] + costs.insert)
+        );
+      }
+      dp[i][j] = Math.min(M[i][j], X[i][j], Y[i][j]);
+    }
+  }
+
+  return { a, b, m, n, costs, algorithm: "gotoh", scores: DEFAULT_SCORES, dp, layers };
+}
+
+function scoresOf(t: { algorithm: Algorithm; scores: Scores }) {
+  return t.algorithm === "lcs" ? LCS_SCORES : t.scores;
+}
+
+// the same three moves maximized; Smith–Waterman also floors every cell at 0
+function fillScoreTable(a: Sequence, b: Sequence, costs: EditCosts, algorithm: Algorithm, scores: Scores): DPTable {
+  const m = a.length;
+  const n = b.length;
+  const { match, mismatch, gap } = scoresOf({ algorithm, scores });
+  const local = algorithm === "smith-waterman";
+  const dp = Array.from({ length: m + 1 }, () => new Float64Array(n + 1));
+
+  // a local alignment can start anywhere, so its first row / column stay 0
+  if (!local) {
+    for (let i = 1; i <= m; i++) dp[i][0] = roundCost(dp[i - 1][0] + gap);
+    for (let j = 1; j <= n; j++) dp[0][j] = roundCost(dp[0][j - 1] + gap);
+  }
+
+  for (let i = 1; i <= m; i++) {
+    const row = dp[i];
+    const up = dp[i - 1];
+    for (let j = 1; j <= n; j++) {
+      const best = Math.max(
+        roundCost(up[j] + gap),
+        roundCost(row[j - 1] + gap),
+        roundCost(up[j - 1] + (a[i - 1] === b[j - 1] ? match : mismatch))
+      );
+      row[j] = local ? Math.max(0, best) : best;
+    }
+  }
+
+  return { a, b, m, n, costs, algorithm, scores, dp };
+}
+
+// swap a[k-1] / a[i-1], deleting everything between them in a and inserting everything between in b
+function transposeWeight(costs: EditCosts, i: number, j: number, k: number, l: number) {
+  return roundCost((i - k - 1) * costs.delete + costs.transpose + (j - l - 1) * costs.insert);
+}
+
+/** The transposition candidate of a cell, if its algorithm allows one there. */
+function transposeCandidate(t: DPTable, i: number, j: number): Candidate | null {
+  const { a, b, costs, dp } = t;
+  if (t.algorithm === "osa") {
+    if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+      return {
+        op: "transpose",
+        from: [i - 2, j - 2],
+        weight: costs.transpose,
+        value: roundCost(dp[i - 2][j - 2] + costs.transpose),
+      };
+    }
+  } else if (t.algorithm === "damerau") {
+    // the same k / l the fill tracked incrementally: last earlier row with a[k-1] = b[j-1],
+    // last earlier column with b[l-1] = a[i-1]
+    let k = i - 1;
+    while (k > 0 && a[k - 1] !== b[j - 1]) k--;
+    let l = j - 1;
+    while (l > 0 && b[l - 1] !== a[i - 1]) l--;
+    if (k > 0 && l > 0) {
+      const weight = transposeWeight(costs, i, j, k, l);
+      return { op: "transpose", from: [k - 1, l - 1], weight, value: roundCost(dp[k - 1][l - 1] + weight) };
+    }
+  }
+  return null;
+}
+
+/** Candidates of the maximizing algorithms; `weight` is the score the move adds. */
+function scoreCandidates(t: DPTable, i: number, j: number): Candidate[] {
+  const { a, b, dp } = t;
+  const { match, mismatch, gap } = scoresOf(t);
+  // Smith–Waterman's zero floor: start a fresh local alignment here
+  const start: Candidate = { op: "init", from: null, weight: 0, value: 0 };
+  const local = t.algorithm === "smith-waterman";
+  if ((i === 0 && j === 0) || (local && (i === 0 || j === 0))) return [start];
+  if (j === 0) return [{ op: "delete", from: [i - 1, 0], weight: gap, value: dp[i][0] }];
+  if (i === 0) return [{ op: "insert", from: [0, j - 1], weight: gap, value: dp[0][j] }];
+
+  const candidates: Candidate[] = [
+    { op: "delete", from: [i - 1, j], weight: gap, value: roundCost(dp[i - 1][j] + gap) },
+    { op: "insert", from: [i, j - 1], weight: gap, value: roundCost(dp[i][j - 1] + gap) },
+  ];
+  const same = a[i - 1] === b[j - 1];
+  // LCS has no mismatch move at all
+  if (same || mismatch > -Infinity) {
+    const weight = same ? match : mismatch;
+    const value = roundCost(dp[i - 1][j - 1] + weight);
+    candidates.push({ op: same ? "match" : "replace", from: [i - 1, j - 1], weight, value });
+  }
+  if (local) candidates.push(start);
+  return candidates;
+}
+
+/**
+ * Gotoh's candidates: into each matrix from each of the three at the
+ * neighbouring cell, leaving out moves from a matrix that can't be reached there.
+ */
+function affineCandidates(t: DPTable, i: number, j: number): Candidate[] {
+  const { a, b, costs } = t;
+  const layers = t.layers!;
+  if (i === 0 && j === 0) return [{ op: "init", from: null, weight: 0, value: 0, layer: "M" }];
+  const candidates: Candidate[] = [];
+  const add = (op: Op, layer: Layer, fromLayer: Layer, pi: number, pj: number, weight: number) => {
+    const value = roundCost(layers[fromLayer][pi][pj] + weight);
+    if (value < Infinity) candidates.push({ op, from: [pi, pj], weight, value, layer, fromLayer });
+  };
+  if (i > 0 && j > 0) {
+    const sub = substitutionCost(costs, a[i - 1], b[j - 1]);
+    for (const from of LAYERS) add(a[i - 1] === b[j - 1] ? "match" : "replace", "M", from, i - 1, j - 1, sub);
+  }
+  if (i > 0) {
+    for (const from of LAYERS) {
+      add("delete", "X", from, i - 1, j, from === "X" ? costs.delete : roundCost(costs.gapOpen + costs.delete));
+    }
+  }
+  if (j > 0) {
+    for (const from of LAYERS) {
+      add("insert", "Y", from, i, j - 1, from === "Y" ? costs.insert : roundCost(costs.gapOpen + costs.insert));
+    }
+  }
+  return candidates;
+}
+
+/** Every candidate the recurrence considers for (i, j), recomputed from the table. */
+export function cellCandidates(t: DPTable, i: number, j: number): Candidate[] {
+  if (maximizes(t.algorithm)) return scoreCandidates(t, i, j);
+  if (t.layers) return affineCandidates(t, i, j);
+  const { a, b, costs, dp } = t;
+  if ((i === 0 && j === 0) || (t.substring && j === 0)) return [{ op: "init", from: null, weight: 0, value: 0 }];
+  if (j === 0) return [{ op: "delete", from: [i - 1, 0], weight: costs.delete, value: dp[i][0] }];
+  if (i === 0) return [{ op: "insert", from: [0, j - 1], weight: costs.insert, value: dp[0][j] }];
+
+  const sub = substitutionCost(costs, a[i - 1], b[j - 1]);
+  const candidates: Candidate[] = [
+    { op: "delete", from: [i - 1, j], weight: costs.delete, value: roundCost(dp[i - 1][j] + costs.delete) },
+    { op: "insert", from: [i, j - 1], weight: costs.insert, value: roundCost(dp[i][j - 1] + costs.insert) },
+    {
+      op: a[i - 1] === b[j - 1] ? "match" : "replace",
+      from: [i - 1, j - 1],
+      weight: sub,
+      value: roundCost(dp[i - 1][j - 1] + sub),
+    },
+  ];
+  const trans = transposeCandidate(t, i, j);
+  if (trans) candidates.push(trans);
+  return candidates;
+}
+
+// ties resolved by the tie-break order, but every tied candidate is an optimal parent;
+// a fresh start (Smith–Waterman's zero floor) has no move and always comes first
+function tiedCandidates(candidates: Candidate[], value: number, tieBreak: TieBreak) {
+  const rank = (c: Candidate) => (c.from ? tieBreak.indexOf(moveOf(c.op)!) : -1);
+  return candidates.filter((c) => c.value === value).sort((x, y) => rank(x) - rank(y));
+}
+
+export function explainCell(t: DPTable, tieBreak: TieBreak, i: number, j: number): CellExplain {
+  const candidates = cellCandidates(t, i, j);
+  const cost = t.dp[i][j];
+  return {
+    i,
+    j,
+    aChar: i === 0 ? "∅" : t.a[i - 1],
+    bChar: j === 0 ? "∅" : t.b[j - 1],
+    cost,
+    candidates,
+    chosen: i === 0 && j === 0 ? candidates[0] : tiedCandidates(candidates, cost, tieBreak)[0],
+  };
+}
+
+/**
+ * Every co-optimal predecessor of (i, j), in tie-break order (first = the one
+ * `chosen` uses). None where an alignment starts: (0, 0), any cell
+ * Smith–Waterman's zero floor reaches, or the first column of a substring search. For Gotoh, `layer` asks for the
+ * predecessors of one matrix's entry; without it, those of whichever matrices
+ * hold the cell's minimum.
+ */
+export function parentsOf(t: DPTable, tieBreak: TieBreak, i: number, j: number, layer?: Layer): Pred[] {
+  if (i === 0 && j === 0) return [];
+  let candidates = cellCandidates(t, i, j);
+  let value = t.dp[i][j];
+  if (t.layers && layer) {
+    candidates = candidates.filter((c) => c.layer === layer);
+    value = t.layers[layer][i][j];
+  }
+  const tied = tiedCandidates(candidates, value, tieBreak);
+  if (!tied[0].from) return [];
+  return tied.map((c) => ({
+    i: c.from![0],
+    j: c.from![1],
+    op: c.op,
+    ...(c.fromLayer && { layer: c.fromLayer }),
+  }));
+}
+
+export type ParentLookup = (i: number, j: number, layer?: Layer) => Pred[];
+
+/**
+ * Id of a state of the optimal-path DAG: a cell, or for Gotoh one matrix's
+ * entry at the cell. The bare cell (offset 0) is where a traceback starts.
+ */
+export function stateId(w: number, i: number, j: number, layer?: Layer) {
+  return (i * w + j) * 4 + (layer ? LAYERS.indexOf(layer) + 1 : 0);
+}
+
+/**
+ * Where the traceback starts: (m, n) for the global algorithms, the best cell
+ * for Smith–Waterman (the first in row-major order when several tie), and for
+ * a substring search the cheapest cell of the last column (the first row that
+ * reaches it).
+ */
+export function alignmentEnd(t: DPTable): [number, number] {
+  if (t.substring) {
+    let best = 0;
+    for (let i = 1; i <= t.m; i++) if (t.dp[i][t.n] < t.dp[best][t.n]) best = i;
+    return [best, t.n];
+  }
+  if (t.algorithm !== "smith-waterman") return [t.m, t.n];
+  let end: [number, number] = [0, 0];
+  for (let i = 0; i <= t.m; i++) {
+    for (let j = 0; j <= t.n; j++) if (t.dp[i][j] > t.dp[end[0]][end[1]]) end = [i, j];
+  }
+  return end;
+}
+
+/**
+ * Cell ids (i * (n + 1) + j) in the order a fill visits them. Row-major fills
+ * the first column, then the first row, then the interior row by row. Every
+ * order keeps each candidate's `from` cell ahead of the cell that reads it:
+ * column-major because every move goes up and/or left, anti-diagonal because
+ * every move lowers i + j.
+ */
+export function fillOrderCells(m: number, n: number, order: FillOrder = "row-major") {
+  const cells = new Int32Array((m + 1) * (n + 1));
+  let k = 0;
+  const w = n + 1;
+  if (order === "row-major") {
+    for (let i = 0; i <= m; i++) cells[k++] = i * w;
+    for (let j = 1; j <= n; j++) cells[k++] = j;
+    for (let i = 1; i <= m; i++) for (let j = 1; j <= n; j++) cells[k++] = i * w + j;
+  } else if (order === "column-major") {
+    for (let j = 0; j <= n; j++) for (let i = 0; i <= m; i++) cells[k++] = i * w + j;
+  } else {
+    for (let d = 0; d <= m + n; d++) {
+      for (let i = Math.max(0, d - n); i <= Math.min(d, m); i++) cells[k++] = i * w + (d - i);
+    }
+  }
+  return cells;
+}
+
+/** Ids of the cells a banded fill computes: each row's band, left to right, down to where it stopped. */
+export function bandOrderCells(n: number, band: Band) {
+  const w = n + 1;
+  const cells: number[] = [];
+  for (let i = 0; i <= band.lastRow; i++) {
+    for (let j = Math.max(0, i - band.width); j <= Math.min(n, i + band.width); j++) cells.push(i * w + j);
+  }
+  return Int32Array.from(cells);
+}
+
+export function computeEditDistanceSteps(
+  a: Sequence,
+  b: Sequence,
+  costs: EditCosts = DEFAULT_COSTS,
+  algorithm: Algorithm = "levenshtein",
+  tieBreak: TieBreak = DEFAULT_TIE_BREAK,
+  order: FillOrder = "row-major"
+) {
+  const t = fillTable(a, b, costs, algorithm);
+  const w = t.n + 1;
+  const steps = Array.from(fillOrderCells(t.m, t.n, order), (id) =>
+    explainCell(t, tieBreak, Math.floor(id / w), id % w)
+  );
+  // every co-optimal predecessor of each cell, in tie-break order (first = the one `chosen` uses)
+  const parents: Pred[][][] = t.dp.map((row, i) => Array.from(row, (_, j) => parentsOf(t, tieBreak, i, j)));
+  return { dp: t.dp, steps, parents };
+}
+
+export function assertFillOrder(steps: CellExplain[]) {
+  const seen = new Set<string>();
+  for (const s of steps) {
+    for (const c of s.candidates) {
+      if (c.from && !seen.has(`${c.from[0]},${c.from[1]}`)) {
+        throw new Error(`fill order reads (${c.from[0]}, ${c.from[1]}) before it is computed`);
+      }
+    }
+    seen.add(`${s.i},${s.j}`);
+  }
+}
+
+// every state on an optimal path to `end`, with its co-optimal predecessors
+function optimalStates(parentsOf: ParentLookup, n: number, end: [number, number]) {
+  const w = n + 1;
+  const states = new Map<number, Pred[]>();
+  const stack: [number, number, Layer | undefined][] = [[end[0], end[1], undefined]];
+  while (stack.length) {
+    const [i, j, layer] = stack.pop()!;
+    const id = stateId(w, i, j, layer);
+    if (states.has(id)) continue;
+    const preds = parentsOf(i, j, layer);
+    states.set(id, preds);
+    for (const p of preds) stack.push([p.i, p.j, p.layer]);
+  }
+  return states;
+}
+
+/** Ids (i * (n + 1) + j) of the cells that lie on at least one optimal path to `end`. */
+export function optimalDag(parentsOf: ParentLookup, m: number, n: number, end: [number, number] = [m, n]) {
+  return new Set(Array.from(optimalStates(parentsOf, n, end).keys(), (id) => Math.floor(id / 4)));
+}
+
+/**
+ * Where alignment counts stop growing: 2^53, one past Number.MAX_SAFE_INTEGER.
+ * Counts are exact below it; a count at the cap only says "more than that",
+ * though every index below it still names one alignment.
+ */
+export const ALIGNMENT_COUNT_CAP = Number.MAX_SAFE_INTEGER + 1;
+
+/**
+ * Number of optimal paths from where they start to each state of the optimal
+ * DAG, keyed by `stateId` and capped at ALIGNMENT_COUNT_CAP (two equal strings
+ * of a few hundred characters already have more); the total is at the bare
+ * `end` cell.
+ */
+export function countAlignments(parentsOf: ParentLookup, m: number, n: number, end: [number, number] = [m, n]) {
+  const w = n + 1;
+  const states = optimalStates(parentsOf, n, end);
+  const counts = new Map<number, number>();
+  // a parent is always up and/or left of its child, so ascending ids are a topological order
+  for (const id of Float64Array.from(states.keys()).sort()) {
+    const preds = states.get(id)!;
+    const sum = preds.reduce((s, p) => s + counts.get(stateId(w, p.i, p.j, p.layer))!, 0);
+    counts.set(id, preds.length ? Math.min(sum, ALIGNMENT_COUNT_CAP) : 1);
+  }
+  return counts;
+}
+
+/**
+ * The `index`-th optimal path, ordered from where it starts to `end`.
+ * Alignments are numbered by walking back from `end` and trying parents in
+ * tie-break order, so index 0 is the path the tie-break alone would pick.
+ */
+export function buildBacktrace(
+  parentsOf: ParentLookup,
+  counts: Map<number, number>,
+  m: number,
+  n: number,
+  index = 0,
+  end: [number, number] = [m, n]
+) {
+  const path: PathCell[] = [];
+  let [i, j] = end;
+  let layer: Layer | undefined;
+  let k = index;
+  const w = n + 1;
+  while (true) {
+    const p = parentsOf(i, j, layer).find((q) => {
+      const c = counts.get(stateId(w, q.i, q.j, q.layer))!;
+      if (k < c) return true;
+      k -= c;
+      return false;
+    });
+    path.push({ i, j, op: p ? p.op : "init" });
+    if (!p) break;
+    i = p.i;
+    j = p.j;
+    layer = p.layer;
+  }
+  return path.reverse();
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { editDistance, fuzzySearch } from ".";
+
+const WORDS = ["apple", "apply", "ample", "maple", "applesauce", "apple", "banana", ""];
+
+describe("fuzzySearch", () => {
+  it("ranks candidates by distance, then list order", () => {
+    const { hits } = fuzzySearch("appel", WORDS);
+    const expected = WORDS.map((w, index) => ({ index, distance: editDistance("appel", w).distance })).sort(
+      (x, y) => x.distance - y.distance || x.index - y.index
+    );
+    expect(hits.map((h) => [h.index, h.distance])).toEqual(expected.map((e) => [e.index, e.distance]));
+    expect(hits[0].candidate).toBe("apple");
+  });
+
+  it("matches one table per candidate with weighted costs", () => {
+    const costs = { insert: 0.5, delete: 2, replace: 1.5, substitutions: { a: { e: 0.2 } } };
+    const { hits } = fuzzySearch("grape", ["grope", "grapefruit", "gape", "tape", "grapes"], { costs });
+    for (const h of hits) expect(h.distance).toBe(editDistance("grape", h.candidate, { costs }).distance);
+  });
+
+  it("reuses the rows of shared prefixes", () => {
+    const r = fuzzySearch("apl", ["apple", "apply", "applesauce", "apple"]);
+    expect(r.rowsNaive).toBe(5 + 5 + 10 + 5);
+    // apple, then y, then sauce; the duplicate fills nothing
+    expect(r.rowsComputed).toBe(5 + 1 + 5);
+    const byIndex = new Map(r.hits.map((h) => [h.index, h]));
+    expect(byIndex.get(0)).toMatchObject({ sharedPrefix: 0, sharedWith: null });
+    expect(byIndex.get(1)).toMatchObject({ sharedPrefix: 4, sharedWith: 0 });
+    expect(byIndex.get(2)).toMatchObject({ sharedPrefix: 5, sharedWith: 0 });
+    expect(byIndex.get(3)).toMatchObject({ sharedPrefix: 5, sharedWith: 0 });
+  });
+
+  it("keeps only hits within maxDistance and prunes hopeless subtrees", () => {
+    const words = ["cat", "cart", "zzzzzz", "zzzzzzzz", "cast"];
+    const r = fuzzySearch("cat", words, { maxDistance: 1 });
+    expect(r.hits.map((h) => h.candidate)).toEqual(["cat", "cart", "cast"]);
+    const all = fuzzySearch("cat", words);
+    expect(all.hits).toHaveLength(words.length);
+    expect(r.rowsPruned).toBeGreaterThan(0);
+    expect(r.rowsComputed + r.rowsPruned).toBe(all.rowsComputed);
+  });
+
+  it("splits by the tokenization mode", () => {
+    const r = fuzzySearch("the quick fox", ["the quick brown fox", "a quick fox"], { tokenize: "word" });
+    expect(r.hits.map((h) => [h.candidate, h.distance])).toEqual([
+      ["the quick brown fox", 1],
+      ["a quick fox", 1],
+    ]);
+    expect(r.rowsNaive).toBe(7);
+  });
+
+  it("rejects a negative threshold", () => {
+    expect(() => fuzzySearch("a", ["a"], { maxDistance: -1 })).toThrow(RangeError);
+  });
+
+  it("rejects a negative weight", () => {
+    expect(() => fuzzySearch("a", ["b"], { costs: { delete: -1 } })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,130 @@
+import { checkCosts, DEFAULT_COSTS, roundCost, substitutionCost } from "./editDistance";
+import type { EditCosts } from "./editDistance";
+import { tokenize } from "./tokenize";
+import type { Tokenization } from "./tokenize";
+
+/**
+ * One query against a word list (Levenshtein only), the way autocomplete does
+ * it: the candidates go into a trie and each trie node holds one DP row — the
+ * node's prefix scored against every prefix of the query. A row depends only
+ * on its parent's row and one more token, so candidates with a common prefix
+ * share those rows and only fill the ones past it. With `maxDistance`, a
+ * subtree is dropped as soon as a row's minimum exceeds it: every alignment of
+ * a longer candidate passes through that row, and costs never go down.
+ *
+ * In the grid, query A runs down the rows and the candidate across the top,
+ * so a trie row is one column there: column j of (A, candidate) is the row of
+ * the candidate's first j tokens.
+ */
+
+export type SearchHit = {
+  /** position in the candidate list */
+  index: number;
+  candidate: string;
+  distance: number;
+  /** tokens of the candidate whose rows were already in the trie */
+  sharedPrefix: number;
+  /** the earlier candidate that filled those rows, null if none were shared */
+  sharedWith: number | null;
+};
+
+export type FuzzySearchOptions = {
+  costs?: Partial<EditCosts>;
+  /** how the query and candidates are split (default "codepoint") */
+  tokenize?: Tokenization;
+  /** keep only candidates within this distance, pruning the trie as it goes */
+  maxDistance?: number;
+};
+
+export type FuzzySearchResult = {
+  /** candidates within `maxDistance`, by distance, then list order */
+  hits: SearchHit[];
+  /** DP rows the trie filled */
+  rowsComputed: number;
+  /** DP rows one table per candidate would fill: one per candidate token */
+  rowsNaive: number;
+  /** rows never filled because an ancestor row was already past `maxDistance` */
+  rowsPruned: number;
+};
+
+type TrieNode = {
+  /** null once the row's minimum exceeds maxDistance */
+  row: Float64Array | null;
+  children: Map<string, TrieNode>;
+  /** the candidate that created this node */
+  owner: number;
+};
+
+export function fuzzySearch(
+  query: string,
+  candidates: readonly string[],
+  options: FuzzySearchOptions = {}
+): FuzzySearchResult {
+  const costs: EditCosts = { ...DEFAULT_COSTS, ...options.costs };
+  const mode = options.tokenize ?? "codepoint";
+  const { maxDistance } = options;
+  if (maxDistance !== undefined && !(maxDistance >= 0)) {
+    throw new RangeError(`maxDistance must be a non-negative number, got ${maxDistance}`);
+  }
+  checkCosts(costs);
+  const q = tokenize(query, mode);
+  const m = q.length;
+
+  // the empty prefix: deleting the query one token at a time
+  const first = new Float64Array(m + 1);
+  for (let i = 1; i <= m; i++) first[i] = roundCost(first[i - 1] + costs.delete);
+  const root: TrieNode = { row: first, children: new Map(), owner: -1 };
+
+  const nextRow = (prev: Float64Array, token: string) => {
+    const row = new Float64Array(m + 1);
+    row[0] = roundCost(prev[0] + costs.insert);
+    for (let i = 1; i <= m; i++) {
+      row[i] = Math.min(
+        roundCost(row[i - 1] + costs.delete),
+        roundCost(prev[i] + costs.insert),
+        roundCost(prev[i - 1] + substitutionCost(costs, q[i - 1], token))
+      );
+    }
+    return row;
+  };
+  const withinBound = (row: Float64Array) =>
+    maxDistance === undefined || row.some((v) => v <= maxDistance) ? row : null;
+
+  const hits: SearchHit[] = [];
+  let rowsComputed = 0;
+  let rowsNaive = 0;
+  let rowsPruned = 0;
+  candidates.forEach((candidate, index) => {
+    const tokens = tokenize(candidate, mode);
+    rowsNaive += tokens.length;
+    let node = root;
+    let sharedPrefix = 0;
+    let sharedWith: number | null = null;
+    for (const token of tokens) {
+      let child = node.children.get(token);
+      if (child) {
+        // a pruned node saves work too, but it holds no row to show
+        if (child.row) {
+          sharedPrefix++;
+          sharedWith = child.owner;
+        }
+      } else {
+        child = { row: null, children: new Map(), owner: index };
+        if (node.row) {
+          child.row = withinBound(nextRow(node.row, token));
+          rowsComputed++;
+        } else {
+          rowsPruned++;
+        }
+        node.children.set(token, child);
+      }
+      node = child;
+    }
+    const distance = node.row ? node.row[m] : Infinity;
+    if (maxDistance === undefined ? distance < Infinity : distance <= maxDistance) {
+      hits.push({ index, candidate, distance, sharedPrefix, sharedWith });
+    }
+  });
+  hits.sort((x, y) => x.distance - y.distance || x.index - y.index);
+  return { hits, rowsComputed, rowsNaive, rowsPruned };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_COSTS, TIE_BREAKS, editDistance, hirschberg } from ".";
+import type { HirschbergFrame } from ".";
+import { randomString } from "./testUtils";
+
+describe("hirschberg", () => {
+  it("finds the distance and an optimal path", () => {
+    const h = hirschberg("intention", "execution");
+    expect(h.distance).toBe(5);
+    expect(h.path[0]).toEqual({ i: 0, j: 0, op: "init" });
+    expect(h.path[h.path.length - 1]).toMatchObject({ i: 9, j: 9 });
+  });
+
+  it("handles empty strings", () => {
+    expect(hirschberg("", "").path).toEqual([{ i: 0, j: 0, op: "init" }]);
+    expect(hirschberg("", "ab").path.map((c) => c.op)).toEqual(["init", "insert", "insert"]);
+    expect(hirschberg("abc", "").path.map((c) => c.op)).toEqual(["init", "delete", "delete", "delete"]);
+  });
+
+  it("rejects a negative weight", () => {
+    expect(() => hirschberg("a", "b", { ...DEFAULT_COSTS, replace: -1 })).toThrow(RangeError);
+  });
+
+  it.each(TIE_BREAKS.map((t) => [t.join(" > "), t] as const))("assembles buildBacktrace's path (%s)", (_, tieBreak) => {
+    const costs = { ...DEFAULT_COSTS, insert: 0.5, replace: 1.5, substitutions: { a: { b: 0.2 }, b: { a: 0.2 } } };
+    // how often the split had to pick among tied columns, and how many replaces the paths took
+    let tiedSplits = 0;
+    let replaces = 0;
+    for (let seed = 1; seed < 120; seed++) {
+      const a = randomString(seed % 13, "abcd", seed);
+      const b = randomString(seed % 11, "abcd", seed * 7 + 1);
+      const full = editDistance(a, b, { tieBreak, costs });
+      const h = hirschberg(a, b, costs, tieBreak);
+      expect(h.distance).toBe(full.distance);
+      expect(h.path).toEqual(full.alignment().path);
+      tiedSplits += h.frames.filter((f) => f.kind === "split" && f.ties.length > 1).length;
+      replaces += h.path.filter((c) => c.op === "replace").length;
+    }
+    expect(tiedSplits).toBeGreaterThan(50);
+    expect(replaces).toBeGreaterThan(20);
+  });
+
+  it("splits each region at a tied column and nests the corners inside it", () => {
+    const h = hirschberg("sunday", "saturday");
+    const splits = h.frames.filter((f): f is Extract<HirschbergFrame, { kind: "split" }> => f.kind === "split");
+    expect(splits.length).toBeGreaterThan(0);
+    for (const s of splits) {
+      expect(s.ties).toContain(s.col);
+      expect(s.row).toBeGreaterThan(s.region.top);
+      expect(s.row).toBeLessThan(s.region.bottom);
+    }
+    for (const f of h.frames) {
+      if (f.kind === "forward" || f.kind === "reverse") {
+        expect(f.scores).toHaveLength(f.region.right - f.region.left + 1);
+      }
+    }
+    // every sliver is at most two rows tall
+    expect(h.frames.filter((f) => f.kind === "solve").every((f) => f.region.bottom - f.region.top <= 1)).toBe(true);
+  });
+});
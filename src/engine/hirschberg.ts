@@ -0,0 +1,167 @@
+import { checkCosts, DEFAULT_COSTS, DEFAULT_TIE_BREAK, roundCost, substitutionCost } from "./editDistance";
+import type { EditCosts, Move, Op, PathCell, TieBreak } from "./editDistance";
+import type { Sequence } from "./tokenize";
+
+/**
+ * Hirschberg's linear-space alignment (Levenshtein only): score the middle row
+ * forward from the top and in reverse from the corner, keep the columns where
+ * the two sum to the minimum, recurse on the two corners and fill slivers of at
+ * most two rows outright. Records every step as a frame so the divide and
+ * conquer can be animated on the full grid.
+ *
+ * Several columns can tie at the split. To land on the same path as
+ * `buildBacktrace`, the lower corner is solved first, seeded with the forward
+ * half-row: walking back from its corner with the tie-break tells which of
+ * the tied columns that path actually crosses, and the upper corner ends there.
+ */
+
+/** A subproblem: the cells from (top, left) to (bottom, right). */
+export type Region = { top: number; left: number; bottom: number; right: number; depth: number };
+
+export type HirschbergFrame =
+  /** cost from (0, 0) to each (row, j), j = left..right, carried down from the region's top row */
+  | { kind: "forward"; region: Region; row: number; scores: number[] }
+  /** cost from each (row, j) to (bottom, right), j = left..right */
+  | { kind: "reverse"; region: Region; row: number; scores: number[] }
+  /** optimal paths cross `row` at the `ties` columns; the tie-break's path crosses at (row, col) */
+  | { kind: "split"; region: Region; row: number; col: number; ties: number[] }
+  /** a sliver filled outright; `path` walks it back to its top row */
+  | { kind: "solve"; region: Region; path: PathCell[] };
+
+export type HirschbergResult = {
+  distance: number;
+  frames: HirschbergFrame[];
+  /** the assembled optimal path, ordered from (0, 0) to (m, n) */
+  path: PathCell[];
+};
+
+/** Forward DP from a known top row (`init`, over columns left..right) down to `row`, two rows at a time. */
+function forwardScores(a: Sequence, b: Sequence, costs: EditCosts, r: Region, init: number[], row: number) {
+  let prev = init;
+  for (let i = r.top + 1; i <= row; i++) {
+    const cur = [roundCost(prev[0] + costs.delete)];
+    for (let k = 1; k < prev.length; k++) {
+      cur[k] = Math.min(
+        roundCost(prev[k] + costs.delete),
+        roundCost(cur[k - 1] + costs.insert),
+        roundCost(prev[k - 1] + substitutionCost(costs, a[i - 1], b[r.left + k - 1]))
+      );
+    }
+    prev = cur;
+  }
+  return prev;
+}
+
+/** Cost from each (row, j) to (bottom, right): the same DP run backwards from the corner. */
+function reverseScores(a: Sequence, b: Sequence, costs: EditCosts, r: Region, row: number) {
+  const w = r.right - r.left;
+  let next = Array<number>(w + 1);
+  next[w] = 0;
+  for (let k = w - 1; k >= 0; k--) next[k] = roundCost(next[k + 1] + costs.insert);
+  for (let i = r.bottom - 1; i >= row; i--) {
+    const cur = Array<number>(w + 1);
+    cur[w] = roundCost(next[w] + costs.delete);
+    for (let k = w - 1; k >= 0; k--) {
+      cur[k] = Math.min(
+        roundCost(next[k] + costs.delete),
+        roundCost(cur[k + 1] + costs.insert),
+        roundCost(next[k + 1] + substitutionCost(costs, a[i], b[r.left + k]))
+      );
+    }
+    next = cur;
+  }
+  return next;
+}
+
+/**
+ * Fills a region of at most two rows from its top row and walks back from
+ * (bottom, right) until the walk reaches the top row, trying moves in
+ * tie-break order exactly like `buildBacktrace`.
+ */
+function walkSliver(a: Sequence, b: Sequence, costs: EditCosts, tieBreak: TieBreak, r: Region, init: number[]) {
+  const rows = r.bottom === r.top ? [init] : [init, forwardScores(a, b, costs, r, init, r.bottom)];
+  const path: PathCell[] = [];
+  let i = r.bottom;
+  let k = r.right - r.left;
+  while (i > r.top) {
+    const here = rows[i - r.top][k];
+    const up = rows[i - r.top - 1];
+    const x = a[i - 1];
+    const y = b[r.left + k - 1];
+    // [value, op, i, k] of each move into (i, left + k)
+    const moves: Record<Move, [number, Op, number, number] | null> = {
+      delete: [roundCost(up[k] + costs.delete), "delete", i - 1, k],
+      insert: k > 0 ? [roundCost(rows[i - r.top][k - 1] + costs.insert), "insert", i, k - 1] : null,
+      diagonal:
+        k > 0
+          ? [roundCost(up[k - 1] + substitutionCost(costs, x, y)), x === y ? "match" : "replace", i - 1, k - 1]
+          : null,
+      transpose: null,
+    };
+    const [, op, pi, pk] = tieBreak.map((mv) => moves[mv]).find((c) => c !== null && c[0] === here)!;
+    path.push({ i, j: r.left + k, op });
+    i = pi;
+    k = pk;
+  }
+  path.push({ i, j: r.left + k, op: "init" });
+  return path.reverse();
+}
+
+export function hirschberg(
+  a: Sequence,
+  b: Sequence,
+  costs: EditCosts = DEFAULT_COSTS,
+  tieBreak: TieBreak = DEFAULT_TIE_BREAK
+): HirschbergResult {
+  checkCosts(costs);
+  // the tie-break's path from wherever it enters the region's top row to (bottom, right)
+  const solve = (r: Region, init: number[], frames: HirschbergFrame[]): PathCell[] => {
+    if (r.bottom - r.top <= 1) {
+      const path = walkSliver(a, b, costs, tieBreak, r, init);
+      frames.push({ kind: "solve", region: r, path });
+      return path;
+    }
+    const row = Math.floor((r.top + r.bottom) / 2);
+    const forward = forwardScores(a, b, costs, r, init, row);
+    frames.push({ kind: "forward", region: r, row, scores: forward });
+    const reverse = reverseScores(a, b, costs, r, row);
+    frames.push({ kind: "reverse", region: r, row, scores: reverse });
+
+    const total = forward.map((f, k) => roundCost(f + reverse[k]));
+    const best = Math.min(...total);
+    const ties = total.flatMap((t, k) => (t === best ? [r.left + k] : []));
+
+    // optimal paths cross at a tied column and stay right of it, so the lower corner can start at the first tie
+    const depth = r.depth + 1;
+    const lowerFrames: HirschbergFrame[] = [];
+    const lower = solve(
+      { top: row, left: ties[0], bottom: r.bottom, right: r.right, depth },
+      forward.slice(ties[0] - r.left),
+      lowerFrames
+    );
+    const col = lower[0].j;
+    const upperFrames: HirschbergFrame[] = [];
+    const upper = solve(
+      { top: r.top, left: r.left, bottom: row, right: col, depth },
+      init.slice(0, col - r.left + 1),
+      upperFrames
+    );
+
+    // shown top corner first, the way it is taught
+    frames.push({ kind: "split", region: r, row, col, ties }, ...upperFrames, ...lowerFrames);
+    // the split cell ends one half and starts the other
+    return [...upper, ...lower.slice(1)];
+  };
+
+  const root: Region = { top: 0, left: 0, bottom: a.length, right: b.length, depth: 0 };
+  const firstRow = [0];
+  for (let j = 1; j <= b.length; j++) firstRow.push(roundCost(firstRow[j - 1] + costs.insert));
+  const frames: HirschbergFrame[] = [];
+  const [entry, ...rest] = solve(root, firstRow, frames);
+  // the walk stops on row 0; the rest of the way to (0, 0) is inserts
+  const path: PathCell[] = [];
+  for (let j = 0; j <= entry.j; j++) path.push({ i: 0, j, op: j === 0 ? "init" : "insert" });
+  path.push(...rest);
+  const distance = forwardScores(a, b, costs, root, firstRow, root.bottom)[root.right];
+  return { distance, frames, path };
+}
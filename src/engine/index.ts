@@ -0,0 +1,285 @@
+/**
+ * Public API of the edit-distance engine.
+ *
+ *   const r = editDistance("kitten", "sitting");
+ *   r.distance; // 3
+ *   r.alignment().operations; // replace 'k'→'s' at 0, replace 'e'→'i' at 4, insert 'g' at 6
+ */
+import { alignmentRows, buildEditScript } from "./alignment";
+import type { AlignColumn, EditOperation } from "./alignment";
+import {
+  DEFAULT_COSTS,
+  DEFAULT_SCORES,
+  DEFAULT_TIE_BREAK,
+  alignmentEnd,
+  bandOrderCells,
+  buildBacktrace,
+  countAlignments,
+  explainCell,
+  fillOrderCells,
+  fillTable,
+  maximizes,
+  parentsOf,
+  skipReason,
+  stateId,
+} from "./editDistance";
+import type {
+  Algorithm,
+  Band,
+  CellExplain,
+  EditCosts,
+  FillOrder,
+  Layer,
+  PathCell,
+  Pred,
+  Scores,
+  TieBreak,
+} from "./editDistance";
+import { tokenJoiner, tokenize } from "./tokenize";
+import type { Sequence, Tokenization } from "./tokenize";
+
+export type EditDistanceOptions = {
+  costs?: Partial<EditCosts>;
+  algorithm?: Algorithm;
+  /** match / mismatch / gap scores for Needleman–Wunsch and Smith–Waterman */
+  scores?: Partial<Scores>;
+  tieBreak?: TieBreak;
+  fillOrder?: FillOrder;
+  /** how string inputs are split; token arrays are used as given (default "codepoint") */
+  tokenize?: Tokenization;
+  /**
+   * Ukkonen's threshold k: fill only the diagonal band a path within k can
+   * use, row by row, and stop once a whole row of it exceeds k. `distance` is
+   * Infinity when the true distance is larger. Overrides `fillOrder`. Edit
+   * distances only: a similarity score has no such bound. With `substring`,
+   * the threshold for `hits` instead, and the whole table is filled.
+   */
+  maxDistance?: number;
+  /**
+   * Sellers' approximate substring matching, with A as the text and B as the
+   * pattern: the first column is all 0, so a match may start at any row of A,
+   * and any row of the last column can end one. Levenshtein, OSA and Damerau.
+   */
+  substring?: boolean;
+};
+
+/** A stretch of the text, tokens start..end − 1 of A, that matches the pattern B. */
+export type SubstringHit = {
+  /** where the tie-break's backtrace from (end, n) reaches the first column */
+  start: number;
+  end: number;
+  distance: number;
+};
+
+export type Alignment = {
+  /** which optimal alignment this is, 0 being the tie-break's own pick */
+  index: number;
+  path: PathCell[];
+  columns: AlignColumn[];
+  operations: EditOperation[];
+  /** A with gaps, op markers, B with gaps */
+  rows: [string, string, string];
+};
+
+export type EditDistanceResult = {
+  a: Sequence;
+  b: Sequence;
+  /** the units rows and columns stand for */
+  tokensA: readonly string[];
+  tokensB: readonly string[];
+  /**
+   * The table's optimum at `end`: the edit distance (Infinity past
+   * `maxDistance`), or for the maximizing algorithms the LCS length or
+   * alignment score.
+   */
+  distance: number;
+  /** the cell alignments end at: (m, n), or Smith–Waterman's best cell */
+  end: [number, number];
+  dp: Float64Array[];
+  /** gotoh: the M / X / Y matrices behind `dp` */
+  layers?: Record<Layer, Float64Array[]>;
+  /** set when `maxDistance` was given without `substring` */
+  band?: Band;
+  /**
+   * substring: every row whose last cell is within `maxDistance` (without it,
+   * the rows tied for the best), in text order
+   */
+  hits?: SubstringHit[];
+  /** one step per computed cell: (m + 1) × (n + 1) unless banded */
+  stepCount: number;
+  /** the k-th cell the fill computes, explained on demand */
+  stepAt: (k: number) => CellExplain;
+  /** the k-th cell the fill computes, without the explanation */
+  cellAt: (k: number) => [number, number];
+  /** inverse of `cellAt`: when (i, j) is computed, -1 if it never is */
+  stepIndexOf: (i: number, j: number) => number;
+  /** why a banded fill skipped (i, j): outside the band, or below the row it stopped at */
+  skipped: (i: number, j: number) => "band" | "cutoff" | null;
+  /** every co-optimal predecessor of (i, j), in tie-break order; for Gotoh, of one matrix's entry if `layer` is given */
+  parentsOf: (i: number, j: number, layer?: Layer) => Pred[];
+  /** every step, in fill order — materializes one object per cell, avoid on large tables */
+  readonly steps: CellExplain[];
+  /** `parentsOf` for every cell — materialized on first access, like `steps` */
+  readonly parents: Pred[][][];
+  /** capped at ALIGNMENT_COUNT_CAP: past Number.MAX_SAFE_INTEGER it is only a lower bound */
+  alignmentCount: number;
+  /** the index-th optimal alignment ending at `end` (by default the result's own) */
+  alignment: (index?: number, end?: [number, number]) => Alignment;
+};
+
+export function editDistance(a: Sequence, b: Sequence, options: EditDistanceOptions = {}): EditDistanceResult {
+  const costs: EditCosts = { ...DEFAULT_COSTS, ...options.costs };
+  const mode = options.tokenize ?? "codepoint";
+  const tokensA = typeof a === "string" ? tokenize(a, mode) : a;
+  const tokensB = typeof b === "string" ? tokenize(b, mode) : b;
+  const m = tokensA.length;
+  const n = tokensB.length;
+  const tieBreak = options.tieBreak ?? DEFAULT_TIE_BREAK;
+  const algorithm = options.algorithm ?? "levenshtein";
+  const { maxDistance } = options;
+  const substring = options.substring ?? false;
+  if (maxDistance !== undefined && !(maxDistance >= 0)) {
+    throw new RangeError(`maxDistance must be a non-negative number, got ${maxDistance}`);
+  }
+  if (maxDistance !== undefined && maximizes(algorithm)) {
+    throw new RangeError(`maxDistance bounds an edit distance; ${algorithm} maximizes a score`);
+  }
+  if (maxDistance !== undefined && algorithm === "gotoh") {
+    throw new RangeError("maxDistance is not supported with affine gaps");
+  }
+  if (substring && (maximizes(algorithm) || algorithm === "gotoh")) {
+    throw new RangeError(`substring search is not supported with ${algorithm}`);
+  }
+  const scores: Scores = { ...DEFAULT_SCORES, ...options.scores };
+  const table = fillTable(tokensA, tokensB, costs, algorithm, substring ? undefined : maxDistance, scores, substring);
+  const { band } = table;
+  const w = n + 1;
+  const order = band ? bandOrderCells(n, band) : fillOrderCells(m, n, options.fillOrder ?? "row-major");
+  const rank = new Int32Array((m + 1) * w).fill(-1);
+  order.forEach((id, k) => (rank[id] = k));
+  const stepAt = (k: number) => explainCell(table, tieBreak, Math.floor(order[k] / w), order[k] % w);
+  const skipped = (i: number, j: number) => skipReason(table, i, j);
+  const lookup = (i: number, j: number, layer?: Layer) =>
+    skipped(i, j) ? [] : parentsOf(table, tieBreak, i, j, layer);
+  const end = alignmentEnd(table);
+  const optimum = table.dp[end[0]][end[1]];
+  const distance = band && !(optimum <= band.k) ? Infinity : optimum;
+  // only the optimal DAG is counted, so this stays cheap however large the table;
+  // past the threshold there is nothing to align
+  const counts = distance < Infinity ? countAlignments(lookup, m, n, end) : null;
+  const alignmentCount = counts ? counts.get(stateId(w, end[0], end[1]))! : 0;
+
+  let hits: SubstringHit[] | undefined;
+  if (substring) {
+    const limit = maxDistance ?? optimum;
+    hits = [];
+    for (let i = 0; i <= m; i++) {
+      const d = table.dp[i][n];
+      if (!(d <= limit)) continue;
+      // follow the tie-break back to the first column, where this match starts
+      let [pi, pj] = [i, n];
+      for (let p = lookup(pi, pj)[0]; p; p = lookup(pi, pj)[0]) [pi, pj] = [p.i, p.j];
+      hits.push({ start: pi, end: i, distance: d });
+    }
+  }
+  let steps: CellExplain[] | undefined;
+  let parents: Pred[][][] | undefined;
+
+  return {
+    a,
+    b,
+    tokensA,
+    tokensB,
+    distance,
+    end,
+    dp: table.dp,
+    layers: table.layers,
+    band,
+    ...(hits && { hits }),
+    stepCount: order.length,
+    stepAt,
+    cellAt: (k) => [Math.floor(order[k] / w), order[k] % w],
+    stepIndexOf: (i, j) => rank[i * w + j],
+    skipped,
+    parentsOf: lookup,
+    get steps() {
+      return (steps ??= Array.from(order, (_, k) => stepAt(k)));
+    },
+    get parents() {
+      return (parents ??= table.dp.map((row, i) => Array.from(row, (_, j) => lookup(i, j))));
+    },
+    alignmentCount,
+    alignment: (index = 0, at = end) => {
+      const own = at[0] === end[0] && at[1] === end[1];
+      const c = own ? counts : countAlignments(lookup, m, n, at);
+      const total = own ? alignmentCount : c!.get(stateId(w, at[0], at[1]))!;
+      if (!Number.isInteger(index) || index < 0 || index >= total) {
+        throw new RangeError(`alignment index ${index} out of range (0..${total - 1})`);
+      }
+      const path = buildBacktrace(lookup, c!, m, n, index, at);
+      const joiner = tokenJoiner(mode);
+      const { columns, operations } = buildEditScript(path, tokensA, tokensB, joiner);
+      const [rowA, markers, rowB] = alignmentRows(columns, joiner);
+      return { index, path, columns, operations, rows: [rowA, markers, rowB] };
+    },
+  };
+}
+
+export {
+  ALIGNMENT_COUNT_CAP,
+  DEFAULT_COSTS,
+  DEFAULT_SCORES,
+  DEFAULT_TIE_BREAK,
+  LAYERS,
+  TIE_BREAKS,
+  alignmentEnd,
+  assertFillOrder,
+  bandOrderCells,
+  bandWidth,
+  buildBacktrace,
+  cellCandidates,
+  computeEditDistanceSteps,
+  countAlignments,
+  explainCell,
+  fillOrderCells,
+  fillTable,
+  formatCost,
+  maximizes,
+  moveOf,
+  opLayer,
+  optimalDag,
+  parentsOf,
+  parseSubstitutions,
+  skipReason,
+} from "./editDistance";
+export type {
+  Algorithm,
+  Band,
+  Candidate,
+  CellExplain,
+  DPTable,
+  EditCosts,
+  FillOrder,
+  Layer,
+  Move,
+  Op,
+  ParentLookup,
+  PathCell,
+  Pred,
+  Scores,
+  TieBreak,
+} from "./editDistance";
+export { alignmentRows, buildEditScript, describeOperation } from "./alignment";
+export { OP_DIFFERS, VALUE_DIFFERS, compareTables, countEdits } from "./compare";
+export type { TableComparison } from "./compare";
+export { formatTable } from "./tableExport";
+export type { TableExportOptions, TableFormat } from "./tableExport";
+export { fuzzySearch } from "./fuzzySearch";
+export type { FuzzySearchOptions, FuzzySearchResult, SearchHit } from "./fuzzySearch";
+export { hirschberg } from "./hirschberg";
+export type { HirschbergFrame, HirschbergResult, Region } from "./hirschberg";
+export { bitAt, myers } from "./myers";
+export type { MyersColumn, MyersResult } from "./myers";
+export { sliceText, tokenJoiner, tokenize } from "./tokenize";
+export type { Sequence, Tokenization } from "./tokenize";
+export type { AlignColumn, EditOperation } from "./alignment";
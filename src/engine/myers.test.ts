@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { bitAt, editDistance, myers } from ".";
+import { randomString } from "./testUtils";
+
+// set bits of a vector
+function popcount(v: bigint) {
+  return v.toString(2).split("1").length - 1;
+}
+
+describe("myers", () => {
+  it("finds the distance", () => {
+    expect(myers("kitten", "sitting").distance).toBe(3);
+    expect(myers("intention", "execution").distance).toBe(5);
+    expect(myers("", "abc").distance).toBe(3);
+    expect(myers("abc", "").distance).toBe(3);
+    expect(myers("", "").distance).toBe(0);
+  });
+
+  it("rebuilds the same table as the cell-by-cell fill", () => {
+    // columns where a carry ran and both horizontal deltas occurred, so every step of the update mattered
+    let busy = 0;
+    for (let seed = 1; seed < 120; seed++) {
+      const a = randomString(seed % 17, "abcd", seed);
+      const b = randomString(seed % 13, "abcd", seed * 7 + 1);
+      const r = myers(a, b);
+      expect(r.dp).toEqual(editDistance(a, b).dp);
+      expect(r.columns.map((c) => c.score)).toEqual(Array.from(r.dp[a.length]));
+      busy += r.columns.filter((c) => c.carry && c.ph && c.mh).length;
+    }
+    expect(busy).toBeGreaterThan(100);
+  });
+
+  it("handles more rows than a machine word", () => {
+    const a = randomString(150, "acgt", 3);
+    const b = randomString(140, "acgt", 5);
+    const r = myers(a, b);
+    expect(r.dp).toEqual(editDistance(a, b).dp);
+    // each token matches about a quarter of A, not almost all of it
+    const eq = r.columns.slice(1).reduce((sum, c) => sum + popcount(c.eq), 0);
+    expect(eq / (150 * 140)).toBeGreaterThan(0.2);
+    expect(eq / (150 * 140)).toBeLessThan(0.3);
+  });
+
+  it("records the carry of the addition", () => {
+    // "aaab" against "a": (Eq & Pv) + Pv = 0111 + 1111, so the carry runs up through the three a's
+    const c = myers("aaab", "a").columns[1];
+    expect(c.eq).toBe(0b0111n);
+    expect(c.sum).toBe(0b0110n);
+    expect(c.carry).toBe(0b1110n);
+    expect([0, 1, 2, 3].map((i) => bitAt(c.pv, i) - bitAt(c.mv, i))).toEqual([-1, 1, 1, 1]);
+  });
+});
@@ -0,0 +1,97 @@
+import type { Sequence } from "./tokenize";
+
+/**
+ * Myers' bit-parallel edit distance (unit-cost Levenshtein only), in Hyyrö's
+ * formulation for whole strings. A column of the table is never stored as
+ * numbers: only whether each cell is one more, one less or the same as the
+ * cell above it, as two bit vectors Pv / Mv with bit i − 1 standing for row i.
+ * The next column follows in a handful of bitwise operations however many rows
+ * there are. The one step that looks across rows is an addition: its carry
+ * runs a match down a stretch of cells that all stay the same.
+ *
+ * Bits are held in bigints, so A can be any length; a production version keeps
+ * one machine word per 64 rows and passes the carry between them.
+ */
+
+export type MyersColumn = {
+  /** column of the table, 0 being B's empty prefix */
+  j: number;
+  /** rows whose token in A equals B's j-th token (0 for column 0) */
+  eq: bigint;
+  /** vertical deltas of column j − 1: +1 on Pv's bits, −1 on Mv's */
+  pvIn: bigint;
+  mvIn: bigint;
+  /** rows where a vertical delta of −1 is possible: a match, or −1 already */
+  xv: bigint;
+  /** (Eq & Pv) + Pv, and the carry into each bit of that addition */
+  sum: bigint;
+  carry: bigint;
+  /** rows where a horizontal delta of −1 is possible */
+  xh: bigint;
+  /** horizontal deltas from column j − 1 to j, +1 / −1, before shifting down a row */
+  ph: bigint;
+  mh: bigint;
+  /** vertical deltas of column j */
+  pv: bigint;
+  mv: bigint;
+  /** dp[m][j]: the previous column's plus the horizontal delta in the last row */
+  score: number;
+};
+
+export type MyersResult = {
+  distance: number;
+  /** one per column, 0..n */
+  columns: MyersColumn[];
+  /** the table rebuilt from each column's vertical deltas, to check against the cell-by-cell fill */
+  dp: Float64Array[];
+};
+
+/** Bit `i` of `v`, as 0 or 1. */
+export function bitAt(v: bigint, i: number) {
+  return Number((v >> BigInt(i)) & 1n);
+}
+
+export function myers(a: Sequence, b: Sequence): MyersResult {
+  const m = a.length;
+  const n = b.length;
+  const mask = (1n << BigInt(m)) - 1n;
+  const top = BigInt(m);
+
+  // one bit vector per distinct token of A: where it occurs
+  const peq = new Map<string, bigint>();
+  for (let i = 0; i < m; i++) peq.set(a[i], (peq.get(a[i]) ?? 0n) | (1n << BigInt(i)));
+
+  // column 0 climbs by one per row
+  let pv = mask;
+  let mv = 0n;
+  let score = m;
+  const columns: MyersColumn[] = [
+    { j: 0, eq: 0n, pvIn: 0n, mvIn: 0n, xv: 0n, sum: 0n, carry: 0n, xh: 0n, ph: 0n, mh: 0n, pv, mv, score },
+  ];
+  for (let j = 1; j <= n; j++) {
+    const eq = peq.get(b[j - 1]) ?? 0n;
+    const xv = eq | mv;
+    const added = eq & pv;
+    const sum = (added + pv) & mask;
+    const carry = (sum ^ added ^ pv) & mask;
+    const xh = ((sum ^ pv) | eq) & mask;
+    const ph = (mv | ~(xh | pv)) & mask;
+    const mh = pv & xh;
+    // row 0 goes up by one per column; bit m of the shifted deltas is the last row's
+    const phDown = (ph << 1n) | 1n;
+    const mhDown = mh << 1n;
+    score += Number((phDown >> top) & 1n) - Number((mhDown >> top) & 1n);
+    const pvIn = pv;
+    const mvIn = mv;
+    pv = (mhDown | ~(xv | phDown)) & mask;
+    mv = phDown & xv & mask;
+    columns.push({ j, eq, pvIn, mvIn, xv, sum, carry, xh, ph, mh, pv, mv, score });
+  }
+
+  const dp = Array.from({ length: m + 1 }, () => new Float64Array(n + 1));
+  for (const c of columns) {
+    dp[0][c.j] = c.j;
+    for (let i = 1; i <= m; i++) dp[i][c.j] = dp[i - 1][c.j] + bitAt(c.pv, i - 1) - bitAt(c.mv, i - 1);
+  }
+  return { distance: score, columns, dp };
+}
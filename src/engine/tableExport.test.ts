@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { editDistance, formatTable } from ".";
+
+describe("formatTable", () => {
+  const r = editDistance("ab", "b");
+  const path = r.alignment().path;
+
+  it("writes CSV with the backtrace starred", () => {
+    expect(formatTable(r.tokensA, r.tokensB, r.dp, "csv", { path })).toBe(",∅,b\n∅,0*,1\na,1*,1\nb,2,1*\n");
+  });
+
+  it("quotes CSV headers that need it", () => {
+    const t = editDistance("a,", 'b"', { tokenize: "line" });
+    expect(formatTable(t.tokensA, t.tokensB, t.dp, "csv").split("\n")[0]).toBe(',∅,"b""\"');
+  });
+
+  it("writes a Markdown table with the backtrace in bold", () => {
+    expect(formatTable(r.tokensA, r.tokensB, r.dp, "markdown", { path })).toBe(
+      [
+        "|  | `∅` | `b` |",
+        "| --- | ---: | ---: |",
+        "| `∅` | **0** | 1 |",
+        "| `a` | **1** | 1 |",
+        "| `b` | 2 | **1** |",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("writes a LaTeX tabular with escaped headers", () => {
+    const t = editDistance("%", "_");
+    expect(formatTable(t.tokensA, t.tokensB, t.dp, "latex", { path: t.alignment().path })).toBe(
+      [
+        "\\begin{tabular}{c|rr}",
+        " & $\\emptyset$ & \\_ \\\\",
+        "\\hline",
+        "$\\emptyset$ & \\textbf{0} & 1 \\\\",
+        "\\% & 1 & \\textbf{1} \\\\",
+        "\\end{tabular}",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("draws a box table for the terminal with the backtrace starred", () => {
+    expect(formatTable(r.tokensA, r.tokensB, r.dp, "text", { path })).toBe(
+      [
+        "┌───┬────┬────┐",
+        "│   │ ∅  │ b  │",
+        "├───┼────┼────┤",
+        "│ ∅ │ 0* │ 1  │",
+        "│ a │ 1* │ 1  │",
+        "│ b │ 2  │ 1* │",
+        "└───┴────┴────┘",
+        "",
+      ].join("\n")
+    );
+    const t = editDistance("a b", "ab");
+    expect(formatTable(t.tokensA, t.tokensB, t.dp, "text").split("\n")[5]).toBe("│ ␣ │ 2  │ 1  │ 1  │");
+  });
+
+  it("leaves cells a banded fill skipped blank", () => {
+    const t = editDistance("abcd", "abcd", { maxDistance: 0 });
+    const csv = formatTable(t.tokensA, t.tokensB, t.dp, "csv", { skipped: t.skipped });
+    expect(csv.split("\n")[1]).toBe("∅,0,,,,");
+  });
+});
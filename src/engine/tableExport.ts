@@ -0,0 +1,121 @@
+import { formatCost } from "./editDistance";
+import type { PathCell } from "./editDistance";
+import { textWidth } from "./tokenize";
+
+/**
+ * The DP table as text for slides, handouts and the terminal. Row and column
+ * headers are the tokens (∅ for the empty prefix); cells on `path` are
+ * marked — a trailing `*` in CSV and plain text, bold in Markdown and LaTeX —
+ * and cells `skipped` says were never computed are left blank.
+ */
+export type TableFormat = "csv" | "markdown" | "latex" | "text";
+
+export type TableExportOptions = {
+  path?: readonly PathCell[];
+  skipped?: (i: number, j: number) => unknown;
+};
+
+/** a header (token text), a computed cell, or a blank */
+type Field = string | { text: string; marked: boolean } | null;
+
+function csvField(s: string) {
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function markdownField(s: string) {
+  return s.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+const LATEX_ESCAPES: Record<string, string> = {
+  "\\": "\\textbackslash{}",
+  "{": "\\{",
+  "}": "\\}",
+  $: "\\$",
+  "&": "\\&",
+  "#": "\\#",
+  "%": "\\%",
+  _: "\\_",
+  "^": "\\textasciicircum{}",
+  "~": "\\textasciitilde{}",
+  "∅": "$\\emptyset$",
+  "∞": "$\\infty$",
+};
+
+function latexField(s: string) {
+  return s.replace(/[\\{}$&#%_^~∅∞]/g, (c) => LATEX_ESCAPES[c]).replace(/\r?\n/g, " ");
+}
+
+// whitespace made visible, as the grid's headers show it
+function textField(s: string) {
+  return s === "" ? "⏎" : s.replace(/ /g, "␣").replace(/\t/g, "⇥").replace(/\r?\n/g, " ");
+}
+
+export function formatTable(
+  a: readonly string[],
+  b: readonly string[],
+  dp: readonly Float64Array[],
+  format: TableFormat,
+  { path = [], skipped }: TableExportOptions = {}
+) {
+  const onPath = new Set(path.map((c) => `${c.i},${c.j}`));
+  const header = ["", "∅", ...b];
+  const rows = dp.map((row, i): Field[] => [
+    i === 0 ? "∅" : a[i - 1],
+    ...Array.from(row, (v, j) => (skipped?.(i, j) ? null : { text: formatCost(v), marked: onPath.has(`${i},${j}`) })),
+  ]);
+
+  switch (format) {
+    case "csv": {
+      const cell = (c: Field) =>
+        c === null ? "" : typeof c === "string" ? csvField(c) : c.text + (c.marked ? "*" : "");
+      return [header, ...rows].map((r) => r.map(cell).join(",")).join("\n") + "\n";
+    }
+    case "markdown": {
+      const cell = (c: Field) =>
+        c === null ? "" : typeof c === "string" ? `\`${markdownField(c)}\`` : c.marked ? `**${c.text}**` : c.text;
+      const lines = [
+        `| ${header.map((h, k) => (k === 0 ? "" : cell(h))).join(" | ")} |`,
+        `|${header.map((_, k) => (k === 0 ? " --- " : " ---: ")).join("|")}|`,
+        ...rows.map((r) => `| ${r.map(cell).join(" | ")} |`),
+      ];
+      return lines.join("\n") + "\n";
+    }
+    case "latex": {
+      const cell = (c: Field) => {
+        if (c === null) return "";
+        if (typeof c === "string") return latexField(c);
+        return c.marked ? `\\textbf{${latexField(c.text)}}` : latexField(c.text);
+      };
+      const lines = [
+        `\\begin{tabular}{c|${"r".repeat(b.length + 1)}}`,
+        `${header.map(cell).join(" & ")} \\\\`,
+        "\\hline",
+        ...rows.map((r) => `${r.map(cell).join(" & ")} \\\\`),
+        "\\end{tabular}",
+      ];
+      return lines.join("\n") + "\n";
+    }
+    case "text": {
+      // box drawing, numbers right-aligned with room for the mark after them
+      const cell = (c: Field) =>
+        c === null ? "" : typeof c === "string" ? textField(c) : c.text + (c.marked ? "*" : " ");
+      const grid = [header.map((h, k) => (k === 0 ? "" : cell(h) + " ")), ...rows.map((r) => r.map(cell))];
+      const widths = header.map((_, k) => Math.max(...grid.map((r) => textWidth(r[k]))));
+      const pad = (s: string, k: number) => {
+        const fill = " ".repeat(widths[k] - textWidth(s));
+        return k === 0 ? s + fill : fill + s;
+      };
+      const line = (cells: string[]) => `│ ${cells.map(pad).join(" │ ")} │`;
+      const rule = (left: string, mid: string, right: string) =>
+        left + widths.map((w) => "─".repeat(w + 2)).join(mid) + right;
+      const lines = [
+        rule("┌", "┬", "┐"),
+        line(grid[0]),
+        rule("├", "┼", "┤"),
+        ...grid.slice(1).map(line),
+        rule("└", "┴", "┘"),
+      ];
+      return lines.join("\n") + "\n";
+    }
+  }
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { randomString } from "./testUtils";
+
+describe("randomString", () => {
+  it("repeats for a seed and differs between seeds", () => {
+    expect(randomString(50, "acgt", 7)).toBe(randomString(50, "acgt", 7));
+    expect(randomString(50, "acgt", 7)).not.toBe(randomString(50, "acgt", 11));
+    expect(randomString(0, "acgt", 7)).toBe("");
+  });
+
+  it.each([0, 1, 3, 5, 7, 11, 13, 17, 19, 833])("covers the whole alphabet evenly (seed %i)", (seed) => {
+    const s = randomString(400, "acgt", seed);
+    for (const letter of "acgt") {
+      const count = s.split(letter).length - 1;
+      expect(count).toBeGreaterThan(60);
+      expect(count).toBeLessThan(140);
+    }
+    // no long runs of one letter, as a truncating generator would leave
+    expect(s).not.toMatch(/(.)\1{9}/);
+  });
+});
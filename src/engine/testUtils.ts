@@ -0,0 +1,15 @@
+/** Shared by the engine's tests; not part of the public API. */
+
+// Park–Miller: every product stays below 2^53, so the sequence is exact in doubles
+const MODULUS = 2147483647;
+
+/** A reproducible pseudo-random string: the same seed always gives the same letters. */
+export function randomString(length: number, alphabet: string, seed: number) {
+  let s = (Math.abs(Math.trunc(seed)) % (MODULUS - 1)) + 1;
+  let out = "";
+  for (let k = 0; k < length; k++) {
+    s = (s * 48271) % MODULUS;
+    out += alphabet[Math.floor((s / MODULUS) * alphabet.length)];
+  }
+  return out;
+}
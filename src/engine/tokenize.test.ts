@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { editDistance, tokenize } from ".";
+
+describe("tokenize", () => {
+  it("keeps astral characters whole by code point", () => {
+    expect("a😀b".length).toBe(4);
+    expect(tokenize("a😀b", "codepoint")).toEqual(["a", "😀", "b"]);
+  });
+
+  it("keeps emoji sequences and combining marks together as graphemes", () => {
+    expect(tokenize("été", "grapheme")).toEqual(["é", "t", "é"]);
+    expect(tokenize("👩‍👩‍👧!", "grapheme")).toEqual(["👩‍👩‍👧", "!"]);
+    expect(tokenize("🇯🇵", "codepoint")).toHaveLength(2);
+    expect(tokenize("🇯🇵", "grapheme")).toEqual(["🇯🇵"]);
+  });
+
+  it("splits words and punctuation, dropping whitespace", () => {
+    expect(tokenize("  the quick,  brown fox. ", "word")).toEqual(["the", "quick", ",", "brown", "fox", "."]);
+    expect(tokenize("", "word")).toEqual([]);
+  });
+
+  it("splits lines, keeping blank ones", () => {
+    expect(tokenize("a\r\n\nb", "line")).toEqual(["a", "", "b"]);
+    expect(tokenize("", "line")).toEqual([]);
+  });
+});
+
+describe("editDistance over tokens", () => {
+  it("counts an emoji as one character", () => {
+    expect(editDistance("😀", "😃").distance).toBe(1);
+    expect(editDistance("café", "café", { tokenize: "grapheme" }).distance).toBe(1);
+  });
+
+  it("diffs sentences word by word", () => {
+    const r = editDistance("the quick brown fox", "the quick red fox jumps", { tokenize: "word" });
+    expect(r.tokensB).toEqual(["the", "quick", "red", "fox", "jumps"]);
+    expect(r.distance).toBe(2);
+    expect(r.alignment().rows).toEqual([
+      "the quick brown fox -----",
+      "||| ||||| xxxxx ||| +++++",
+      "the quick red   fox jumps",
+    ]);
+    expect(r.alignment().operations).toEqual([
+      { op: "replace", at: 2, from: "brown", to: "red" },
+      { op: "insert", at: 4, from: "", to: "jumps" },
+    ]);
+  });
+
+  it("diffs code line by line", () => {
+    const before = "if (x) {\n  f();\n}";
+    const after = "if (x) {\n  g();\n  f();\n}";
+    const r = editDistance(before, after, { tokenize: "line" });
+    expect(r.distance).toBe(1);
+    expect(r.alignment().operations).toEqual([{ op: "insert", at: 1, from: "", to: "  g();" }]);
+  });
+
+  it("takes already tokenized input as given", () => {
+    expect(editDistance(["GET", "/a"], ["POST", "/a"]).distance).toBe(1);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Splits input text into the units the DP compares. A string passed straight
+ * to the low-level functions is indexed by UTF-16 code unit, which cuts emoji
+ * and other astral characters in half; these modes avoid that.
+ * - codepoint: one Unicode code point per token
+ * - grapheme: user-perceived characters (emoji sequences, base + combining marks)
+ * - word: words and punctuation, whitespace dropped
+ * - line: one token per line
+ */
+export type Tokenization = "codepoint" | "grapheme" | "word" | "line";
+
+/** Either raw text (indexed by code unit) or an already tokenized sequence. */
+export type Sequence = string | readonly string[];
+
+// Intl.Segmenter is missing on some older browsers; fall back to coarser splitting there
+function segmenter(granularity: "grapheme" | "word") {
+  return typeof Intl !== "undefined" && "Segmenter" in Intl ? new Intl.Segmenter(undefined, { granularity }) : null;
+}
+
+export function tokenize(text: string, mode: Tokenization): string[] {
+  switch (mode) {
+    case "codepoint":
+      return Array.from(text);
+    case "grapheme": {
+      const seg = segmenter("grapheme");
+      return seg ? Array.from(seg.segment(text), (s) => s.segment) : Array.from(text);
+    }
+    case "word": {
+      const seg = segmenter("word");
+      const parts = seg ? Array.from(seg.segment(text), (s) => s.segment) : text.split(/\s+/);
+      return parts.filter((p) => p.trim() !== "");
+    }
+    case "line":
+      return text === "" ? [] : text.split(/\r?\n/);
+  }
+}
+
+/** What goes between tokens when several are shown as one piece of text. */
+export function tokenJoiner(mode: Tokenization) {
+  return mode === "word" || mode === "line" ? " " : "";
+}
+
+/** Text covered by tokens [from, to) of a sequence. */
+export function sliceText(seq: Sequence, from: number, to: number, joiner = "") {
+  return typeof seq === "string" ? seq.slice(from, to) : seq.slice(from, to).join(joiner);
+}
+
+/** Width for padding text columns, in code points, so an emoji doesn't count double. */
+export function textWidth(s: string) {
+  return Array.from(s).length;
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { LANGUAGES, MESSAGES, matchLanguage, textDirection } from "./i18n";
+
+// every key path of a catalog, functions and arrays counted as leaves
+function keyPaths(o: object, prefix = ""): string[] {
+  return Object.entries(o).flatMap(([k, v]) =>
+    v && typeof v === "object" && !Array.isArray(v) ? keyPaths(v, `${prefix}${k}.`) : [`${prefix}${k}`]
+  );
+}
+
+describe("i18n", () => {
+  it("translates every message of the English catalog", () => {
+    const keys = keyPaths(MESSAGES.en);
+    for (const { value } of LANGUAGES) {
+      expect(keyPaths(MESSAGES[value])).toEqual(keys);
+      expect(MESSAGES[value].tips.items).toHaveLength(MESSAGES.en.tips.items.length);
+    }
+    expect(MESSAGES.fr.inputs.lcsNote("line")).toContain("lignes différentes");
+  });
+
+  it("picks the first preferred language it speaks", () => {
+    expect(matchLanguage(["de-DE", "fr-CA", "en"])).toBe("fr");
+    expect(matchLanguage(["AR-eg"])).toBe("ar");
+    expect(matchLanguage(["de"])).toBe("en");
+    expect(matchLanguage([])).toBe("en");
+  });
+
+  it("reads the direction from the first letter", () => {
+    expect(textDirection("שלום", "abc")).toBe("rtl");
+    expect(textDirection("123 ", "مرحبا")).toBe("rtl");
+    expect(textDirection("(42) kitten", "سلام")).toBe("ltr");
+    expect(textDirection("", "  ")).toBe("ltr");
+  });
+});
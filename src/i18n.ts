@@ -0,0 +1,1886 @@
+import type {
+  Algorithm,
+  EditOperation,
+  FillOrder,
+  HirschbergFrame,
+  Layer,
+  Move,
+  Op,
+  TableFormat,
+  Tokenization,
+} from "./engine";
+
+/**
+ * The page's words in every language it speaks. English is the reference
+ * catalog and fixes the shape; every other language must fill in all of it,
+ * so a missing string is a type error rather than a blank label. Messages that
+ * embed values are functions, so each language can order the sentence its own
+ * way.
+ */
+
+export type Direction = "ltr" | "rtl";
+
+/** What a token counts as, for "A char (row)" and the LCS note. */
+export type Unit = "char" | "word" | "line";
+
+const en = {
+  header: {
+    title: "Edit Distance Visualizer",
+    intro:
+      "Watch the Levenshtein DP table fill in real time. Step through each cell, see the candidate operations (insert / delete / replace / match) with their weights, and optionally highlight one optimal backtrace.",
+    highContrast: "High contrast",
+    reduceMotion: "Reduce motion",
+    language: "Language",
+  },
+  toolbar: {
+    examples: "Examples…",
+    classic: "Classic",
+    saved: "Saved",
+    savePreset: "Save preset",
+    presetName: "Preset name",
+    clearSaved: "Clear saved",
+    confirmClear: (count: number) => `Delete ${count} saved preset(s)?`,
+    export: "Export…",
+    exportGroups: { frame: "This frame", playback: "Fill + backtrace", table: "Table" },
+    exports: {
+      svg: "SVG image",
+      png: "PNG image",
+      gif: "Animated GIF",
+      webm: "WebM video",
+      csv: "CSV",
+      markdown: "Markdown",
+      latex: "LaTeX tabular",
+      text: "Plain text (box drawing)",
+    } satisfies Record<"svg" | "png" | "gif" | "webm" | TableFormat, string>,
+    recording: (format: string) => `Recording ${format}…`,
+    cancel: "Cancel",
+    exportLimit: (cells: string) => `Image and video exports are limited to ${cells} cells; tables export at any size.`,
+    gifLimit: (cells: string) => `GIF exports are limited to ${cells} cells; WebM records larger tables.`,
+    exportFailed: (error: string) => `Export failed: ${error}`,
+    copyLink: "Copy link to this frame",
+    linkCopied: "Link copied",
+    presets: {
+      intention: "intention → execution",
+      kitten: "kitten → sitting",
+      sunday: "sunday → saturday",
+      empty: "empty strings",
+      emptyToAbc: "empty → abc",
+      identical: "identical strings",
+      transposition: "transposition (ca → abc)",
+      lcs: "LCS (ABCBDAB / BDCABA)",
+      smithWaterman: "Smith–Waterman (TGTTACGG / GGTTGACTA)",
+      threshold: "threshold k = 2 (intention → execution)",
+      compareReplace: "compare replace 1 vs 2 (sunday → saturday)",
+      findBrown: "find brown in a text (k = 1)",
+      wordList: "word-list search (appel)",
+    },
+  },
+  inputs: {
+    a: { string: "String A (rows)", text: "Text A (rows)", query: "Query A (rows)" },
+    b: { string: "String B (cols)", pattern: "Pattern B (cols)", list: "Word list (one candidate per line)" },
+    findBInA: "Find B in A",
+    searchList: "Search a word list",
+    exampleA: "e.g. kitten",
+    exampleB: "e.g. sitting",
+    oneTokenPerLine: "one token\nper line",
+    compareBy: "Compare by",
+    direction: "Text direction",
+    directions: { auto: "Auto (from the strings)", ltr: "Left to right", rtl: "Right to left" },
+    algorithm: "Algorithm",
+    method: "Method",
+    maxDistance: "Max distance k",
+    off: "off",
+    weights: { insert: "Insert", delete: "Delete", replace: "Replace", transpose: "Transpose", gapOpen: "Gap open" },
+    scores: { match: "Match", mismatch: "Mismatch", gap: "Gap" },
+    substitutions: "Substitution costs",
+    onePairPerLine: "(one pair per line)",
+    ignoredLines: (lines: number[]) =>
+      `Ignored line${lines.length > 1 ? "s" : ""} ${lines.join(", ")} (expected “char char cost”).`,
+    lcsNote: (unit: Unit) => `One point per matching ${unit}; gaps are free and different ${unit}s never pair up.`,
+  },
+  titles: {
+    substring: "Match B against any stretch of A: the first column is all 0 and any row can end",
+    substringUnavailable: "Substring search needs Levenshtein, OSA or Damerau–Levenshtein",
+    methodUnavailable:
+      "Hirschberg splits rows, which transpositions cross, and Myers' bit vectors only track unit steps",
+    myersNeedsUnitCosts: "The bit-parallel mode needs unit costs",
+    maxDistance: {
+      search: "Keep only candidates within k, pruning the trie",
+      substring: "Report every end position within k",
+      hirschberg: "Hirschberg always scores whole rows",
+      myers: "The bit-parallel mode always computes whole columns",
+      similarity: "A similarity score has no distance to bound",
+      affine: "Not available with affine gaps",
+      band: "Fill only the diagonal band |i − j| ≤ k",
+    },
+    bandedFillOrder: "A banded fill goes row by row so it can stop early",
+    compare: "Run a second configuration on the same strings, side by side",
+    compareFullTables: "Compares two full tables",
+    compareInPractice: "Not available in practice mode",
+    practice: "Fill the cells yourself, then trace the path back",
+    practiceHirschberg: "Hirschberg never fills the table",
+    practiceMyers: "The bit-parallel mode computes whole columns at once",
+  },
+  algorithms: {
+    levenshtein: "Levenshtein",
+    osa: "Optimal string alignment",
+    damerau: "Damerau–Levenshtein",
+    gotoh: "Affine gaps (Gotoh)",
+    lcs: "Longest common subsequence",
+    "needleman-wunsch": "Needleman–Wunsch (global)",
+    "smith-waterman": "Smith–Waterman (local)",
+  } satisfies Record<Algorithm, string>,
+  tokenizations: {
+    codepoint: "Code point",
+    grapheme: "Grapheme cluster",
+    word: "Word",
+    line: "Line",
+  } satisfies Record<Tokenization, string>,
+  methods: { full: "Full table", hirschberg: "Hirschberg (linear space)", myers: "Bit-parallel (Myers)" },
+  fillOrders: {
+    "row-major": "Row-major",
+    "column-major": "Column-major",
+    "anti-diagonal": "Anti-diagonal (wavefront)",
+  } satisfies Record<FillOrder, string>,
+  layerViews: {
+    min: "min(M, X, Y)",
+    M: "M · match / replace",
+    X: "X · delete",
+    Y: "Y · insert",
+    stacked: "Stacked",
+  } satisfies Record<"min" | Layer | "stacked", string>,
+  playback: {
+    play: "Play",
+    pause: "Pause",
+    back: "Back",
+    step: "Step",
+    reset: "Reset",
+    speed: "Speed",
+    fillOrder: "Fill order",
+    wholeDiagonal: "Whole diagonal per tick",
+    compare: "Compare",
+    practice: "Practice",
+    showBacktrace: "Show optimal backtrace",
+    optimalAlignments: "Optimal alignments:",
+    moreThan: (count: string) => `more than ${count}`,
+    prev: "‹ Prev",
+    next: "Next ›",
+    alignmentOf: (k: string, total: string) => `#${k} of ${total}`,
+    tracingHit: (row: number) =>
+      `Tracing back the tie-break's alignment from row ${row}; pick the best match to page through ties.`,
+    tieBreak: "Tie-break",
+    phases: { hirschberg: "Hirschberg", bitParallel: "Bit-parallel", backtrace: "Backtrace", fill: "Fill" },
+    stepOf: "Step",
+    timeline: "Timeline",
+    matrix: "Matrix",
+    left: "Left",
+    right: "Right",
+    scriptPending: "The alignment and edit script are built during the backtrace phase, after the last cell is filled.",
+    moves: {
+      diagonal: "diagonal",
+      transpose: "transpose",
+      delete: "delete",
+      insert: "insert",
+    } satisfies Record<Move, string>,
+    caption: (phase: string, step: number, total: number) => `${phase} · step ${step} / ${total}`,
+  },
+  band: {
+    summary: (width: number, filled: string, cells: string, skipped: number) =>
+      `Band |i − j| ≤ ${width}: ${filled} of ${cells} cells filled (${skipped}% skipped).`,
+    outside: (m: number, n: number, width: number) =>
+      `|${m} − ${n}| > ${width}: (${m}, ${n}) lies outside the band, so the distance exceeds k before anything is filled.`,
+    rowOver: (row: number, k: string, min: string, m: number, n: number) =>
+      `Every band cell of row ${row} exceeds k = ${k} (the smallest is ${min}), and every path to (${m}, ${n}) crosses that row, so the run stopped there.`,
+    rowsOver: (first: number, last: number, k: string, m: number, n: number) =>
+      `Every band cell of rows ${first} to ${last} exceeds k = ${k}, and no transposition within k can jump all of them on the way to (${m}, ${n}), so the run stopped there.`,
+    lastRowOver: (m: number, n: number, value: string) =>
+      `The last row was reached, but dp[${m}][${n}] = ${value} > k.`,
+    skipped: "Skipped",
+    pruned: (i: number, j: number, width: number, k: string) =>
+      `|${i} − ${j}| = ${Math.abs(i - j)} > ${width}: reaching this cell takes that many inserts or deletes, which already cost more than k = ${k}, so it was pruned.`,
+    notReached: (row: number, reason: string) => `Row ${row} was never reached. ${reason}`,
+  },
+  optimum: { distance: "Distance", lcsLength: "LCS length", score: "Score", bestMatch: "Best match" },
+  cell: {
+    title: "Current Cell",
+    ops: {
+      match: "Match",
+      replace: "Replace",
+      insert: "Insert",
+      delete: "Delete",
+      transpose: "Transpose",
+      init: "Init",
+    } satisfies Record<Op, string>,
+    zeroFloor: "Zero floor (start here)",
+    units: { char: "char", word: "word", line: "line" } satisfies Record<Unit, string>,
+    tokenA: (unit: string) => `A ${unit} (row)`,
+    tokenB: (unit: string) => `B ${unit} (col)`,
+    backtrace: (k: number, total: number) => `Backtrace · cell ${k} of ${total}`,
+    cameFrom: "Came from",
+    by: {
+      match: "by match",
+      replace: "by replace",
+      insert: "by insert",
+      delete: "by delete",
+      transpose: "by transpose",
+      init: "by starting here",
+    } satisfies Record<Op, string>,
+    tiesPicked: (count: number) => `${count} predecessors tie here; the tie-break order picks this one.`,
+    tiesBranch: (count: number, k: number) => `${count} predecessors tie here; alignment #${k} takes this branch.`,
+    onlyPredecessor: "It is the only predecessor that reaches this value.",
+    complete: (i: number, j: number) => `Reached (${i}, ${j}): the alignment is complete.`,
+    candidates: "Candidates",
+    from: "from",
+    tie: "tie",
+  },
+  rule: {
+    title: "Rule",
+    delete: "delete",
+    insert: "insert",
+    matchReplace: "match/replace",
+    transposeOsa: "transpose, if aᵢ₋₁aᵢ = bⱼbⱼ₋₁",
+    transposeDamerau: "transpose, k = last row with aₖ = bⱼ, l = last column with bₗ = aᵢ",
+    cost: (replace: string) => `cost(a, b) = 0 if a = b, else ${replace}`,
+    substitutionOverride: " unless overridden by a substitution pair",
+    affine: (open: string, replace: string) =>
+      `M ends in a match or replace, X in a delete, Y in an insert. Staying in X or Y extends a gap; entering it opens one for ${open} more. cost(a, b) = 0 if a = b, else ${replace}.`,
+    gap: "gap",
+    lcsMatch: "match, only if aᵢ = bⱼ",
+    zeroEdges: "The first row and column are 0.",
+    startHere: "start here",
+    matchMismatch: "match/mismatch",
+    score: (match: string, mismatch: string) => `s(a, b) = ${match} if a = b, else ${mismatch}.`,
+    local: "The first row and column are 0; the traceback starts at the best cell and stops where a 0 restarted.",
+    global: (gap: string) => `The first row and column are i·${gap} and j·${gap}.`,
+  },
+  tips: {
+    title: "Quick tips",
+    items: [
+      "Diagonal is match/replace; up is delete; left is insert (right in a right-to-left grid).",
+      'Pick OSA or Damerau–Levenshtein to let "ab" → "ba" cost one transpose instead of two replaces.',
+      "With “Show optimal backtrace” on, playback continues past the last cell and walks the path back to (0, 0), shading every cell on some optimal path; Prev / Next pages through each alignment.",
+      "Affine gaps (Gotoh) charge “gap open” once per run of inserts or deletes, using three matrices; pick one above the grid or stack them, and watch the backtrace switch between them.",
+      "LCS, Needleman–Wunsch and Smith–Waterman maximize a score on the same grid: insert / delete are gaps and replace is a mismatch. Smith–Waterman traces back from its best cell, wherever it is.",
+      "Hirschberg mode (Levenshtein only) never fills the table: it scores one middle row from both ends, splits there and recurses, shading the open regions.",
+      "Bit-parallel mode (unit-cost Levenshtein) computes a whole column per step from bit vectors of ±1 deltas, the way Myers' algorithm does; the side panel shows every vector and the carry of its addition.",
+      "Set a max distance k to fill only the diagonal band a path within k can use, stopping once a whole row exceeds k; hover a greyed-out cell to see why it was skipped.",
+      "Tick “Search a word list” to rank every line against A; results sharing a prefix reuse its DP rows from a trie, and clicking one opens it here with the reused columns tinted green.",
+      "Tick “Find B in A” to look for B inside A: a match may start at any row, so the first column is all 0, and every row of the last column within k ends one. Click a marked match to trace it back.",
+      "Export… saves this frame as SVG / PNG, records the whole fill and backtrace as a GIF or WebM at the current speed, or dumps the table with the backtrace marked as CSV, Markdown, LaTeX or plain text.",
+      "Compare runs a second configuration on the same strings beside the first, on one timeline: cells with a different value are filled pink, cells whose tie-break picks another operation are dashed, and the summary lists the edits only one side makes.",
+      "Practice mode hides the answers: type each cell's value in the grid (and pick its operation if you like), press Enter to check it, then click your way back along an optimal path.",
+      "Arabic or Hebrew strings mirror the grid (see “Text direction”): column 1 sits next to the row headers on the right and the arrows point the other way, while i and j keep their meaning.",
+      "Space plays / pauses, ← / → step, Home / End jump; click a filled cell to rewind to it.",
+      "Tab into the grid to move cell by cell with the arrow keys (Home / End for the row's ends, with Ctrl for the corners) and press Enter to rewind to a cell; screen readers hear each step as it plays.",
+      'Try small strings first (e.g. "kitten" → "sitting").',
+    ],
+  },
+  footer: (order: string, local: boolean) =>
+    `Deterministic tie-break: ${order} (alignment #1 follows it; tied candidates are all kept as optimal parents${
+      local ? "; a cell the zero floor reaches starts the alignment, before any move" : ""
+    }).`,
+  compare: {
+    heading: (side: string, label: string) => `${side}: ${label.toLowerCase()}`,
+    alignment: (k: number, summary: string) => `alignment #${k}: ${summary}`,
+    editCount: (count: number, op: EditOperation["op"]) => `${count} ${op}`,
+    separator: ", ",
+    noEdits: "no edits",
+    cellsDiffer: (values: string, cells: string, ops: string) =>
+      `${values} of ${cells} cells differ in value (filled pink) and ${ops} in the operation the tie-break picks (dashed).`,
+    sharedPath: (shared: number, left: number, right: number) =>
+      `The two paths share ${shared} of ${left} / ${right} cells.`,
+    tooLarge: (cells: string) => `Past ${cells} cells the tables aren't compared cell by cell.`,
+    sameEdits: "Both alignments make the same edits.",
+    onlyLeft: "Only left",
+    onlyRight: "Only right",
+    nothing: "nothing",
+    settings: "Right side",
+    shared: "(A, B, tokens, scores and substitutions are shared)",
+  },
+  edits: {
+    replace: (from: string, to: string, at: number) => `replace '${from}'→'${to}' at ${at}`,
+    transpose: (from: string, to: string, at: number) => `transpose '${from}'→'${to}' at ${at}`,
+    insert: (to: string, at: number) => `insert '${to}' at ${at}`,
+    delete: (from: string, at: number) => `delete '${from}' at ${at}`,
+  },
+  script: {
+    title: "Alignment / edit script",
+    exportText: "Export text",
+    exportJson: "Export JSON",
+    noEdits: "No edits needed.",
+  },
+  search: {
+    found: (hits: string, candidates: string, k: number | null) =>
+      `${hits} of ${candidates} candidates${k !== null ? ` within k = ${k}` : ""}`,
+    trie: (filled: string, rows: string, reused: string, pruned: string | null) =>
+      `Trie filled ${filled} of ${rows} rows · ${reused} reused${pruned ? ` · ${pruned} pruned past k` : ""}`,
+    noneWithin: "No candidate is within k.",
+    pasteList: "Paste a word list to search it.",
+    allNew: "all rows new",
+    sharedRows: (rows: number, from: string) => `${rows} row${rows > 1 ? "s" : ""} from “${from}”`,
+    more: (count: string) => `… and ${count} more.`,
+    explain: (otherAlgorithm: boolean) =>
+      `Ranked by Levenshtein with the weights below${otherAlgorithm ? "; the opened pair uses the chosen algorithm" : ""}. Each trie node holds one DP row, its prefix scored against all of A (a column of the grid), so candidates sharing a prefix share those rows. Click a result to step through it.`,
+    reused: (cols: number, prefix: string, from: string) =>
+      `Columns 0–${cols} (“${prefix}”) are trie rows the search already filled for “${from}”: each is one prefix scored against all of A.`,
+    newWork: (first: number, last: number) => `Only columns ${first}–${last} were new work for this candidate.`,
+    noNewWork: "Nothing was new work for this candidate.",
+  },
+  hits: {
+    within: (count: number, k: number) =>
+      `${count.toLocaleString()} end position${count > 1 ? "s" : ""} within k = ${k}`,
+    atBest: (count: number, best: string) =>
+      `${count.toLocaleString()} end position${count > 1 ? "s" : ""} at the best cost, ${best}`,
+    none: (k: number | null, best: string) => `No match within k = ${k}; the best costs ${best}.`,
+    rows: (start: number, end: number) => `rows ${start}–${end}`,
+    explain:
+      "Sellers' variant: the first column is all 0, so a match can start at any row of A for free, and row i of the last column is the cheapest match of B ending with A's i-th token. Its start is where the backtrace from there reaches the first column. Click a match to trace it back.",
+  },
+  practice: {
+    title: "Practice",
+    fill: "Fill the table",
+    traceBack: "Trace back",
+    done: "Done",
+    versus: (a: string, b: string) => `${a} vs ${b}`,
+    typeCell: (i: number, j: number) => `Type dp[${i}][${j}] into the outlined cell and press Enter.`,
+    operation: "Operation (optional)",
+    check: "Check",
+    hint: "Hint",
+    noTrace: (optimum: string) => `${optimum} is past k, so there is no alignment to trace back.`,
+    traceFrom: (i: number, j: number) =>
+      `The table is full. Now trace an optimal path back: click the cell the path reaches (${i}, ${j}) from.`,
+    yourPath: (k: string | null, total: string, first: boolean) =>
+      `Your path is ${k === null ? "an optimal alignment" : `optimal alignment #${k}`} of ${total}${
+        first ? ", the one the tie-break picks" : ""
+      }.`,
+    typeNumber: "Type a number (∞ for infinity).",
+    wrongValue: (value: string, at: string) => `${value} isn't ${at}. Check the candidates, or ask for a hint.`,
+    wrongOp: (at: string, value: string, op: string, ops: string) =>
+      `${at} = ${value} is right, but ${op} doesn't reach it: ${ops} does.`,
+    right: (at: string, value: string, ops: string | null) => `${at} = ${value}${ops ? `, by ${ops}` : ""}.`,
+    noStep: (fromI: number, fromJ: number, i: number, j: number) =>
+      `No optimal path steps from (${fromI}, ${fromJ}) to (${i}, ${j}).`,
+    score: "Score",
+    finalScore: "Final score",
+    firstTry: (right: number, asked: number) => `Cells right first time: ${right} / ${asked}`,
+    ops: (right: number, asked: number) => `operations: ${right} / ${asked}`,
+    hints: (used: number) => `hints: ${used}`,
+    traceMistakes: (count: number) => `wrong trace clicks: ${count}`,
+    startOver: "Start over",
+  },
+  hirschberg: {
+    title: "Hirschberg",
+    frames: {
+      forward: "Forward half",
+      reverse: "Reverse half",
+      split: "Split",
+      solve: "Solve sliver",
+    } satisfies Record<HirschbergFrame["kind"], string>,
+    region: "Region",
+    depth: (depth: number) => `depth ${depth}`,
+    forward: (top: number, row: number) =>
+      `Run the DP down from row ${top} to the middle row ${row}, keeping only two rows: each value is the cost from (0, 0) to that cell of row ${row}.`,
+    reverse: (bottom: number, right: number, row: number) =>
+      `Run the same DP backwards from (${bottom}, ${right}) up to row ${row}: each value is the cost from that cell to the region's corner.`,
+    split: (ties: number[], row: number, col: number, upper: string, lower: string) =>
+      `Forward + reverse is smallest at column${ties.length > 1 ? "s" : ""} ${ties.join(", ")}, so an optimal path crosses row ${row} there${
+        ties.length > 1 ? "; the tie-break's path crosses" : ""
+      } at (${row}, ${col}). Recurse on ${upper} and ${lower}.`,
+    solve: (bottom: number, right: number, ops: string) =>
+      `At most two rows left: fill them outright and walk back from (${bottom}, ${right}): ${ops}.`,
+    nothingToDo: "nothing to do",
+    assembling: "The alignment is assembled from the solved slivers once the last region is done.",
+    done: (distance: string, frames: number) =>
+      `Distance ${distance} after ${frames} frames, holding at most two rows of scores at a time.`,
+    sameAlignment: "The assembled path is the same alignment the full table's backtrace picks (#1).",
+    otherAlignment: "The assembled path differs from the full table's backtrace.",
+    colourKey:
+      "Sky: forward scores · rose: reverse scores · amber: columns where their sum is minimal · outlines: the regions still open, innermost solid · shaded: path found so far.",
+  },
+  myers: {
+    column: (j: number) => `Column ${j}`,
+    emptyPrefix: "B's empty prefix",
+    token: "B's token",
+    column0: (m: number) =>
+      `Column 0 is 0, 1, …, ${m}: every cell is one more than the cell above it, so Pv has all ${m} bits set and Mv none. Only these deltas are kept, never the values.`,
+    step: (prev: number, j: number) =>
+      `Eq marks the rows of A holding this token. Adding Pv to Eq & Pv sends a carry up from each match through rows that were +1 in the previous column; Xh collects where a −1 can come from the left. Ph / Mh are the deltas from column ${prev} to ${j}; shifted down a row (row 0 always gains one) they give the new Pv / Mv, and the last row's delta moves the score.`,
+    row: (i: number) => `row ${i}`,
+    carry: "carry",
+    sum: "sum",
+    plusIn: (column: string) => `+1 in column ${column}`,
+    minusIn: (column: string) => `−1 in column ${column}`,
+    carryOf: (sum: string) => `of ${sum}`,
+    showingRows: (shown: number, m: number) => `Showing rows 1–${shown} of ${m}.`,
+    done: (distance: number, columns: number, m: number) =>
+      `Distance ${distance} after ${columns} columns, each a fixed number of operations on ${m}-bit vectors.`,
+    matches: "The values rebuilt from Pv / Mv match the full table in every column.",
+    mismatch: (j: number) => `The values rebuilt from Pv / Mv differ from the full table in column ${j}.`,
+    noBacktrace: "There is no backtrace: switch to Full table for an alignment.",
+    colourKey: (m: number) =>
+      `Bits read like a binary number: row ${m} on the left, row 1 on the right. Rose: +1 deltas · emerald: −1 deltas · sky: matches · amber: carries · outline: the column just computed.`,
+  },
+  grid: {
+    table: "DP table",
+    leftTable: "Left DP table",
+    rightTable: "Right DP table",
+    cell: (i: number, row: string, j: number, col: string, value: string) =>
+      `row ${i} ${row}, column ${j} ${col}: ${value}`,
+    empty: "empty",
+    skipped: "skipped",
+    notFilled: "not filled yet",
+    onPath: ", on the path",
+    delete: "delete",
+    insert: "insert",
+    matchReplace: "match / replace",
+    transposeFrom: (i: number, j: number) => `transpose from (${i}, ${j})`,
+    overview: (rows: number, cols: number) => `Overview · ${rows} × ${cols} cells · click to jump`,
+    colours: "Colours",
+  },
+  narration: {
+    nothing: "nothing",
+    emptyLine: "empty line",
+    space: "space",
+    tab: "tab",
+    cell: (i: number, j: number) => `cell ${i},${j}`,
+    inLayer: (layer: string) => ` in ${layer}`,
+    match: (a: string) => `match ${a}`,
+    replace: (a: string, b: string) => `replace ${a} with ${b}`,
+    insert: (b: string) => `insert ${b}`,
+    delete: (a: string) => `delete ${a}`,
+    transpose: (first: string, second: string) => `transpose ${first} ${second}`,
+    emptyPrefixes: "empty prefixes",
+    startHere: "start here",
+    cost: "cost",
+    score: "score",
+    from: "from",
+    prompt: (a: string, b: string) => `${a} against ${b}, your turn`,
+    backtrace: "backtrace",
+    traceAt: (i: number, j: number) => `your trace is at cell ${i},${j}`,
+    forwardRow: (row: number, left: number, right: number, top: number) =>
+      `forward half-row ${row}, columns ${left} to ${right}, from row ${top}`,
+    reverseRow: (row: number, left: number, right: number, bottom: number) =>
+      `reverse half-row ${row}, columns ${left} to ${right}, from row ${bottom}`,
+    split: (row: number, col: number) => `split at row ${row}, column ${col}`,
+    solved: (top: number, bottom: number, left: number, right: number) =>
+      `solved rows ${top} to ${bottom}, columns ${left} to ${right}`,
+    column: (j: number) => `column ${j}`,
+    lastRow: (score: number) => `${score} in the last row`,
+  },
+};
+
+export type Messages = typeof en;
+
+const es: Messages = {
+  header: {
+    title: "Visualizador de distancia de edición",
+    intro:
+      "Mira cómo se rellena en tiempo real la tabla de programación dinámica de Levenshtein. Recorre cada celda, ve las operaciones candidatas (insertar / borrar / sustituir / coincidir) con sus pesos y, si quieres, resalta un retroceso óptimo.",
+    highContrast: "Alto contraste",
+    reduceMotion: "Reducir movimiento",
+    language: "Idioma",
+  },
+  toolbar: {
+    examples: "Ejemplos…",
+    classic: "Clásicos",
+    saved: "Guardados",
+    savePreset: "Guardar ajuste",
+    presetName: "Nombre del ajuste",
+    clearSaved: "Borrar guardados",
+    confirmClear: (count) => `¿Borrar ${count} ajuste(s) guardado(s)?`,
+    export: "Exportar…",
+    exportGroups: { frame: "Este fotograma", playback: "Relleno + retroceso", table: "Tabla" },
+    exports: {
+      svg: "Imagen SVG",
+      png: "Imagen PNG",
+      gif: "GIF animado",
+      webm: "Vídeo WebM",
+      csv: "CSV",
+      markdown: "Markdown",
+      latex: "Tabla LaTeX (tabular)",
+      text: "Texto plano (con recuadros)",
+    },
+    recording: (format) => `Grabando ${format}…`,
+    cancel: "Cancelar",
+    exportLimit: (cells) =>
+      `Las imágenes y los vídeos se limitan a ${cells} celdas; las tablas se exportan a cualquier tamaño.`,
+    gifLimit: (cells) => `Los GIF se limitan a ${cells} celdas; WebM graba tablas más grandes.`,
+    exportFailed: (error) => `La exportación falló: ${error}`,
+    copyLink: "Copiar enlace a este fotograma",
+    linkCopied: "Enlace copiado",
+    presets: {
+      intention: "intention → execution",
+      kitten: "kitten → sitting",
+      sunday: "sunday → saturday",
+      empty: "cadenas vacías",
+      emptyToAbc: "vacía → abc",
+      identical: "cadenas idénticas",
+      transposition: "transposición (ca → abc)",
+      lcs: "LCS (ABCBDAB / BDCABA)",
+      smithWaterman: "Smith–Waterman (TGTTACGG / GGTTGACTA)",
+      threshold: "umbral k = 2 (intention → execution)",
+      compareReplace: "comparar sustitución 1 y 2 (sunday → saturday)",
+      findBrown: "buscar brown en un texto (k = 1)",
+      wordList: "búsqueda en una lista (appel)",
+    },
+  },
+  inputs: {
+    a: { string: "Cadena A (filas)", text: "Texto A (filas)", query: "Consulta A (filas)" },
+    b: { string: "Cadena B (columnas)", pattern: "Patrón B (columnas)", list: "Lista de palabras (una por línea)" },
+    findBInA: "Buscar B en A",
+    searchList: "Buscar en una lista",
+    exampleA: "p. ej. kitten",
+    exampleB: "p. ej. sitting",
+    oneTokenPerLine: "un token\npor línea",
+    compareBy: "Comparar por",
+    direction: "Dirección del texto",
+    directions: {
+      auto: "Automática (según las cadenas)",
+      ltr: "De izquierda a derecha",
+      rtl: "De derecha a izquierda",
+    },
+    algorithm: "Algoritmo",
+    method: "Método",
+    maxDistance: "Distancia máxima k",
+    off: "sin límite",
+    weights: {
+      insert: "Insertar",
+      delete: "Borrar",
+      replace: "Sustituir",
+      transpose: "Transponer",
+      gapOpen: "Abrir hueco",
+    },
+    scores: { match: "Coincidencia", mismatch: "Discrepancia", gap: "Hueco" },
+    substitutions: "Costes de sustitución",
+    onePairPerLine: "(un par por línea)",
+    ignoredLines: (lines) =>
+      `Se ${lines.length > 1 ? "ignoraron las líneas" : "ignoró la línea"} ${lines.join(", ")} (se esperaba “car car coste”).`,
+    lcsNote: (unit) => {
+      const [one, many] = {
+        char: ["carácter", "caracteres"],
+        word: ["palabra", "palabras"],
+        line: ["línea", "líneas"],
+      }[unit];
+      return `Un punto por cada ${one} que coincide; los huecos no cuestan nada y nunca se emparejan ${many} diferentes.`;
+    },
+  },
+  titles: {
+    substring: "Compara B con cualquier tramo de A: la primera columna es toda 0 y cualquier fila puede terminar",
+    substringUnavailable: "La búsqueda de subcadenas necesita Levenshtein, OSA o Damerau–Levenshtein",
+    methodUnavailable:
+      "Hirschberg divide filas, que las transposiciones cruzan, y los vectores de bits de Myers solo siguen pasos unitarios",
+    myersNeedsUnitCosts: "El modo de paralelismo de bits necesita costes unitarios",
+    maxDistance: {
+      search: "Conserva solo los candidatos dentro de k y poda el trie",
+      substring: "Informa de cada posición final dentro de k",
+      hirschberg: "Hirschberg siempre puntúa filas enteras",
+      myers: "El modo de paralelismo de bits siempre calcula columnas enteras",
+      similarity: "Una puntuación de similitud no tiene distancia que acotar",
+      affine: "No disponible con huecos afines",
+      band: "Rellena solo la banda diagonal |i − j| ≤ k",
+    },
+    bandedFillOrder: "Un relleno por bandas va fila a fila para poder detenerse antes",
+    compare: "Ejecuta una segunda configuración con las mismas cadenas, una al lado de la otra",
+    compareFullTables: "Compara dos tablas completas",
+    compareInPractice: "No disponible en el modo práctica",
+    practice: "Rellena tú las celdas y luego recorre el camino hacia atrás",
+    practiceHirschberg: "Hirschberg nunca rellena la tabla",
+    practiceMyers: "El modo de paralelismo de bits calcula columnas enteras de una vez",
+  },
+  algorithms: {
+    levenshtein: "Levenshtein",
+    osa: "Alineamiento óptimo de cadenas (OSA)",
+    damerau: "Damerau–Levenshtein",
+    gotoh: "Huecos afines (Gotoh)",
+    lcs: "Subsecuencia común más larga",
+    "needleman-wunsch": "Needleman–Wunsch (global)",
+    "smith-waterman": "Smith–Waterman (local)",
+  },
+  tokenizations: {
+    codepoint: "Punto de código",
+    grapheme: "Grafema",
+    word: "Palabra",
+    line: "Línea",
+  },
+  methods: { full: "Tabla completa", hirschberg: "Hirschberg (espacio lineal)", myers: "Paralelismo de bits (Myers)" },
+  fillOrders: {
+    "row-major": "Por filas",
+    "column-major": "Por columnas",
+    "anti-diagonal": "Por antidiagonales (frente de onda)",
+  },
+  layerViews: {
+    min: "min(M, X, Y)",
+    M: "M · coincidir / sustituir",
+    X: "X · borrar",
+    Y: "Y · insertar",
+    stacked: "Apiladas",
+  },
+  playback: {
+    play: "Reproducir",
+    pause: "Pausa",
+    back: "Atrás",
+    step: "Paso",
+    reset: "Reiniciar",
+    speed: "Velocidad",
+    fillOrder: "Orden de relleno",
+    wholeDiagonal: "Una diagonal entera por tic",
+    compare: "Comparar",
+    practice: "Práctica",
+    showBacktrace: "Mostrar retroceso óptimo",
+    optimalAlignments: "Alineamientos óptimos:",
+    moreThan: (count) => `más de ${count}`,
+    prev: "‹ Anterior",
+    next: "Siguiente ›",
+    alignmentOf: (k, total) => `n.º ${k} de ${total}`,
+    tracingHit: (row) =>
+      `Retrocediendo el alineamiento del desempate desde la fila ${row}; elige la mejor coincidencia para recorrer los empates.`,
+    tieBreak: "Desempate",
+    phases: { hirschberg: "Hirschberg", bitParallel: "Paralelismo de bits", backtrace: "Retroceso", fill: "Relleno" },
+    stepOf: "Paso",
+    timeline: "Línea de tiempo",
+    matrix: "Matriz",
+    left: "Izquierda",
+    right: "Derecha",
+    scriptPending:
+      "El alineamiento y el guion de edición se construyen durante el retroceso, después de rellenar la última celda.",
+    moves: { diagonal: "diagonal", transpose: "transponer", delete: "borrar", insert: "insertar" },
+    caption: (phase, step, total) => `${phase} · paso ${step} / ${total}`,
+  },
+  band: {
+    summary: (width, filled, cells, skipped) =>
+      `Banda |i − j| ≤ ${width}: ${filled} de ${cells} celdas rellenadas (${skipped}% omitidas).`,
+    outside: (m, n, width) =>
+      `|${m} − ${n}| > ${width}: (${m}, ${n}) queda fuera de la banda, así que la distancia supera k antes de rellenar nada.`,
+    rowOver: (row, k, min, m, n) =>
+      `Todas las celdas de la banda en la fila ${row} superan k = ${k} (la menor vale ${min}) y todo camino hasta (${m}, ${n}) cruza esa fila, así que el cálculo se detuvo ahí.`,
+    rowsOver: (first, last, k, m, n) =>
+      `Todas las celdas de la banda en las filas ${first} a ${last} superan k = ${k} y ninguna transposición dentro de k puede saltarlas todas camino de (${m}, ${n}), así que el cálculo se detuvo ahí.`,
+    lastRowOver: (m, n, value) => `Se llegó a la última fila, pero dp[${m}][${n}] = ${value} > k.`,
+    skipped: "Omitida",
+    pruned: (i, j, width, k) =>
+      `|${i} − ${j}| = ${Math.abs(i - j)} > ${width}: llegar a esta celda exige otras tantas inserciones o borrados, que ya cuestan más que k = ${k}, así que se podó.`,
+    notReached: (row, reason) => `Nunca se llegó a la fila ${row}. ${reason}`,
+  },
+  optimum: {
+    distance: "Distancia",
+    lcsLength: "Longitud de la LCS",
+    score: "Puntuación",
+    bestMatch: "Mejor coincidencia",
+  },
+  cell: {
+    title: "Celda actual",
+    ops: {
+      match: "Coincidir",
+      replace: "Sustituir",
+      insert: "Insertar",
+      delete: "Borrar",
+      transpose: "Transponer",
+      init: "Inicio",
+    },
+    zeroFloor: "Suelo cero (empezar aquí)",
+    units: { char: "carácter", word: "palabra", line: "línea" },
+    tokenA: (unit) => `${unit} de A (fila)`,
+    tokenB: (unit) => `${unit} de B (columna)`,
+    backtrace: (k, total) => `Retroceso · celda ${k} de ${total}`,
+    cameFrom: "Viene de",
+    by: {
+      match: "por coincidencia",
+      replace: "por sustitución",
+      insert: "por inserción",
+      delete: "por borrado",
+      transpose: "por transposición",
+      init: "empezando aquí",
+    },
+    tiesPicked: (count) => `${count} predecesores empatan aquí; el orden de desempate elige este.`,
+    tiesBranch: (count, k) => `${count} predecesores empatan aquí; el alineamiento n.º ${k} toma esta rama.`,
+    onlyPredecessor: "Es el único predecesor que alcanza este valor.",
+    complete: (i, j) => `Se llegó a (${i}, ${j}): el alineamiento está completo.`,
+    candidates: "Candidatos",
+    from: "desde",
+    tie: "empate",
+  },
+  rule: {
+    title: "Regla",
+    delete: "borrar",
+    insert: "insertar",
+    matchReplace: "coincidir/sustituir",
+    transposeOsa: "transponer, si aᵢ₋₁aᵢ = bⱼbⱼ₋₁",
+    transposeDamerau: "transponer, k = última fila con aₖ = bⱼ, l = última columna con bₗ = aᵢ",
+    cost: (replace) => `cost(a, b) = 0 si a = b; si no, ${replace}`,
+    substitutionOverride: ", salvo que un par de sustitución diga otra cosa",
+    affine: (open, replace) =>
+      `M termina en una coincidencia o sustitución, X en un borrado, Y en una inserción. Seguir en X o Y alarga un hueco; entrar en ellas abre uno por ${open} más. cost(a, b) = 0 si a = b; si no, ${replace}.`,
+    gap: "hueco",
+    lcsMatch: "coincidencia, solo si aᵢ = bⱼ",
+    zeroEdges: "La primera fila y la primera columna valen 0.",
+    startHere: "empezar aquí",
+    matchMismatch: "coincidencia/discrepancia",
+    score: (match, mismatch) => `s(a, b) = ${match} si a = b; si no, ${mismatch}.`,
+    local:
+      "La primera fila y la primera columna valen 0; el retroceso empieza en la mejor celda y se detiene donde un 0 reinició.",
+    global: (gap) => `La primera fila y la primera columna valen i·${gap} y j·${gap}.`,
+  },
+  tips: {
+    title: "Consejos rápidos",
+    items: [
+      "La diagonal es coincidir/sustituir; arriba es borrar; a la izquierda es insertar (a la derecha en una tabla de derecha a izquierda).",
+      'Elige OSA o Damerau–Levenshtein para que "ab" → "ba" cueste una transposición en vez de dos sustituciones.',
+      "Con «Mostrar retroceso óptimo» activado, la reproducción sigue tras la última celda y recorre el camino de vuelta hasta (0, 0), sombreando cada celda de algún camino óptimo; Anterior / Siguiente recorren cada alineamiento.",
+      "Los huecos afines (Gotoh) cobran «Abrir hueco» una vez por cada racha de inserciones o borrados, con tres matrices; elige una encima de la tabla o apílalas, y mira cómo el retroceso salta entre ellas.",
+      "LCS, Needleman–Wunsch y Smith–Waterman maximizan una puntuación en la misma tabla: insertar / borrar son huecos y sustituir es una discrepancia. Smith–Waterman retrocede desde su mejor celda, esté donde esté.",
+      "El modo Hirschberg (solo Levenshtein) nunca rellena la tabla: puntúa una fila central desde ambos extremos, divide ahí y se repite, sombreando las regiones abiertas.",
+      "El modo de paralelismo de bits (Levenshtein con costes unitarios) calcula una columna entera por paso a partir de vectores de bits de diferencias ±1, como el algoritmo de Myers; el panel lateral muestra cada vector y el acarreo de su suma.",
+      "Fija una distancia máxima k para rellenar solo la banda diagonal que puede usar un camino dentro de k, parando cuando una fila entera supera k; pasa el ratón por una celda gris para ver por qué se omitió.",
+      "Marca «Buscar en una lista» para ordenar cada línea frente a A; los resultados que comparten un prefijo reutilizan sus filas de un trie, y al pulsar uno se abre aquí con las columnas reutilizadas en verde.",
+      "Marca «Buscar B en A» para buscar B dentro de A: una coincidencia puede empezar en cualquier fila, así que la primera columna vale 0 y cada fila de la última columna dentro de k termina una. Pulsa una coincidencia marcada para retrocederla.",
+      "Exportar… guarda este fotograma como SVG / PNG, graba todo el relleno y el retroceso como GIF o WebM a la velocidad actual, o vuelca la tabla con el retroceso marcado como CSV, Markdown, LaTeX o texto plano.",
+      "Comparar ejecuta una segunda configuración con las mismas cadenas junto a la primera, en una sola línea de tiempo: las celdas con otro valor se rellenan de rosa, las que desempatan con otra operación van discontinuas y el resumen lista las ediciones que solo hace un lado.",
+      "El modo práctica oculta las respuestas: escribe el valor de cada celda en la tabla (y elige su operación si quieres), pulsa Intro para comprobarlo y luego vuelve pulsando por un camino óptimo.",
+      "Las cadenas en árabe o hebreo reflejan la tabla (ver «Dirección del texto»): la columna 1 queda junto a las cabeceras de fila, a la derecha, y las flechas apuntan al otro lado, mientras i y j conservan su significado.",
+      "Espacio reproduce / pausa, ← / → avanzan un paso, Inicio / Fin saltan; pulsa una celda rellenada para volver a ella.",
+      "Entra en la tabla con Tab para moverte celda a celda con las flechas (Inicio / Fin para los extremos de la fila, con Ctrl para las esquinas) y pulsa Intro para volver a una celda; los lectores de pantalla oyen cada paso mientras se reproduce.",
+      'Empieza con cadenas cortas (p. ej. "kitten" → "sitting").',
+    ],
+  },
+  footer: (order, local) =>
+    `Desempate determinista: ${order} (el alineamiento n.º 1 lo sigue; los candidatos empatados se conservan todos como padres óptimos${
+      local ? "; una celda a la que llega el suelo cero inicia el alineamiento, antes de cualquier movimiento" : ""
+    }).`,
+  compare: {
+    heading: (side, label) => `${side}: ${label.toLowerCase()}`,
+    alignment: (k, summary) => `alineamiento n.º ${k}: ${summary}`,
+    editCount: (count, op) => {
+      const [one, many] = {
+        replace: ["sustitución", "sustituciones"],
+        insert: ["inserción", "inserciones"],
+        delete: ["borrado", "borrados"],
+        transpose: ["transposición", "transposiciones"],
+      }[op];
+      return `${count} ${count === 1 ? one : many}`;
+    },
+    separator: ", ",
+    noEdits: "sin ediciones",
+    cellsDiffer: (values, cells, ops) =>
+      `${values} de ${cells} celdas difieren en valor (en rosa) y ${ops} en la operación que elige el desempate (discontinuas).`,
+    sharedPath: (shared, left, right) => `Los dos caminos comparten ${shared} de ${left} / ${right} celdas.`,
+    tooLarge: (cells) => `Con más de ${cells} celdas las tablas no se comparan celda a celda.`,
+    sameEdits: "Los dos alineamientos hacen las mismas ediciones.",
+    onlyLeft: "Solo a la izquierda",
+    onlyRight: "Solo a la derecha",
+    nothing: "nada",
+    settings: "Lado derecho",
+    shared: "(A, B, los tokens, las puntuaciones y las sustituciones se comparten)",
+  },
+  edits: {
+    replace: (from, to, at) => `sustituir '${from}'→'${to}' en ${at}`,
+    transpose: (from, to, at) => `transponer '${from}'→'${to}' en ${at}`,
+    insert: (to, at) => `insertar '${to}' en ${at}`,
+    delete: (from, at) => `borrar '${from}' en ${at}`,
+  },
+  script: {
+    title: "Alineamiento / guion de edición",
+    exportText: "Exportar texto",
+    exportJson: "Exportar JSON",
+    noEdits: "No hace falta ninguna edición.",
+  },
+  search: {
+    found: (hits, candidates, k) => `${hits} de ${candidates} candidatos${k !== null ? ` dentro de k = ${k}` : ""}`,
+    trie: (filled, rows, reused, pruned) =>
+      `El trie rellenó ${filled} de ${rows} filas · ${reused} reutilizadas${pruned ? ` · ${pruned} podadas por superar k` : ""}`,
+    noneWithin: "Ningún candidato está dentro de k.",
+    pasteList: "Pega una lista de palabras para buscar en ella.",
+    allNew: "todas las filas nuevas",
+    sharedRows: (rows, from) => `${rows} fila${rows > 1 ? "s" : ""} de “${from}”`,
+    more: (count) => `… y ${count} más.`,
+    explain: (otherAlgorithm) =>
+      `Ordenados por Levenshtein con los pesos de abajo${otherAlgorithm ? "; el par abierto usa el algoritmo elegido" : ""}. Cada nodo del trie guarda una fila de la tabla: su prefijo puntuado contra todo A (una columna de la cuadrícula), así que los candidatos que comparten un prefijo comparten esas filas. Haz clic en un resultado para recorrerlo paso a paso.`,
+    reused: (cols, prefix, from) =>
+      `Las columnas 0–${cols} (“${prefix}”) son filas del trie que la búsqueda ya rellenó para “${from}”: cada una es un prefijo puntuado contra todo A.`,
+    newWork: (first, last) => `Solo las columnas ${first}–${last} fueron trabajo nuevo para este candidato.`,
+    noNewWork: "Nada fue trabajo nuevo para este candidato.",
+  },
+  hits: {
+    within: (count, k) =>
+      `${count.toLocaleString()} posicion${count > 1 ? "es" : ""} final${count > 1 ? "es" : ""} dentro de k = ${k}`,
+    atBest: (count, best) =>
+      `${count.toLocaleString()} posicion${count > 1 ? "es" : ""} final${count > 1 ? "es" : ""} con el mejor coste, ${best}`,
+    none: (k, best) => `Ninguna coincidencia dentro de k = ${k}; la mejor cuesta ${best}.`,
+    rows: (start, end) => `filas ${start}–${end}`,
+    explain:
+      "Variante de Sellers: la primera columna es toda 0, así que una coincidencia puede empezar gratis en cualquier fila de A, y la fila i de la última columna es la coincidencia más barata de B que termina en el i-ésimo token de A. Empieza donde el retroceso desde ahí alcanza la primera columna. Haz clic en una coincidencia para recorrerla hacia atrás.",
+  },
+  practice: {
+    title: "Práctica",
+    fill: "Rellena la tabla",
+    traceBack: "Recorre hacia atrás",
+    done: "Hecho",
+    versus: (a, b) => `${a} frente a ${b}`,
+    typeCell: (i, j) => `Escribe dp[${i}][${j}] en la celda resaltada y pulsa Intro.`,
+    operation: "Operación (opcional)",
+    check: "Comprobar",
+    hint: "Pista",
+    noTrace: (optimum) => `${optimum} supera k, así que no hay alineamiento que recorrer hacia atrás.`,
+    traceFrom: (i, j) =>
+      `La tabla está llena. Ahora recorre hacia atrás un camino óptimo: haz clic en la celda desde la que el camino llega a (${i}, ${j}).`,
+    yourPath: (k, total, first) =>
+      `Tu camino es ${k === null ? "un alineamiento óptimo" : `el alineamiento óptimo n.º ${k}`} de ${total}${
+        first ? ", el que elige el desempate" : ""
+      }.`,
+    typeNumber: "Escribe un número (∞ para infinito).",
+    wrongValue: (value, at) => `${value} no es ${at}. Revisa los candidatos o pide una pista.`,
+    wrongOp: (at, value, op, ops) => `${at} = ${value} es correcto, pero ${op} no llega ahí: ${ops} sí.`,
+    right: (at, value, ops) => `${at} = ${value}${ops ? `, por ${ops}` : ""}.`,
+    noStep: (fromI, fromJ, i, j) => `Ningún camino óptimo pasa de (${fromI}, ${fromJ}) a (${i}, ${j}).`,
+    score: "Puntuación",
+    finalScore: "Puntuación final",
+    firstTry: (right, asked) => `Celdas acertadas a la primera: ${right} / ${asked}`,
+    ops: (right, asked) => `operaciones: ${right} / ${asked}`,
+    hints: (used) => `pistas: ${used}`,
+    traceMistakes: (count) => `clics erróneos en el recorrido: ${count}`,
+    startOver: "Empezar de nuevo",
+  },
+  hirschberg: {
+    title: "Hirschberg",
+    frames: {
+      forward: "Mitad hacia delante",
+      reverse: "Mitad hacia atrás",
+      split: "División",
+      solve: "Resolver franja",
+    },
+    region: "Región",
+    depth: (depth) => `profundidad ${depth}`,
+    forward: (top, row) =>
+      `Calcula la tabla hacia abajo desde la fila ${top} hasta la fila central ${row}, guardando solo dos filas: cada valor es el coste desde (0, 0) hasta esa celda de la fila ${row}.`,
+    reverse: (bottom, right, row) =>
+      `Calcula la misma tabla hacia atrás desde (${bottom}, ${right}) hasta la fila ${row}: cada valor es el coste desde esa celda hasta la esquina de la región.`,
+    split: (ties, row, col, upper, lower) =>
+      `Adelante + atrás es mínimo en la${ties.length > 1 ? "s" : ""} columna${ties.length > 1 ? "s" : ""} ${ties.join(", ")}, así que un camino óptimo cruza ahí la fila ${row}${
+        ties.length > 1 ? "; el camino del desempate la cruza" : ""
+      } en (${row}, ${col}). Recursión sobre ${upper} y ${lower}.`,
+    solve: (bottom, right, ops) =>
+      `Quedan como mucho dos filas: se rellenan directamente y se recorre hacia atrás desde (${bottom}, ${right}): ${ops}.`,
+    nothingToDo: "nada que hacer",
+    assembling: "El alineamiento se arma con las franjas resueltas cuando termina la última región.",
+    done: (distance, frames) =>
+      `Distancia ${distance} tras ${frames} fotogramas, con a lo sumo dos filas de puntuaciones a la vez.`,
+    sameAlignment: "El camino armado es el mismo alineamiento que elige el retroceso de la tabla completa (n.º 1).",
+    otherAlignment: "El camino armado difiere del retroceso de la tabla completa.",
+    colourKey:
+      "Celeste: puntuaciones hacia delante · rosa: puntuaciones hacia atrás · ámbar: columnas donde su suma es mínima · contornos: las regiones aún abiertas, la más interna continua · sombreado: el camino hallado hasta ahora.",
+  },
+  myers: {
+    column: (j) => `Columna ${j}`,
+    emptyPrefix: "Prefijo vacío de B",
+    token: "Token de B",
+    column0: (m) =>
+      `La columna 0 es 0, 1, …, ${m}: cada celda vale uno más que la de arriba, así que Pv tiene sus ${m} bits activos y Mv ninguno. Solo se guardan estas diferencias, nunca los valores.`,
+    step: (prev, j) =>
+      `Eq marca las filas de A que contienen este token. Sumar Pv a Eq & Pv propaga un acarreo hacia arriba desde cada coincidencia a través de las filas que eran +1 en la columna anterior; Xh reúne dónde puede llegar un −1 desde la izquierda. Ph / Mh son las diferencias de la columna ${prev} a la ${j}; desplazadas una fila hacia abajo (la fila 0 siempre gana uno) dan los nuevos Pv / Mv, y la diferencia de la última fila mueve la puntuación.`,
+    row: (i) => `fila ${i}`,
+    carry: "acarreo",
+    sum: "suma",
+    plusIn: (column) => `+1 en la columna ${column}`,
+    minusIn: (column) => `−1 en la columna ${column}`,
+    carryOf: (sum) => `de ${sum}`,
+    showingRows: (shown, m) => `Se muestran las filas 1–${shown} de ${m}.`,
+    done: (distance, columns, m) =>
+      `Distancia ${distance} tras ${columns} columnas, cada una con un número fijo de operaciones sobre vectores de ${m} bits.`,
+    matches: "Los valores reconstruidos a partir de Pv / Mv coinciden con la tabla completa en todas las columnas.",
+    mismatch: (j) => `Los valores reconstruidos a partir de Pv / Mv difieren de la tabla completa en la columna ${j}.`,
+    noBacktrace: "No hay retroceso: cambia a Tabla completa para obtener un alineamiento.",
+    colourKey: (m) =>
+      `Los bits se leen como un número binario: la fila ${m} a la izquierda y la fila 1 a la derecha. Rosa: diferencias +1 · esmeralda: diferencias −1 · celeste: coincidencias · ámbar: acarreos · contorno: la columna recién calculada.`,
+  },
+  grid: {
+    table: "Tabla de PD",
+    leftTable: "Tabla de PD izquierda",
+    rightTable: "Tabla de PD derecha",
+    cell: (i, row, j, col, value) => `fila ${i} ${row}, columna ${j} ${col}: ${value}`,
+    empty: "vacía",
+    skipped: "omitida",
+    notFilled: "aún sin rellenar",
+    onPath: ", en el camino",
+    delete: "borrar",
+    insert: "insertar",
+    matchReplace: "coincidir / sustituir",
+    transposeFrom: (i, j) => `transponer desde (${i}, ${j})`,
+    overview: (rows, cols) => `Vista general · ${rows} × ${cols} celdas · pulsa para saltar`,
+    colours: "Colores",
+  },
+  narration: {
+    nothing: "nada",
+    emptyLine: "línea vacía",
+    space: "espacio",
+    tab: "tabulador",
+    cell: (i, j) => `celda ${i},${j}`,
+    inLayer: (layer) => ` en ${layer}`,
+    match: (a) => `coincide ${a}`,
+    replace: (a, b) => `sustituir ${a} por ${b}`,
+    insert: (b) => `insertar ${b}`,
+    delete: (a) => `borrar ${a}`,
+    transpose: (first, second) => `transponer ${first} ${second}`,
+    emptyPrefixes: "prefijos vacíos",
+    startHere: "empezar aquí",
+    cost: "coste",
+    score: "puntuación",
+    from: "desde",
+    prompt: (a, b) => `${a} frente a ${b}, te toca`,
+    backtrace: "retroceso",
+    traceAt: (i, j) => `tu recorrido está en la celda ${i},${j}`,
+    forwardRow: (row, left, right, top) =>
+      `media fila ${row} hacia delante, columnas ${left} a ${right}, desde la fila ${top}`,
+    reverseRow: (row, left, right, bottom) =>
+      `media fila ${row} hacia atrás, columnas ${left} a ${right}, desde la fila ${bottom}`,
+    split: (row, col) => `división en la fila ${row}, columna ${col}`,
+    solved: (top, bottom, left, right) => `filas ${top} a ${bottom} resueltas, columnas ${left} a ${right}`,
+    column: (j) => `columna ${j}`,
+    lastRow: (score) => `${score} en la última fila`,
+  },
+};
+
+const fr: Messages = {
+  header: {
+    title: "Visualiseur de distance d’édition",
+    intro:
+      "Regardez la table de programmation dynamique de Levenshtein se remplir en temps réel. Parcourez chaque case, voyez les opérations candidates (insérer / supprimer / remplacer / garder) avec leurs poids et, si vous le souhaitez, mettez en évidence une remontée optimale.",
+    highContrast: "Contraste élevé",
+    reduceMotion: "Réduire les animations",
+    language: "Langue",
+  },
+  toolbar: {
+    examples: "Exemples…",
+    classic: "Classiques",
+    saved: "Enregistrés",
+    savePreset: "Enregistrer le réglage",
+    presetName: "Nom du réglage",
+    clearSaved: "Effacer les réglages",
+    confirmClear: (count) => `Supprimer ${count} réglage(s) enregistré(s) ?`,
+    export: "Exporter…",
+    exportGroups: { frame: "Cette image", playback: "Remplissage + remontée", table: "Table" },
+    exports: {
+      svg: "Image SVG",
+      png: "Image PNG",
+      gif: "GIF animé",
+      webm: "Vidéo WebM",
+      csv: "CSV",
+      markdown: "Markdown",
+      latex: "Tableau LaTeX (tabular)",
+      text: "Texte brut (cadres)",
+    },
+    recording: (format) => `Enregistrement ${format}…`,
+    cancel: "Annuler",
+    exportLimit: (cells) =>
+      `Les exports d’images et de vidéos sont limités à ${cells} cases ; les tables s’exportent quelle que soit leur taille.`,
+    gifLimit: (cells) => `Les GIF sont limités à ${cells} cases ; WebM enregistre les tables plus grandes.`,
+    exportFailed: (error) => `Échec de l’export : ${error}`,
+    copyLink: "Copier le lien vers cette image",
+    linkCopied: "Lien copié",
+    presets: {
+      intention: "intention → execution",
+      kitten: "kitten → sitting",
+      sunday: "sunday → saturday",
+      empty: "chaînes vides",
+      emptyToAbc: "vide → abc",
+      identical: "chaînes identiques",
+      transposition: "transposition (ca → abc)",
+      lcs: "LCS (ABCBDAB / BDCABA)",
+      smithWaterman: "Smith–Waterman (TGTTACGG / GGTTGACTA)",
+      threshold: "seuil k = 2 (intention → execution)",
+      compareReplace: "comparer remplacement 1 et 2 (sunday → saturday)",
+      findBrown: "chercher brown dans un texte (k = 1)",
+      wordList: "recherche dans une liste (appel)",
+    },
+  },
+  inputs: {
+    a: { string: "Chaîne A (lignes)", text: "Texte A (lignes)", query: "Requête A (lignes)" },
+    b: { string: "Chaîne B (colonnes)", pattern: "Motif B (colonnes)", list: "Liste de mots (un par ligne)" },
+    findBInA: "Chercher B dans A",
+    searchList: "Chercher dans une liste",
+    exampleA: "ex. kitten",
+    exampleB: "ex. sitting",
+    oneTokenPerLine: "un jeton\npar ligne",
+    compareBy: "Comparer par",
+    direction: "Sens du texte",
+    directions: { auto: "Automatique (d’après les chaînes)", ltr: "De gauche à droite", rtl: "De droite à gauche" },
+    algorithm: "Algorithme",
+    method: "Méthode",
+    maxDistance: "Distance max. k",
+    off: "aucune",
+    weights: {
+      insert: "Insérer",
+      delete: "Supprimer",
+      replace: "Remplacer",
+      transpose: "Transposer",
+      gapOpen: "Ouvrir un trou",
+    },
+    scores: { match: "Identité", mismatch: "Différence", gap: "Trou" },
+    substitutions: "Coûts de substitution",
+    onePairPerLine: "(une paire par ligne)",
+    ignoredLines: (lines) =>
+      `${lines.length > 1 ? "Lignes ignorées" : "Ligne ignorée"} : ${lines.join(", ")} (format attendu : « car car coût »).`,
+    lcsNote: (unit) => {
+      const [one, many] = {
+        char: ["caractère identique", "caractères différents"],
+        word: ["mot identique", "mots différents"],
+        line: ["ligne identique", "lignes différentes"],
+      }[unit];
+      return `Un point par ${one} ; les trous sont gratuits et deux ${many} ne s’apparient jamais.`;
+    },
+  },
+  titles: {
+    substring: "Compare B à n’importe quel passage de A : la première colonne ne vaut que 0 et toute ligne peut finir",
+    substringUnavailable: "La recherche de sous-chaîne demande Levenshtein, OSA ou Damerau–Levenshtein",
+    methodUnavailable:
+      "Hirschberg coupe des lignes que les transpositions enjambent, et les vecteurs de bits de Myers ne suivent que des pas unitaires",
+    myersNeedsUnitCosts: "Le mode parallélisme de bits demande des coûts unitaires",
+    maxDistance: {
+      search: "Ne garde que les candidats à k près, en élaguant le trie",
+      substring: "Signale chaque position de fin à k près",
+      hirschberg: "Hirschberg calcule toujours des lignes entières",
+      myers: "Le mode parallélisme de bits calcule toujours des colonnes entières",
+      similarity: "Un score de similarité n’a pas de distance à borner",
+      affine: "Indisponible avec des trous affines",
+      band: "Ne remplit que la bande diagonale |i − j| ≤ k",
+    },
+    bandedFillOrder: "Un remplissage en bande avance ligne par ligne pour pouvoir s’arrêter tôt",
+    compare: "Lance une seconde configuration sur les mêmes chaînes, côte à côte",
+    compareFullTables: "Compare deux tables complètes",
+    compareInPractice: "Indisponible en mode entraînement",
+    practice: "Remplissez vous-même les cases, puis remontez le chemin",
+    practiceHirschberg: "Hirschberg ne remplit jamais la table",
+    practiceMyers: "Le mode parallélisme de bits calcule des colonnes entières d’un coup",
+  },
+  algorithms: {
+    levenshtein: "Levenshtein",
+    osa: "Alignement optimal de chaînes (OSA)",
+    damerau: "Damerau–Levenshtein",
+    gotoh: "Trous affines (Gotoh)",
+    lcs: "Plus longue sous-séquence commune",
+    "needleman-wunsch": "Needleman–Wunsch (global)",
+    "smith-waterman": "Smith–Waterman (local)",
+  },
+  tokenizations: {
+    codepoint: "Point de code",
+    grapheme: "Graphème",
+    word: "Mot",
+    line: "Ligne",
+  },
+  methods: {
+    full: "Table complète",
+    hirschberg: "Hirschberg (espace linéaire)",
+    myers: "Parallélisme de bits (Myers)",
+  },
+  fillOrders: {
+    "row-major": "Ligne par ligne",
+    "column-major": "Colonne par colonne",
+    "anti-diagonal": "Par anti-diagonales (front d’onde)",
+  },
+  layerViews: {
+    min: "min(M, X, Y)",
+    M: "M · garder / remplacer",
+    X: "X · supprimer",
+    Y: "Y · insérer",
+    stacked: "Superposées",
+  },
+  playback: {
+    play: "Lecture",
+    pause: "Pause",
+    back: "Retour",
+    step: "Pas",
+    reset: "Réinitialiser",
+    speed: "Vitesse",
+    fillOrder: "Ordre de remplissage",
+    wholeDiagonal: "Une diagonale entière par tic",
+    compare: "Comparer",
+    practice: "Entraînement",
+    showBacktrace: "Afficher la remontée optimale",
+    optimalAlignments: "Alignements optimaux :",
+    moreThan: (count) => `plus de ${count}`,
+    prev: "‹ Précédent",
+    next: "Suivant ›",
+    alignmentOf: (k, total) => `n° ${k} sur ${total}`,
+    tracingHit: (row) =>
+      `Remontée de l’alignement du départage depuis la ligne ${row} ; choisissez la meilleure correspondance pour parcourir les égalités.`,
+    tieBreak: "Départage",
+    phases: {
+      hirschberg: "Hirschberg",
+      bitParallel: "Parallélisme de bits",
+      backtrace: "Remontée",
+      fill: "Remplissage",
+    },
+    stepOf: "Étape",
+    timeline: "Frise",
+    matrix: "Matrice",
+    left: "Gauche",
+    right: "Droite",
+    scriptPending:
+      "L’alignement et le script d’édition se construisent pendant la remontée, une fois la dernière case remplie.",
+    moves: { diagonal: "diagonale", transpose: "transposer", delete: "supprimer", insert: "insérer" },
+    caption: (phase, step, total) => `${phase} · étape ${step} / ${total}`,
+  },
+  band: {
+    summary: (width, filled, cells, skipped) =>
+      `Bande |i − j| ≤ ${width} : ${filled} cases remplies sur ${cells} (${skipped} % ignorées).`,
+    outside: (m, n, width) =>
+      `|${m} − ${n}| > ${width} : (${m}, ${n}) est hors de la bande, donc la distance dépasse k avant tout remplissage.`,
+    rowOver: (row, k, min, m, n) =>
+      `Toutes les cases de la bande sur la ligne ${row} dépassent k = ${k} (la plus petite vaut ${min}) et tout chemin vers (${m}, ${n}) traverse cette ligne : le calcul s’est arrêté là.`,
+    rowsOver: (first, last, k, m, n) =>
+      `Toutes les cases de la bande sur les lignes ${first} à ${last} dépassent k = ${k} et aucune transposition dans k ne peut toutes les sauter en allant vers (${m}, ${n}) : le calcul s’est arrêté là.`,
+    lastRowOver: (m, n, value) => `La dernière ligne a été atteinte, mais dp[${m}][${n}] = ${value} > k.`,
+    skipped: "Ignorée",
+    pruned: (i, j, width, k) =>
+      `|${i} − ${j}| = ${Math.abs(i - j)} > ${width} : atteindre cette case demande autant d’insertions ou de suppressions, qui coûtent déjà plus que k = ${k}, elle a donc été élaguée.`,
+    notReached: (row, reason) => `La ligne ${row} n’a jamais été atteinte. ${reason}`,
+  },
+  optimum: {
+    distance: "Distance",
+    lcsLength: "Longueur de la LCS",
+    score: "Score",
+    bestMatch: "Meilleure correspondance",
+  },
+  cell: {
+    title: "Case courante",
+    ops: {
+      match: "Garder",
+      replace: "Remplacer",
+      insert: "Insérer",
+      delete: "Supprimer",
+      transpose: "Transposer",
+      init: "Départ",
+    },
+    zeroFloor: "Plancher zéro (départ ici)",
+    units: { char: "caractère", word: "mot", line: "ligne" },
+    tokenA: (unit) => `${unit} de A (ligne)`,
+    tokenB: (unit) => `${unit} de B (colonne)`,
+    backtrace: (k, total) => `Remontée · case ${k} sur ${total}`,
+    cameFrom: "Vient de",
+    by: {
+      match: "par identité",
+      replace: "par remplacement",
+      insert: "par insertion",
+      delete: "par suppression",
+      transpose: "par transposition",
+      init: "en partant d’ici",
+    },
+    tiesPicked: (count) => `${count} prédécesseurs sont à égalité ici ; l’ordre de départage choisit celui-ci.`,
+    tiesBranch: (count, k) => `${count} prédécesseurs sont à égalité ici ; l’alignement n° ${k} prend cette branche.`,
+    onlyPredecessor: "C’est le seul prédécesseur qui atteint cette valeur.",
+    complete: (i, j) => `(${i}, ${j}) atteinte : l’alignement est complet.`,
+    candidates: "Candidats",
+    from: "depuis",
+    tie: "égalité",
+  },
+  rule: {
+    title: "Règle",
+    delete: "supprimer",
+    insert: "insérer",
+    matchReplace: "garder/remplacer",
+    transposeOsa: "transposer, si aᵢ₋₁aᵢ = bⱼbⱼ₋₁",
+    transposeDamerau: "transposer, k = dernière ligne où aₖ = bⱼ, l = dernière colonne où bₗ = aᵢ",
+    cost: (replace) => `cost(a, b) = 0 si a = b, sinon ${replace}`,
+    substitutionOverride: ", sauf si une paire de substitution en décide autrement",
+    affine: (open, replace) =>
+      `M se termine par une identité ou un remplacement, X par une suppression, Y par une insertion. Rester dans X ou Y prolonge un trou ; y entrer en ouvre un pour ${open} de plus. cost(a, b) = 0 si a = b, sinon ${replace}.`,
+    gap: "trou",
+    lcsMatch: "identité, seulement si aᵢ = bⱼ",
+    zeroEdges: "La première ligne et la première colonne valent 0.",
+    startHere: "départ ici",
+    matchMismatch: "identité/différence",
+    score: (match, mismatch) => `s(a, b) = ${match} si a = b, sinon ${mismatch}.`,
+    local:
+      "La première ligne et la première colonne valent 0 ; la remontée part de la meilleure case et s’arrête là où un 0 a tout relancé.",
+    global: (gap) => `La première ligne et la première colonne valent i·${gap} et j·${gap}.`,
+  },
+  tips: {
+    title: "Astuces",
+    items: [
+      "La diagonale, c’est garder/remplacer ; le haut, supprimer ; la gauche, insérer (la droite dans une table de droite à gauche).",
+      'Choisissez OSA ou Damerau–Levenshtein pour que "ab" → "ba" coûte une transposition au lieu de deux remplacements.',
+      "Avec « Afficher la remontée optimale », la lecture continue après la dernière case et remonte le chemin jusqu’à (0, 0) en grisant chaque case d’un chemin optimal ; Précédent / Suivant parcourent chaque alignement.",
+      "Les trous affines (Gotoh) facturent « Ouvrir un trou » une fois par série d’insertions ou de suppressions, avec trois matrices ; choisissez-en une au-dessus de la table ou superposez-les, et regardez la remontée passer de l’une à l’autre.",
+      "LCS, Needleman–Wunsch et Smith–Waterman maximisent un score sur la même table : insérer / supprimer sont des trous et remplacer une différence. Smith–Waterman remonte depuis sa meilleure case, où qu’elle soit.",
+      "Le mode Hirschberg (Levenshtein seulement) ne remplit jamais la table : il évalue une ligne médiane depuis les deux bouts, coupe là et recommence, en grisant les régions ouvertes.",
+      "Le mode parallélisme de bits (Levenshtein à coûts unitaires) calcule une colonne entière par étape à partir de vecteurs de bits des écarts ±1, comme l’algorithme de Myers ; le panneau latéral montre chaque vecteur et la retenue de leur addition.",
+      "Fixez une distance max. k pour ne remplir que la bande diagonale qu’un chemin dans k peut emprunter, en s’arrêtant dès qu’une ligne entière dépasse k ; survolez une case grisée pour savoir pourquoi elle a été ignorée.",
+      "Cochez « Chercher dans une liste » pour classer chaque ligne par rapport à A ; les résultats qui partagent un préfixe réutilisent ses lignes d’un trie, et un clic en ouvre un ici avec les colonnes réutilisées teintées de vert.",
+      "Cochez « Chercher B dans A » pour trouver B à l’intérieur de A : une correspondance peut commencer à n’importe quelle ligne, donc la première colonne vaut 0, et chaque ligne de la dernière colonne dans k en termine une. Cliquez sur une correspondance marquée pour la remonter.",
+      "Exporter… enregistre cette image en SVG / PNG, filme tout le remplissage et la remontée en GIF ou WebM à la vitesse actuelle, ou sort la table avec la remontée marquée en CSV, Markdown, LaTeX ou texte brut.",
+      "Comparer lance une seconde configuration sur les mêmes chaînes à côté de la première, sur une seule frise : les cases de valeur différente sont roses, celles dont le départage choisit une autre opération sont en pointillés, et le résumé liste les modifications qu’un seul côté fait.",
+      "Le mode entraînement cache les réponses : tapez la valeur de chaque case dans la table (et choisissez son opération si vous voulez), appuyez sur Entrée pour vérifier, puis cliquez pour remonter un chemin optimal.",
+      "Des chaînes en arabe ou en hébreu inversent la table (voir « Sens du texte ») : la colonne 1 se place contre les en-têtes de ligne, à droite, et les flèches pointent dans l’autre sens, tandis que i et j gardent leur sens.",
+      "Espace lance / met en pause, ← / → avancent d’un pas, Début / Fin sautent ; cliquez sur une case remplie pour y revenir.",
+      "Entrez dans la table avec Tab pour aller de case en case avec les flèches (Début / Fin pour les bouts de la ligne, avec Ctrl pour les coins) et appuyez sur Entrée pour revenir à une case ; les lecteurs d’écran entendent chaque étape pendant la lecture.",
+      'Commencez par de petites chaînes (ex. "kitten" → "sitting").',
+    ],
+  },
+  footer: (order, local) =>
+    `Départage déterministe : ${order} (l’alignement n° 1 le suit ; les candidats à égalité sont tous gardés comme parents optimaux${
+      local ? " ; une case qu’atteint le plancher zéro commence l’alignement, avant tout mouvement" : ""
+    }).`,
+  compare: {
+    heading: (side, label) => `${side} : ${label.toLowerCase()}`,
+    alignment: (k, summary) => `alignement n° ${k} : ${summary}`,
+    editCount: (count, op) => {
+      const noun = {
+        replace: "remplacement",
+        insert: "insertion",
+        delete: "suppression",
+        transpose: "transposition",
+      }[op];
+      return `${count} ${noun}${count > 1 ? "s" : ""}`;
+    },
+    separator: ", ",
+    noEdits: "aucune modification",
+    cellsDiffer: (values, cells, ops) =>
+      `${values} cases sur ${cells} diffèrent en valeur (en rose) et ${ops} par l’opération que choisit le départage (en pointillés).`,
+    sharedPath: (shared, left, right) => `Les deux chemins ont ${shared} cases en commun sur ${left} / ${right}.`,
+    tooLarge: (cells) => `Au-delà de ${cells} cases, les tables ne sont pas comparées case par case.`,
+    sameEdits: "Les deux alignements font les mêmes modifications.",
+    onlyLeft: "Seulement à gauche",
+    onlyRight: "Seulement à droite",
+    nothing: "rien",
+    settings: "Côté droit",
+    shared: "(A, B, les jetons, les scores et les substitutions sont partagés)",
+  },
+  edits: {
+    replace: (from, to, at) => `remplacer '${from}'→'${to}' en ${at}`,
+    transpose: (from, to, at) => `transposer '${from}'→'${to}' en ${at}`,
+    insert: (to, at) => `insérer '${to}' en ${at}`,
+    delete: (from, at) => `supprimer '${from}' en ${at}`,
+  },
+  script: {
+    title: "Alignement / script d’édition",
+    exportText: "Exporter en texte",
+    exportJson: "Exporter en JSON",
+    noEdits: "Aucune modification nécessaire.",
+  },
+  search: {
+    found: (hits, candidates, k) => `${hits} candidats sur ${candidates}${k !== null ? ` à k = ${k} près` : ""}`,
+    trie: (filled, rows, reused, pruned) =>
+      `Le trie a rempli ${filled} lignes sur ${rows} · ${reused} réutilisées${pruned ? ` · ${pruned} élaguées au-delà de k` : ""}`,
+    noneWithin: "Aucun candidat n’est à k près.",
+    pasteList: "Collez une liste de mots pour y chercher.",
+    allNew: "toutes les lignes nouvelles",
+    sharedRows: (rows, from) => `${rows} ligne${rows > 1 ? "s" : ""} de « ${from} »`,
+    more: (count) => `… et ${count} de plus.`,
+    explain: (otherAlgorithm) =>
+      `Classés par Levenshtein avec les poids ci-dessous${otherAlgorithm ? " ; la paire ouverte utilise l’algorithme choisi" : ""}. Chaque nœud du trie garde une ligne de la table : son préfixe évalué contre tout A (une colonne de la grille), si bien que les candidats qui partagent un préfixe partagent ces lignes. Cliquez sur un résultat pour le parcourir pas à pas.`,
+    reused: (cols, prefix, from) =>
+      `Les colonnes 0–${cols} (« ${prefix} ») sont des lignes du trie que la recherche a déjà remplies pour « ${from} » : chacune est un préfixe évalué contre tout A.`,
+    newWork: (first, last) => `Seules les colonnes ${first}–${last} étaient du travail neuf pour ce candidat.`,
+    noNewWork: "Rien n’était du travail neuf pour ce candidat.",
+  },
+  hits: {
+    within: (count, k) => `${count.toLocaleString()} position${count > 1 ? "s" : ""} de fin à k = ${k} près`,
+    atBest: (count, best) =>
+      `${count.toLocaleString()} position${count > 1 ? "s" : ""} de fin au meilleur coût, ${best}`,
+    none: (k, best) => `Aucune correspondance à k = ${k} près ; la meilleure coûte ${best}.`,
+    rows: (start, end) => `lignes ${start}–${end}`,
+    explain:
+      "Variante de Sellers : la première colonne ne vaut que 0, donc une correspondance peut commencer gratuitement à n’importe quelle ligne de A, et la ligne i de la dernière colonne est la correspondance la moins chère de B qui finit sur le i-ième jeton de A. Elle commence là où la remontée depuis cette case atteint la première colonne. Cliquez sur une correspondance pour la remonter.",
+  },
+  practice: {
+    title: "Entraînement",
+    fill: "Remplir la table",
+    traceBack: "Remonter",
+    done: "Terminé",
+    versus: (a, b) => `${a} contre ${b}`,
+    typeCell: (i, j) => `Tapez dp[${i}][${j}] dans la case encadrée et appuyez sur Entrée.`,
+    operation: "Opération (facultatif)",
+    check: "Vérifier",
+    hint: "Indice",
+    noTrace: (optimum) => `${optimum} dépasse k, il n’y a donc pas d’alignement à remonter.`,
+    traceFrom: (i, j) =>
+      `La table est pleine. Remontez maintenant un chemin optimal : cliquez sur la case d’où le chemin atteint (${i}, ${j}).`,
+    yourPath: (k, total, first) =>
+      `Votre chemin est ${k === null ? "un alignement optimal" : `l’alignement optimal n° ${k}`} sur ${total}${
+        first ? ", celui que choisit le départage" : ""
+      }.`,
+    typeNumber: "Tapez un nombre (∞ pour l’infini).",
+    wrongValue: (value, at) => `${value} n’est pas ${at}. Vérifiez les candidats ou demandez un indice.`,
+    wrongOp: (at, value, op, ops) => `${at} = ${value} est juste, mais ${op} n’y mène pas : ${ops}, si.`,
+    right: (at, value, ops) => `${at} = ${value}${ops ? `, par ${ops}` : ""}.`,
+    noStep: (fromI, fromJ, i, j) => `Aucun chemin optimal ne passe de (${fromI}, ${fromJ}) à (${i}, ${j}).`,
+    score: "Score",
+    finalScore: "Score final",
+    firstTry: (right, asked) => `Cases justes du premier coup : ${right} / ${asked}`,
+    ops: (right, asked) => `opérations : ${right} / ${asked}`,
+    hints: (used) => `indices : ${used}`,
+    traceMistakes: (count) => `clics erronés pendant la remontée : ${count}`,
+    startOver: "Recommencer",
+  },
+  hirschberg: {
+    title: "Hirschberg",
+    frames: {
+      forward: "Moitié avant",
+      reverse: "Moitié arrière",
+      split: "Coupure",
+      solve: "Résoudre la tranche",
+    },
+    region: "Région",
+    depth: (depth) => `profondeur ${depth}`,
+    forward: (top, row) =>
+      `Calculer la table vers le bas de la ligne ${top} jusqu’à la ligne du milieu ${row}, en ne gardant que deux lignes : chaque valeur est le coût de (0, 0) jusqu’à cette case de la ligne ${row}.`,
+    reverse: (bottom, right, row) =>
+      `Calculer la même table à rebours de (${bottom}, ${right}) jusqu’à la ligne ${row} : chaque valeur est le coût de cette case jusqu’au coin de la région.`,
+    split: (ties, row, col, upper, lower) =>
+      `Avant + arrière est minimal à la colonne${ties.length > 1 ? "s" : ""} ${ties.join(", ")}, donc un chemin optimal y traverse la ligne ${row}${
+        ties.length > 1 ? " ; le chemin du départage la traverse" : ""
+      } en (${row}, ${col}). Récursion sur ${upper} et ${lower}.`,
+    solve: (bottom, right, ops) =>
+      `Il reste au plus deux lignes : les remplir directement et remonter depuis (${bottom}, ${right}) : ${ops}.`,
+    nothingToDo: "rien à faire",
+    assembling: "L’alignement s’assemble à partir des tranches résolues une fois la dernière région terminée.",
+    done: (distance, frames) =>
+      `Distance ${distance} après ${frames} images, en ne gardant jamais plus de deux lignes de scores à la fois.`,
+    sameAlignment:
+      "Le chemin assemblé est le même alignement que celui que choisit la remontée de la table complète (n° 1).",
+    otherAlignment: "Le chemin assemblé diffère de la remontée de la table complète.",
+    colourKey:
+      "Bleu ciel : scores avant · rose : scores arrière · ambre : colonnes où leur somme est minimale · contours : les régions encore ouvertes, la plus intérieure en trait plein · grisé : chemin trouvé jusqu’ici.",
+  },
+  myers: {
+    column: (j) => `Colonne ${j}`,
+    emptyPrefix: "Préfixe vide de B",
+    token: "Jeton de B",
+    column0: (m) =>
+      `La colonne 0 vaut 0, 1, …, ${m} : chaque case vaut un de plus que celle du dessus, donc Pv a ses ${m} bits à 1 et Mv aucun. Seuls ces écarts sont gardés, jamais les valeurs.`,
+    step: (prev, j) =>
+      `Eq marque les lignes de A qui portent ce jeton. Ajouter Pv à Eq & Pv propage une retenue vers le haut depuis chaque identité à travers les lignes qui valaient +1 dans la colonne précédente ; Xh rassemble les endroits où un −1 peut venir de la gauche. Ph / Mh sont les écarts de la colonne ${prev} à la ${j} ; décalés d’une ligne vers le bas (la ligne 0 gagne toujours un), ils donnent les nouveaux Pv / Mv, et l’écart de la dernière ligne fait bouger le score.`,
+    row: (i) => `ligne ${i}`,
+    carry: "retenue",
+    sum: "somme",
+    plusIn: (column) => `+1 dans la colonne ${column}`,
+    minusIn: (column) => `−1 dans la colonne ${column}`,
+    carryOf: (sum) => `de ${sum}`,
+    showingRows: (shown, m) => `Lignes 1–${shown} affichées sur ${m}.`,
+    done: (distance, columns, m) =>
+      `Distance ${distance} après ${columns} colonnes, chacune un nombre fixe d’opérations sur des vecteurs de ${m} bits.`,
+    matches: "Les valeurs reconstruites à partir de Pv / Mv correspondent à la table complète dans chaque colonne.",
+    mismatch: (j) => `Les valeurs reconstruites à partir de Pv / Mv diffèrent de la table complète à la colonne ${j}.`,
+    noBacktrace: "Il n’y a pas de remontée : passez à Table complète pour obtenir un alignement.",
+    colourKey: (m) =>
+      `Les bits se lisent comme un nombre binaire : la ligne ${m} à gauche, la ligne 1 à droite. Rose : écarts +1 · émeraude : écarts −1 · bleu ciel : identités · ambre : retenues · contour : la colonne qui vient d’être calculée.`,
+  },
+  grid: {
+    table: "Table PD",
+    leftTable: "Table PD de gauche",
+    rightTable: "Table PD de droite",
+    cell: (i, row, j, col, value) => `ligne ${i} ${row}, colonne ${j} ${col} : ${value}`,
+    empty: "vide",
+    skipped: "ignorée",
+    notFilled: "pas encore remplie",
+    onPath: ", sur le chemin",
+    delete: "supprimer",
+    insert: "insérer",
+    matchReplace: "garder / remplacer",
+    transposeFrom: (i, j) => `transposer depuis (${i}, ${j})`,
+    overview: (rows, cols) => `Vue d’ensemble · ${rows} × ${cols} cases · cliquez pour y aller`,
+    colours: "Couleurs",
+  },
+  narration: {
+    nothing: "rien",
+    emptyLine: "ligne vide",
+    space: "espace",
+    tab: "tabulation",
+    cell: (i, j) => `case ${i},${j}`,
+    inLayer: (layer) => ` dans ${layer}`,
+    match: (a) => `garder ${a}`,
+    replace: (a, b) => `remplacer ${a} par ${b}`,
+    insert: (b) => `insérer ${b}`,
+    delete: (a) => `supprimer ${a}`,
+    transpose: (first, second) => `transposer ${first} ${second}`,
+    emptyPrefixes: "préfixes vides",
+    startHere: "départ ici",
+    cost: "coût",
+    score: "score",
+    from: "depuis",
+    prompt: (a, b) => `${a} contre ${b}, à vous`,
+    backtrace: "remontée",
+    traceAt: (i, j) => `votre chemin est à la case ${i},${j}`,
+    forwardRow: (row, left, right, top) =>
+      `demi-ligne avant ${row}, colonnes ${left} à ${right}, depuis la ligne ${top}`,
+    reverseRow: (row, left, right, bottom) =>
+      `demi-ligne arrière ${row}, colonnes ${left} à ${right}, depuis la ligne ${bottom}`,
+    split: (row, col) => `coupure à la ligne ${row}, colonne ${col}`,
+    solved: (top, bottom, left, right) => `lignes ${top} à ${bottom} résolues, colonnes ${left} à ${right}`,
+    column: (j) => `colonne ${j}`,
+    lastRow: (score) => `${score} dans la dernière ligne`,
+  },
+};
+
+const ar: Messages = {
+  header: {
+    title: "مُصوِّر مسافة التحرير",
+    intro:
+      "شاهد جدول البرمجة الديناميكية لمسافة ليفنشتاين يمتلئ لحظة بلحظة. تنقّل بين الخلايا خلية خلية، واطّلع على العمليات المرشّحة (إدراج / حذف / استبدال / تطابق) مع أوزانها، ويمكنك إبراز مسار تتبّع عكسي أمثل.",
+    highContrast: "تباين عالٍ",
+    reduceMotion: "تقليل الحركة",
+    language: "اللغة",
+  },
+  toolbar: {
+    examples: "أمثلة…",
+    classic: "كلاسيكية",
+    saved: "محفوظة",
+    savePreset: "حفظ الإعداد",
+    presetName: "اسم الإعداد",
+    clearSaved: "مسح المحفوظ",
+    confirmClear: (count) => `حذف ${count} من الإعدادات المحفوظة؟`,
+    export: "تصدير…",
+    exportGroups: { frame: "هذا الإطار", playback: "الملء + التتبع العكسي", table: "الجدول" },
+    exports: {
+      svg: "صورة SVG",
+      png: "صورة PNG",
+      gif: "صورة GIF متحركة",
+      webm: "فيديو WebM",
+      csv: "CSV",
+      markdown: "Markdown",
+      latex: "جدول LaTeX (tabular)",
+      text: "نص عادي (بإطارات)",
+    },
+    recording: (format) => `جارٍ تسجيل ${format}…`,
+    cancel: "إلغاء",
+    exportLimit: (cells) => `تصدير الصور والفيديو محدود بـ ${cells} خلية؛ أما الجداول فتُصدَّر بأي حجم.`,
+    gifLimit: (cells) => `تصدير GIF محدود بـ ${cells} خلية؛ أما WebM فيسجّل الجداول الأكبر.`,
+    exportFailed: (error) => `فشل التصدير: ${error}`,
+    copyLink: "نسخ رابط هذا الإطار",
+    linkCopied: "تم نسخ الرابط",
+    presets: {
+      intention: "intention → execution",
+      kitten: "kitten → sitting",
+      sunday: "sunday → saturday",
+      empty: "سلاسل فارغة",
+      emptyToAbc: "فارغة → abc",
+      identical: "سلاسل متطابقة",
+      transposition: "تبديل (ca → abc)",
+      lcs: "LCS (ABCBDAB / BDCABA)",
+      smithWaterman: "سميث–واترمان (TGTTACGG / GGTTGACTA)",
+      threshold: "عتبة k = 2 (intention → execution)",
+      compareReplace: "مقارنة استبدال 1 و 2 (sunday → saturday)",
+      findBrown: "البحث عن brown في نص (k = 1)",
+      wordList: "البحث في قائمة كلمات (appel)",
+    },
+  },
+  inputs: {
+    a: { string: "السلسلة A (الصفوف)", text: "النص A (الصفوف)", query: "الاستعلام A (الصفوف)" },
+    b: { string: "السلسلة B (الأعمدة)", pattern: "النمط B (الأعمدة)", list: "قائمة كلمات (كلمة في كل سطر)" },
+    findBInA: "ابحث عن B في A",
+    searchList: "البحث في قائمة كلمات",
+    exampleA: "مثلًا kitten",
+    exampleB: "مثلًا sitting",
+    oneTokenPerLine: "وحدة واحدة\nفي كل سطر",
+    compareBy: "المقارنة حسب",
+    direction: "اتجاه النص",
+    directions: { auto: "تلقائي (حسب السلاسل)", ltr: "من اليسار إلى اليمين", rtl: "من اليمين إلى اليسار" },
+    algorithm: "الخوارزمية",
+    method: "الطريقة",
+    maxDistance: "أقصى مسافة k",
+    off: "بلا حد",
+    weights: { insert: "إدراج", delete: "حذف", replace: "استبدال", transpose: "تبديل", gapOpen: "فتح فجوة" },
+    scores: { match: "تطابق", mismatch: "عدم تطابق", gap: "فجوة" },
+    substitutions: "تكاليف الاستبدال",
+    onePairPerLine: "(زوج واحد في كل سطر)",
+    ignoredLines: (lines) =>
+      `${lines.length > 1 ? "تم تجاهل الأسطر" : "تم تجاهل السطر"} ${lines.join("، ")} (الصيغة المتوقعة: «حرف حرف تكلفة»).`,
+    lcsNote: (unit) => {
+      const [one, many] = {
+        char: ["حرف متطابق", "الحروف المختلفة"],
+        word: ["كلمة متطابقة", "الكلمات المختلفة"],
+        line: ["سطر متطابق", "الأسطر المختلفة"],
+      }[unit];
+      return `نقطة واحدة لكل ${one}؛ الفجوات مجانية، و${many} لا تتقابل أبدًا.`;
+    },
+  },
+  titles: {
+    substring: "طابِق B مع أي مقطع من A: العمود الأول كله 0 ويمكن لأي صف أن يُنهي تطابقًا",
+    substringUnavailable: "البحث عن سلسلة جزئية يتطلب ليفنشتاين أو OSA أو داميراو–ليفنشتاين",
+    methodUnavailable: "هيرشبرغ يقسم الصفوف التي تعبرها عمليات التبديل، ومتجهات بتات مايرز لا تتتبع إلا خطوات وحدوية",
+    myersNeedsUnitCosts: "وضع توازي البتات يتطلب تكاليف وحدوية",
+    maxDistance: {
+      search: "الإبقاء على المرشحين ضمن k فقط مع تقليم شجرة البادئات",
+      substring: "الإبلاغ عن كل موضع نهاية ضمن k",
+      hirschberg: "هيرشبرغ يحسب دائمًا صفوفًا كاملة",
+      myers: "وضع توازي البتات يحسب دائمًا أعمدة كاملة",
+      similarity: "درجة التشابه ليس لها مسافة تُحدّ",
+      affine: "غير متاح مع الفجوات الأفينية",
+      band: "ملء الشريط القطري |i − j| ≤ k فقط",
+    },
+    bandedFillOrder: "الملء بالشريط يسير صفًا صفًا ليتمكن من التوقف مبكرًا",
+    compare: "تشغيل إعداد ثانٍ على السلاسل نفسها جنبًا إلى جنب",
+    compareFullTables: "يقارن جدولين كاملين",
+    compareInPractice: "غير متاح في وضع التدريب",
+    practice: "املأ الخلايا بنفسك، ثم تتبّع المسار عكسيًا",
+    practiceHirschberg: "هيرشبرغ لا يملأ الجدول أبدًا",
+    practiceMyers: "وضع توازي البتات يحسب أعمدة كاملة دفعة واحدة",
+  },
+  algorithms: {
+    levenshtein: "ليفنشتاين",
+    osa: "المحاذاة المثلى للسلاسل (OSA)",
+    damerau: "داميراو–ليفنشتاين",
+    gotoh: "فجوات أفينية (غوتو)",
+    lcs: "أطول متتالية جزئية مشتركة",
+    "needleman-wunsch": "نيدلمان–وانش (شاملة)",
+    "smith-waterman": "سميث–واترمان (موضعية)",
+  },
+  tokenizations: {
+    codepoint: "نقطة ترميز",
+    grapheme: "عنقود حرفي",
+    word: "كلمة",
+    line: "سطر",
+  },
+  methods: { full: "الجدول كاملًا", hirschberg: "هيرشبرغ (مساحة خطية)", myers: "توازي البتات (مايرز)" },
+  fillOrders: {
+    "row-major": "صفًا صفًا",
+    "column-major": "عمودًا عمودًا",
+    "anti-diagonal": "قطرًا عكسيًا (جبهة موجية)",
+  },
+  layerViews: {
+    min: "min(M, X, Y)",
+    M: "M · تطابق / استبدال",
+    X: "X · حذف",
+    Y: "Y · إدراج",
+    stacked: "متراكبة",
+  },
+  playback: {
+    play: "تشغيل",
+    pause: "إيقاف مؤقت",
+    back: "رجوع",
+    step: "خطوة",
+    reset: "إعادة ضبط",
+    speed: "السرعة",
+    fillOrder: "ترتيب الملء",
+    wholeDiagonal: "قطر كامل في كل نبضة",
+    compare: "مقارنة",
+    practice: "تدريب",
+    showBacktrace: "إظهار التتبع العكسي الأمثل",
+    optimalAlignments: "المحاذاات المثلى:",
+    moreThan: (count) => `أكثر من ${count}`,
+    prev: "‹ السابق",
+    next: "التالي ›",
+    alignmentOf: (k, total) => `رقم ${k} من ${total}`,
+    tracingHit: (row) => `تتبّع عكسي لمحاذاة كسر التعادل من الصف ${row}؛ اختر أفضل تطابق لتتصفح حالات التعادل.`,
+    tieBreak: "كسر التعادل",
+    phases: { hirschberg: "هيرشبرغ", bitParallel: "توازي البتات", backtrace: "التتبع العكسي", fill: "الملء" },
+    stepOf: "الخطوة",
+    timeline: "الخط الزمني",
+    matrix: "المصفوفة",
+    left: "اليسار",
+    right: "اليمين",
+    scriptPending: "تُبنى المحاذاة ونص التحرير أثناء مرحلة التتبع العكسي، بعد ملء آخر خلية.",
+    moves: { diagonal: "قطري", transpose: "تبديل", delete: "حذف", insert: "إدراج" },
+    caption: (phase, step, total) => `${phase} · الخطوة ${step} / ${total}`,
+  },
+  band: {
+    summary: (width, filled, cells, skipped) =>
+      `الشريط |i − j| ≤ ${width}: مُلئت ${filled} من ${cells} خلية (تم تخطي ${skipped}%).`,
+    outside: (m, n, width) =>
+      `|${m} − ${n}| > ${width}: تقع (${m}, ${n}) خارج الشريط، لذا تتجاوز المسافة k قبل ملء أي شيء.`,
+    rowOver: (row, k, min, m, n) =>
+      `كل خلايا الشريط في الصف ${row} تتجاوز k = ${k} (أصغرها ${min})، وكل مسار إلى (${m}, ${n}) يعبر هذا الصف، لذا توقف الحساب هناك.`,
+    rowsOver: (first, last, k, m, n) =>
+      `كل خلايا الشريط في الصفوف من ${first} إلى ${last} تتجاوز k = ${k}، ولا يمكن لأي تبديل ضمن k أن يقفز فوقها كلها في الطريق إلى (${m}, ${n})، لذا توقف الحساب هناك.`,
+    lastRowOver: (m, n, value) => `تم بلوغ الصف الأخير، لكن dp[${m}][${n}] = ${value} > k.`,
+    skipped: "متخطّاة",
+    pruned: (i, j, width, k) =>
+      `|${i} − ${j}| = ${Math.abs(i - j)} > ${width}: بلوغ هذه الخلية يتطلب هذا العدد من عمليات الإدراج أو الحذف، وتكلفتها تتجاوز k = ${k}، لذا تم تقليمها.`,
+    notReached: (row, reason) => `لم يُبلغ الصف ${row} قط. ${reason}`,
+  },
+  optimum: { distance: "المسافة", lcsLength: "طول LCS", score: "النتيجة", bestMatch: "أفضل تطابق" },
+  cell: {
+    title: "الخلية الحالية",
+    ops: {
+      match: "تطابق",
+      replace: "استبدال",
+      insert: "إدراج",
+      delete: "حذف",
+      transpose: "تبديل",
+      init: "بداية",
+    },
+    zeroFloor: "أرضية الصفر (ابدأ هنا)",
+    units: { char: "حرف", word: "كلمة", line: "سطر" },
+    tokenA: (unit) => `${unit} من A (صف)`,
+    tokenB: (unit) => `${unit} من B (عمود)`,
+    backtrace: (k, total) => `التتبع العكسي · الخلية ${k} من ${total}`,
+    cameFrom: "جاءت من",
+    by: {
+      match: "بتطابق",
+      replace: "باستبدال",
+      insert: "بإدراج",
+      delete: "بحذف",
+      transpose: "بتبديل",
+      init: "بالبدء هنا",
+    },
+    tiesPicked: (count) => `تتعادل هنا ${count} خلايا سابقة؛ ترتيب كسر التعادل يختار هذه.`,
+    tiesBranch: (count, k) => `تتعادل هنا ${count} خلايا سابقة؛ المحاذاة رقم ${k} تسلك هذا الفرع.`,
+    onlyPredecessor: "إنها الخلية السابقة الوحيدة التي تبلغ هذه القيمة.",
+    complete: (i, j) => `تم بلوغ (${i}, ${j}): اكتملت المحاذاة.`,
+    candidates: "المرشّحات",
+    from: "من",
+    tie: "تعادل",
+  },
+  rule: {
+    title: "القاعدة",
+    delete: "حذف",
+    insert: "إدراج",
+    matchReplace: "تطابق/استبدال",
+    transposeOsa: "تبديل، إذا كان aᵢ₋₁aᵢ = bⱼbⱼ₋₁",
+    transposeDamerau: "تبديل، k = آخر صف فيه aₖ = bⱼ، و l = آخر عمود فيه bₗ = aᵢ",
+    cost: (replace) => `cost(a, b) = 0 إذا كان a = b، وإلا ${replace}`,
+    substitutionOverride: "، ما لم يحدد زوج استبدال غير ذلك",
+    affine: (open, replace) =>
+      `تنتهي M بتطابق أو استبدال، و X بحذف، و Y بإدراج. البقاء في X أو Y يمدّ فجوة؛ والدخول إليها يفتح فجوة بتكلفة ${open} إضافية. cost(a, b) = 0 إذا كان a = b، وإلا ${replace}.`,
+    gap: "فجوة",
+    lcsMatch: "تطابق، فقط إذا كان aᵢ = bⱼ",
+    zeroEdges: "الصف الأول والعمود الأول قيمتهما 0.",
+    startHere: "ابدأ هنا",
+    matchMismatch: "تطابق/عدم تطابق",
+    score: (match, mismatch) => `s(a, b) = ${match} إذا كان a = b، وإلا ${mismatch}.`,
+    local: "الصف الأول والعمود الأول قيمتهما 0؛ يبدأ التتبع العكسي من أفضل خلية ويتوقف حيث أعاد 0 البداية.",
+    global: (gap) => `الصف الأول والعمود الأول قيمتهما i·${gap} و j·${gap}.`,
+  },
+  tips: {
+    title: "نصائح سريعة",
+    items: [
+      "القطر تطابق/استبدال؛ الأعلى حذف؛ اليسار إدراج (اليمين في جدول من اليمين إلى اليسار).",
+      'اختر OSA أو داميراو–ليفنشتاين لتصبح تكلفة "ab" ← "ba" تبديلًا واحدًا بدل استبدالين.',
+      "عند تفعيل «إظهار التتبع العكسي الأمثل» يستمر التشغيل بعد آخر خلية ويعود بالمسار إلى (0, 0)، مظلِّلًا كل خلية على مسار أمثل ما؛ ويتنقّل السابق / التالي بين المحاذاات.",
+      "تحسب الفجوات الأفينية (غوتو) «فتح فجوة» مرة واحدة لكل سلسلة متصلة من الإدراج أو الحذف، باستخدام ثلاث مصفوفات؛ اختر إحداها فوق الجدول أو اعرضها متراكبة، وراقب التتبع العكسي وهو ينتقل بينها.",
+      "تعظّم LCS ونيدلمان–وانش وسميث–واترمان نتيجةً على الجدول نفسه: الإدراج / الحذف فجوات والاستبدال عدم تطابق. ويبدأ سميث–واترمان التتبع العكسي من أفضل خلية لديه أينما كانت.",
+      "وضع هيرشبرغ (ليفنشتاين فقط) لا يملأ الجدول أبدًا: يحسب صفًا أوسط من الطرفين، ثم يقسم عنده ويكرر، مظلِّلًا المناطق المفتوحة.",
+      "وضع توازي البتات (ليفنشتاين بتكاليف وحدوية) يحسب عمودًا كاملًا في كل خطوة من متجهات بتات لفروق ±1، كما تفعل خوارزمية مايرز؛ وتعرض اللوحة الجانبية كل متجه وحمل جمعه.",
+      "حدد أقصى مسافة k لملء الشريط القطري الذي يمكن لمسار ضمن k استخدامه فقط، مع التوقف حين يتجاوز صف كامل k؛ مرّر المؤشر فوق خلية رمادية لمعرفة سبب تخطيها.",
+      "فعّل «البحث في قائمة كلمات» لترتيب كل سطر مقابل A؛ النتائج التي تتشارك بادئة تعيد استخدام صفوفها من شجرة بادئات، والنقر على إحداها يفتحها هنا مع تلوين الأعمدة المعاد استخدامها بالأخضر.",
+      "فعّل «ابحث عن B في A» للبحث عن B داخل A: قد يبدأ التطابق من أي صف، لذا العمود الأول كله 0، وكل صف في العمود الأخير ضمن k ينهي تطابقًا. انقر على تطابق مُعلَّم لتتبّعه عكسيًا.",
+      "يحفظ تصدير… هذا الإطار بصيغة SVG / PNG، أو يسجّل الملء والتتبع العكسي كاملين بصيغة GIF أو WebM بالسرعة الحالية، أو يُخرج الجدول مع تعليم التتبع العكسي بصيغة CSV أو Markdown أو LaTeX أو نص عادي.",
+      "تشغّل المقارنة إعدادًا ثانيًا على السلاسل نفسها بجانب الأول، على خط زمني واحد: الخلايا ذات القيمة المختلفة تُلوَّن بالوردي، والخلايا التي يختار فيها كسر التعادل عملية أخرى تُحاط بخط متقطع، ويسرد الملخص التعديلات التي يجريها جانب واحد فقط.",
+      "يخفي وضع التدريب الإجابات: اكتب قيمة كل خلية في الجدول (واختر عمليتها إن شئت)، واضغط Enter للتحقق، ثم انقر عائدًا على طول مسار أمثل.",
+      "السلاسل العربية أو العبرية تعكس الجدول (انظر «اتجاه النص»): يقع العمود 1 بجوار عناوين الصفوف على اليمين وتشير الأسهم إلى الجهة الأخرى، بينما يحتفظ i و j بمعناهما.",
+      "المسافة تشغّل / توقف مؤقتًا، و ← / → تتقدم خطوة، و Home / End تقفز؛ انقر على خلية مملوءة للعودة إليها.",
+      "ادخل إلى الجدول بمفتاح Tab للتنقل خلية خلية بمفاتيح الأسهم (Home / End لطرفي الصف، ومع Ctrl للزوايا) واضغط Enter للعودة إلى خلية؛ وتسمع قارئات الشاشة كل خطوة أثناء التشغيل.",
+      'جرّب سلاسل قصيرة أولًا (مثلًا "kitten" ← "sitting").',
+    ],
+  },
+  footer: (order, local) =>
+    `كسر تعادل حتمي: ${order} (تتبعه المحاذاة رقم 1؛ وتُحفظ كل المرشّحات المتعادلة كآباء مُثلى${
+      local ? "؛ والخلية التي تبلغها أرضية الصفر تبدأ المحاذاة قبل أي حركة" : ""
+    }).`,
+  compare: {
+    heading: (side, label) => `${side}: ${label}`,
+    alignment: (k, summary) => `المحاذاة رقم ${k}: ${summary}`,
+    editCount: (count, op) =>
+      `${{ replace: "استبدال", insert: "إدراج", delete: "حذف", transpose: "تبديل" }[op]} × ${count}`,
+    separator: "، ",
+    noEdits: "لا تعديلات",
+    cellsDiffer: (values, cells, ops) =>
+      `${values} من ${cells} خلية تختلف في القيمة (باللون الوردي) و${ops} في العملية التي يختارها كسر التعادل (بخط متقطع).`,
+    sharedPath: (shared, left, right) => `يشترك المساران في ${shared} من ${left} / ${right} خلية.`,
+    tooLarge: (cells) => `بعد ${cells} خلية لا تُقارَن الجداول خلية بخلية.`,
+    sameEdits: "المحاذاتان تجريان التعديلات نفسها.",
+    onlyLeft: "اليسار فقط",
+    onlyRight: "اليمين فقط",
+    nothing: "لا شيء",
+    settings: "الجانب الأيمن",
+    shared: "(A و B والوحدات والدرجات والاستبدالات مشتركة)",
+  },
+  edits: {
+    replace: (from, to, at) => `استبدال '${from}'→'${to}' عند ${at}`,
+    transpose: (from, to, at) => `تبديل '${from}'→'${to}' عند ${at}`,
+    insert: (to, at) => `إدراج '${to}' عند ${at}`,
+    delete: (from, at) => `حذف '${from}' عند ${at}`,
+  },
+  script: {
+    title: "المحاذاة / نص التحرير",
+    exportText: "تصدير نصًا",
+    exportJson: "تصدير JSON",
+    noEdits: "لا حاجة إلى أي تعديل.",
+  },
+  search: {
+    found: (hits, candidates, k) => `${hits} من ${candidates} مرشحًا${k !== null ? ` ضمن k = ${k}` : ""}`,
+    trie: (filled, rows, reused, pruned) =>
+      `ملأت شجرة البادئات ${filled} من ${rows} صفًا · أُعيد استخدام ${reused}${pruned ? ` · قُلّم ${pruned} بعد تجاوز k` : ""}`,
+    noneWithin: "لا يوجد مرشح ضمن k.",
+    pasteList: "الصق قائمة كلمات للبحث فيها.",
+    allNew: "كل الصفوف جديدة",
+    sharedRows: (rows, from) => `${rows} ${rows > 1 ? "صفوف" : "صف"} من «${from}»`,
+    more: (count) => `… و${count} أخرى.`,
+    explain: (otherAlgorithm) =>
+      `مرتبة حسب ليفنشتاين بالأوزان أدناه${otherAlgorithm ? "؛ والزوج المفتوح يستخدم الخوارزمية المختارة" : ""}. كل عقدة في شجرة البادئات تحفظ صفًا واحدًا من الجدول، هو بادئتها محسوبة مقابل A كلها (عمود من الشبكة)، لذا يتشارك المرشحون ذوو البادئة المشتركة تلك الصفوف. انقر على نتيجة لتتبعها خطوة بخطوة.`,
+    reused: (cols, prefix, from) =>
+      `الأعمدة 0–${cols} («${prefix}») صفوف في شجرة البادئات ملأها البحث من قبل لـ «${from}»: كل منها بادئة محسوبة مقابل A كلها.`,
+    newWork: (first, last) => `الأعمدة ${first}–${last} وحدها كانت عملًا جديدًا لهذا المرشح.`,
+    noNewWork: "لم يكن أي شيء عملًا جديدًا لهذا المرشح.",
+  },
+  hits: {
+    within: (count, k) => `${count.toLocaleString()} ${count > 1 ? "مواضع نهاية" : "موضع نهاية"} ضمن k = ${k}`,
+    atBest: (count, best) =>
+      `${count.toLocaleString()} ${count > 1 ? "مواضع نهاية" : "موضع نهاية"} بأفضل تكلفة، ${best}`,
+    none: (k, best) => `لا تطابق ضمن k = ${k}؛ أفضلها يكلّف ${best}.`,
+    rows: (start, end) => `الصفوف ${start}–${end}`,
+    explain:
+      "صيغة سيلرز: العمود الأول كله 0، لذا يمكن أن يبدأ التطابق مجانًا من أي صف في A، والصف i من العمود الأخير هو أرخص تطابق لـ B ينتهي بالوحدة رقم i من A. يبدأ التطابق حيث يبلغ التتبع العكسي من هناك العمود الأول. انقر على تطابق لتتبّعه عكسيًا.",
+  },
+  practice: {
+    title: "تدريب",
+    fill: "املأ الجدول",
+    traceBack: "تتبّع عكسيًا",
+    done: "انتهى",
+    versus: (a, b) => `${a} مقابل ${b}`,
+    typeCell: (i, j) => `اكتب dp[${i}][${j}] في الخلية المحددة واضغط Enter.`,
+    operation: "العملية (اختياري)",
+    check: "تحقق",
+    hint: "تلميح",
+    noTrace: (optimum) => `${optimum} تتجاوز k، لذا لا توجد محاذاة لتتبعها عكسيًا.`,
+    traceFrom: (i, j) =>
+      `امتلأ الجدول. تتبّع الآن مسارًا أمثل عكسيًا: انقر على الخلية التي يصل منها المسار إلى (${i}, ${j}).`,
+    yourPath: (k, total, first) =>
+      `مسارك هو ${k === null ? "محاذاة مثلى" : `المحاذاة المثلى رقم ${k}`} من ${total}${
+        first ? "، وهي التي يختارها كسر التعادل" : ""
+      }.`,
+    typeNumber: "اكتب رقمًا (∞ للانهاية).",
+    wrongValue: (value, at) => `${value} ليست ${at}. راجع المرشحين أو اطلب تلميحًا.`,
+    wrongOp: (at, value, op, ops) => `${at} = ${value} صحيحة، لكن ${op} لا تصل إليها: ${ops} تصل.`,
+    right: (at, value, ops) => `${at} = ${value}${ops ? `، عبر ${ops}` : ""}.`,
+    noStep: (fromI, fromJ, i, j) => `لا يخطو أي مسار أمثل من (${fromI}, ${fromJ}) إلى (${i}, ${j}).`,
+    score: "النتيجة",
+    finalScore: "النتيجة النهائية",
+    firstTry: (right, asked) => `خلايا صحيحة من المحاولة الأولى: ${right} / ${asked}`,
+    ops: (right, asked) => `العمليات: ${right} / ${asked}`,
+    hints: (used) => `التلميحات: ${used}`,
+    traceMistakes: (count) => `نقرات تتبع خاطئة: ${count}`,
+    startOver: "ابدأ من جديد",
+  },
+  hirschberg: {
+    title: "هيرشبرغ",
+    frames: {
+      forward: "النصف الأمامي",
+      reverse: "النصف العكسي",
+      split: "التقسيم",
+      solve: "حل الشريحة",
+    },
+    region: "المنطقة",
+    depth: (depth) => `العمق ${depth}`,
+    forward: (top, row) =>
+      `احسب الجدول نزولًا من الصف ${top} إلى الصف الأوسط ${row} مع الاحتفاظ بصفين فقط: كل قيمة هي التكلفة من (0, 0) إلى تلك الخلية من الصف ${row}.`,
+    reverse: (bottom, right, row) =>
+      `احسب الجدول نفسه عكسيًا من (${bottom}, ${right}) صعودًا إلى الصف ${row}: كل قيمة هي التكلفة من تلك الخلية إلى زاوية المنطقة.`,
+    split: (ties, row, col, upper, lower) =>
+      `مجموع الأمامي والعكسي أصغر ما يكون في ${ties.length > 1 ? "الأعمدة" : "العمود"} ${ties.join("، ")}، لذا يعبر مسار أمثل الصف ${row} هناك${
+        ties.length > 1 ? "؛ ومسار كسر التعادل يعبره" : ""
+      } عند (${row}, ${col}). تكرار على ${upper} و${lower}.`,
+    solve: (bottom, right, ops) =>
+      `بقي صفان على الأكثر: املأهما مباشرة وتتبّع عكسيًا من (${bottom}, ${right}): ${ops}.`,
+    nothingToDo: "لا شيء للقيام به",
+    assembling: "تُجمَّع المحاذاة من الشرائح المحلولة بعد انتهاء آخر منطقة.",
+    done: (distance, frames) =>
+      `المسافة ${distance} بعد ${frames} إطارًا، مع الاحتفاظ بصفين من الدرجات على الأكثر في كل مرة.`,
+    sameAlignment: "المسار المُجمَّع هو المحاذاة نفسها التي يختارها التتبع العكسي للجدول الكامل (رقم 1).",
+    otherAlignment: "المسار المُجمَّع يختلف عن التتبع العكسي للجدول الكامل.",
+    colourKey:
+      "سماوي: الدرجات الأمامية · وردي: الدرجات العكسية · كهرماني: الأعمدة التي يكون مجموعها فيها أصغر · الحدود: المناطق التي ما زالت مفتوحة، والداخلية بخط متصل · مظلل: المسار الذي وُجد حتى الآن.",
+  },
+  myers: {
+    column: (j) => `العمود ${j}`,
+    emptyPrefix: "بادئة B الفارغة",
+    token: "وحدة B",
+    column0: (m) =>
+      `العمود 0 هو 0، 1، …، ${m}: كل خلية تزيد واحدًا على الخلية فوقها، لذا كل بتات Pv الـ ${m} مضبوطة ولا شيء في Mv. تُحفظ هذه الفروق فقط، لا القيم أبدًا.`,
+    step: (prev, j) =>
+      `يعلّم Eq صفوف A التي تحمل هذه الوحدة. جمع Pv مع Eq & Pv يرسل حملًا صاعدًا من كل تطابق عبر الصفوف التي كانت +1 في العمود السابق؛ ويجمع Xh المواضع التي يمكن أن يأتي منها −1 من اليسار. Ph / Mh هما الفروق من العمود ${prev} إلى ${j}؛ وبإزاحتهما صفًا إلى الأسفل (الصف 0 يزيد واحدًا دائمًا) يعطيان Pv / Mv الجديدين، وفرق الصف الأخير يحرّك الدرجة.`,
+    row: (i) => `الصف ${i}`,
+    carry: "الحمل",
+    sum: "المجموع",
+    plusIn: (column) => `+1 في العمود ${column}`,
+    minusIn: (column) => `−1 في العمود ${column}`,
+    carryOf: (sum) => `من ${sum}`,
+    showingRows: (shown, m) => `تُعرض الصفوف 1–${shown} من ${m}.`,
+    done: (distance, columns, m) =>
+      `المسافة ${distance} بعد ${columns} عمودًا، كل منها عدد ثابت من العمليات على متجهات من ${m} بت.`,
+    matches: "القيم المعاد بناؤها من Pv / Mv تطابق الجدول الكامل في كل عمود.",
+    mismatch: (j) => `القيم المعاد بناؤها من Pv / Mv تختلف عن الجدول الكامل في العمود ${j}.`,
+    noBacktrace: "لا يوجد تتبع عكسي: انتقل إلى الجدول كاملًا للحصول على محاذاة.",
+    colourKey: (m) =>
+      `تُقرأ البتات كعدد ثنائي: الصف ${m} على اليسار والصف 1 على اليمين. وردي: فروق +1 · زمردي: فروق −1 · سماوي: تطابقات · كهرماني: حمل · الحدود: العمود المحسوب للتو.`,
+  },
+  grid: {
+    table: "جدول البرمجة الديناميكية",
+    leftTable: "جدول البرمجة الديناميكية الأيسر",
+    rightTable: "جدول البرمجة الديناميكية الأيمن",
+    cell: (i, row, j, col, value) => `الصف ${i} ${row}، العمود ${j} ${col}: ${value}`,
+    empty: "فارغ",
+    skipped: "متخطّاة",
+    notFilled: "لم تُملأ بعد",
+    onPath: "، على المسار",
+    delete: "حذف",
+    insert: "إدراج",
+    matchReplace: "تطابق / استبدال",
+    transposeFrom: (i, j) => `تبديل من (${i}, ${j})`,
+    overview: (rows, cols) => `نظرة عامة · ${rows} × ${cols} خلية · انقر للانتقال`,
+    colours: "الألوان",
+  },
+  narration: {
+    nothing: "لا شيء",
+    emptyLine: "سطر فارغ",
+    space: "مسافة",
+    tab: "جدولة",
+    cell: (i, j) => `الخلية ${i},${j}`,
+    inLayer: (layer) => ` في ${layer}`,
+    match: (a) => `تطابق ${a}`,
+    replace: (a, b) => `استبدال ${a} بـ ${b}`,
+    insert: (b) => `إدراج ${b}`,
+    delete: (a) => `حذف ${a}`,
+    transpose: (first, second) => `تبديل ${first} ${second}`,
+    emptyPrefixes: "بادئات فارغة",
+    startHere: "ابدأ هنا",
+    cost: "التكلفة",
+    score: "النتيجة",
+    from: "من",
+    prompt: (a, b) => `${a} مقابل ${b}، دورك`,
+    backtrace: "تتبع عكسي",
+    traceAt: (i, j) => `مسارك عند الخلية ${i},${j}`,
+    forwardRow: (row, left, right, top) => `نصف الصف الأمامي ${row}، الأعمدة ${left} إلى ${right}، من الصف ${top}`,
+    reverseRow: (row, left, right, bottom) => `نصف الصف العكسي ${row}، الأعمدة ${left} إلى ${right}، من الصف ${bottom}`,
+    split: (row, col) => `تقسيم عند الصف ${row}، العمود ${col}`,
+    solved: (top, bottom, left, right) => `حُلّت الصفوف ${top} إلى ${bottom}، الأعمدة ${left} إلى ${right}`,
+    column: (j) => `العمود ${j}`,
+    lastRow: (score) => `${score} في الصف الأخير`,
+  },
+};
+
+export type Language = "en" | "es" | "fr" | "ar";
+
+export const MESSAGES: Record<Language, Messages> = { en, es, fr, ar };
+
+/** The language switcher's entries, each named in its own language. */
+export const LANGUAGES: { value: Language; label: string; dir: Direction }[] = [
+  { value: "en", label: "English", dir: "ltr" },
+  { value: "es", label: "Español", dir: "ltr" },
+  { value: "fr", label: "Français", dir: "ltr" },
+  { value: "ar", label: "العربية", dir: "rtl" },
+];
+
+/** The first of the browser's preferred languages (e.g. navigator.languages) the page speaks, else English. */
+export function matchLanguage(preferred: readonly string[]): Language {
+  for (const tag of preferred) {
+    const primary = tag.toLowerCase().split("-")[0];
+    const hit = LANGUAGES.find((l) => l.value === primary);
+    if (hit) return hit.value;
+  }
+  return "en";
+}
+
+const STRONG = /\p{L}/u;
+const RIGHT_TO_LEFT = /[\p{Script=Hebrew}\p{Script=Arabic}\p{Script=Syriac}\p{Script=Thaana}\p{Script=Nko}]/u;
+
+/**
+ * The direction the first letter across `texts` is written in, the way
+ * dir="auto" picks one: digits, spaces and punctuation don't count, and text
+ * with no letters at all reads left to right.
+ */
+export function textDirection(...texts: string[]): Direction {
+  for (const text of texts) {
+    const letter = STRONG.exec(text);
+    if (letter) return RIGHT_TO_LEFT.test(letter[0]) ? "rtl" : "ltr";
+  }
+  return "ltr";
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { GIF_PALETTE, createGifEncoder, gifScale, gridSvg, sampleFrames } from "./media";
+
+// just enough of a GIF decoder to read back what the encoder writes
+function decodeGif(bytes: Uint8Array) {
+  const u16 = (p: number) => bytes[p] | (bytes[p + 1] << 8);
+  const width = u16(6);
+  const height = u16(8);
+  const canvas = new Uint8Array(width * height);
+  const frames: { canvas: Uint8Array; delay: number }[] = [];
+  let p = 13 + 256 * 3;
+  let delay = 0;
+  while (bytes[p] !== 0x3b) {
+    if (bytes[p] === 0x21) {
+      if (bytes[p + 1] === 0xf9) delay = u16(p + 4);
+      p += 2;
+      while (bytes[p] !== 0) p += bytes[p] + 1;
+      p++;
+      continue;
+    }
+    const [x0, y0, w, h] = [u16(p + 1), u16(p + 3), u16(p + 5), u16(p + 7)];
+    const minCodeSize = bytes[p + 10];
+    p += 11;
+    const data: number[] = [];
+    while (bytes[p] !== 0) {
+      data.push(...bytes.subarray(p + 1, p + 1 + bytes[p]));
+      p += bytes[p] + 1;
+    }
+    p++;
+
+    const clear = 1 << minCodeSize;
+    let codeSize = minCodeSize + 1;
+    let dict: number[][] = [];
+    const reset = () => {
+      dict = Array.from({ length: clear + 2 }, (_, k) => [k]);
+      codeSize = minCodeSize + 1;
+    };
+    const pixels: number[] = [];
+    let prev: number[] | null = null;
+    let bit = 0;
+    for (;;) {
+      let code = 0;
+      for (let k = 0; k < codeSize; k++, bit++) code |= ((data[bit >> 3] >> (bit & 7)) & 1) << k;
+      if (code === clear) {
+        reset();
+        prev = null;
+        continue;
+      }
+      if (code === clear + 1) break;
+      const entry: number[] = code < dict.length ? dict[code] : [...prev!, prev![0]];
+      pixels.push(...entry);
+      if (prev) dict.push([...prev, entry[0]]);
+      prev = entry;
+      if (dict.length === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    for (let y = 0; y < h; y++) for (let x = 0; x < w; x++) canvas[(y0 + y) * width + x0 + x] = pixels[y * w + x];
+    frames.push({ canvas: canvas.slice(), delay });
+  }
+  return { width, height, frames };
+}
+
+function rgba(indices: number[]) {
+  const out = new Uint8ClampedArray(indices.length * 4);
+  indices.forEach((k, p) => {
+    out.set(GIF_PALETTE[k], p * 4);
+    out[p * 4 + 3] = 255;
+  });
+  return out;
+}
+
+describe("createGifEncoder", () => {
+  it("round-trips frames, storing only what changed", () => {
+    const w = 160;
+    const h = 120;
+    // enough distinct runs to grow the code size and fill the LZW table
+    const first = Array.from({ length: w * h }, (_, p) => (p * 7919 + (p >> 3)) % 97);
+    const second = first.slice();
+    second[5 * w + 9] = 3;
+    second[6 * w + 12] = 4;
+    const gif = createGifEncoder(w, h, 350);
+    gif.addFrame(rgba(first));
+    gif.addFrame(rgba(second));
+    gif.addFrame(rgba(second));
+    const bytes = gif.finish();
+    expect(String.fromCharCode(...bytes.subarray(0, 6))).toBe("GIF89a");
+
+    const decoded = decodeGif(bytes);
+    expect([decoded.width, decoded.height]).toEqual([w, h]);
+    expect(decoded.frames.map((f) => f.delay)).toEqual([35, 35, 35]);
+    expect(Array.from(decoded.frames[0].canvas)).toEqual(first);
+    expect(Array.from(decoded.frames[1].canvas)).toEqual(second);
+    expect(Array.from(decoded.frames[2].canvas)).toEqual(second);
+  });
+
+  it("maps colours to the nearest palette entry", () => {
+    const gif = createGifEncoder(1, 1, 100);
+    const exact = GIF_PALETTE[0];
+    gif.addFrame(new Uint8ClampedArray([exact[0] ^ 1, exact[1], exact[2], 255]));
+    expect(decodeGif(gif.finish()).frames[0].canvas[0]).toBe(0);
+  });
+
+  it("keeps long recordings to a sample of small frames", () => {
+    expect(sampleFrames(4, 300)).toEqual([0, 1, 2, 3]);
+    const frames = sampleFrames(2600, 300);
+    expect(frames).toHaveLength(300);
+    expect([frames[0], frames[299]]).toEqual([0, 2599]);
+    expect(frames.every((k, idx) => idx === 0 || k > frames[idx - 1])).toBe(true);
+    expect(Math.round(gifScale(2100, 1050) * 2100)).toBe(640);
+    expect(gifScale(400, 300)).toBe(1);
+  });
+});
+
+describe("gridSvg", () => {
+  it("draws every cell with its headers and caption", () => {
+    const { svg, width, height } = gridSvg({
+      a: ["a", "<"],
+      b: ["b"],
+      cell: (i, j) => ({ tone: i === j ? "path" : "shown", text: String(i + j) }),
+      current: [1, 1],
+      caption: "Step 3 / 5",
+    });
+    expect(width).toBeGreaterThan(0);
+    expect(height).toBeGreaterThan(0);
+    expect(svg.startsWith("<svg")).toBe(true);
+    expect(svg).toContain("Step 3 / 5");
+    expect(svg).toContain("&#60;");
+    expect(svg.match(/<rect /g)).toHaveLength(1 + 3 * 2 + 1);
+  });
+});
@@ -0,0 +1,403 @@
+/**
+ * Image and video export of the DP grid. A frame is drawn as a standalone SVG
+ * in the page's colours (no stylesheet needed), rasterized through an <img>
+ * for PNG, and a run of frames becomes an animated GIF (encoded here, storing
+ * only the rectangle that changed since the previous frame) or a WebM
+ * recorded from a canvas in real time.
+ */
+
+export type CellTone =
+  "hidden" | "shown" | "reused" | "pruned" | "path" | "dag" | "forward" | "reverse" | "sum" | "tie";
+
+export type GridFrame = {
+  a: readonly string[];
+  b: readonly string[];
+  /** how cell (i, j) looks; null text leaves it blank */
+  cell: (i: number, j: number) => { tone: CellTone; text: string | null };
+  current: [number, number] | null;
+  /** outlined subproblems, outermost first (Hirschberg) */
+  regions?: { top: number; left: number; bottom: number; right: number }[];
+  caption: string;
+};
+
+// fill, border, text — the Tailwind colours the grid uses on the page
+const TONE_COLORS: Record<CellTone, [string, string, string]> = {
+  hidden: ["#ffffff", "#e2e8f0", "#cbd5e1"],
+  shown: ["#ffffff", "#e2e8f0", "#1e293b"],
+  reused: ["#ecfdf5", "#a7f3d0", "#1e293b"],
+  pruned: ["#f1f5f9", "#e2e8f0", "#94a3b8"],
+  path: ["#e7e8ea", "#94a3b8", "#1e293b"],
+  dag: ["#f3f4f4", "#e2e8f0", "#1e293b"],
+  forward: ["#f0f9ff", "#7dd3fc", "#075985"],
+  reverse: ["#fff1f2", "#fda4af", "#9f1239"],
+  sum: ["#ffffff", "#cbd5e1", "#64748b"],
+  tie: ["#fffbeb", "#fbbf24", "#92400e"],
+};
+
+const REGION_COLORS = ["#64748b", "#0ea5e9", "#8b5cf6", "#10b981", "#f59e0b"];
+const INK = "#0f172a";
+const MUTED = "#475569";
+const BACKGROUND = "#f8fafc";
+
+// px per cell in exports; smaller than the page's so whole tables fit on a slide
+const PITCH = 40;
+const PAD = 12;
+const CAPTION = 28;
+
+function escapeXml(s: string) {
+  return s.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+// long words / lines are cut, as the page's header chips do
+function label(t: string) {
+  const shown = t === " " ? "␠" : t === "\t" ? "⇥" : t;
+  const chars = Array.from(shown);
+  return chars.length > 8 ? `${chars.slice(0, 7).join("")}…` : shown;
+}
+
+export function gridSvg(f: GridFrame) {
+  const m = f.a.length;
+  const n = f.b.length;
+  const longest = f.a.reduce((w, t) => Math.max(w, Array.from(label(t)).length), 1);
+  const headerWidth = Math.min(200, Math.max(PITCH, 16 + longest * 8));
+  const left = PAD + headerWidth;
+  const top = PAD + CAPTION + PITCH;
+  const width = left + (n + 1) * PITCH + PAD;
+  const height = top + (m + 1) * PITCH + PAD;
+  const mid = PITCH / 2;
+  const out = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="ui-monospace, SFMono-Regular, Menlo, Consolas, monospace">`,
+    `<rect width="${width}" height="${height}" fill="${BACKGROUND}"/>`,
+    `<text x="${PAD}" y="${PAD + 16}" font-size="14" font-family="ui-sans-serif, system-ui, sans-serif" fill="${INK}">${escapeXml(f.caption)}</text>`,
+  ];
+  for (let j = 0; j <= n; j++) {
+    const text = j === 0 ? "∅" : label(f.b[j - 1]);
+    out.push(
+      `<text x="${left + j * PITCH + mid}" y="${top - mid + 4}" font-size="12" text-anchor="middle" fill="${MUTED}">${escapeXml(text)}</text>`
+    );
+  }
+  for (let i = 0; i <= m; i++) {
+    const text = i === 0 ? "∅" : label(f.a[i - 1]);
+    out.push(
+      `<text x="${left - 8}" y="${top + i * PITCH + mid + 4}" font-size="12" text-anchor="end" fill="${MUTED}">${escapeXml(text)}</text>`
+    );
+    for (let j = 0; j <= n; j++) {
+      const { tone, text: value } = f.cell(i, j);
+      const [fill, stroke, ink] = TONE_COLORS[tone];
+      const x = left + j * PITCH;
+      const y = top + i * PITCH;
+      const dash = tone === "pruned" ? ` stroke-dasharray="3 2"` : "";
+      out.push(
+        `<rect x="${x + 2}" y="${y + 2}" width="${PITCH - 4}" height="${PITCH - 4}" rx="8" fill="${fill}" stroke="${stroke}"${dash}/>`
+      );
+      if (value !== null) {
+        out.push(
+          `<text x="${x + mid}" y="${y + mid + 4}" font-size="13" text-anchor="middle" fill="${ink}">${escapeXml(value)}</text>`
+        );
+      }
+    }
+  }
+  (f.regions ?? []).forEach((r, d) => {
+    const dash = d === f.regions!.length - 1 ? "" : ` stroke-dasharray="6 4"`;
+    out.push(
+      `<rect x="${left + r.left * PITCH}" y="${top + r.top * PITCH}" width="${(r.right - r.left + 1) * PITCH}" height="${(r.bottom - r.top + 1) * PITCH}" rx="12" fill="none" stroke="${REGION_COLORS[d % REGION_COLORS.length]}" stroke-width="2"${dash}/>`
+    );
+  });
+  if (f.current) {
+    const [i, j] = f.current;
+    out.push(
+      `<rect x="${left + j * PITCH + 2}" y="${top + i * PITCH + 2}" width="${PITCH - 4}" height="${PITCH - 4}" rx="8" fill="none" stroke="${INK}" stroke-width="2.5"/>`
+    );
+  }
+  out.push("</svg>");
+  return { svg: out.join("\n"), width, height };
+}
+
+/** Draws an SVG onto a fresh canvas at `scale`. */
+export function rasterize(svg: string, width: number, height: number, scale = 1): Promise<HTMLCanvasElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      canvas.getContext("2d")!.drawImage(img, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      resolve(canvas);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("The browser could not draw the exported SVG"));
+    };
+    img.src = url;
+  });
+}
+
+export function canvasBlob(canvas: HTMLCanvasElement, type = "image/png"): Promise<Blob> {
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error(`Could not encode ${type}`))), type)
+  );
+}
+
+export function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function hexRgb(hex: string): [number, number, number] {
+  const v = parseInt(hex.slice(1), 16);
+  return [v >> 16, (v >> 8) & 255, v & 255];
+}
+
+/**
+ * 256 colours: every colour a frame is drawn in, so flat areas stay exact, a
+ * grey ramp for anti-aliased text, and a coarse colour cube for the rest.
+ */
+export const GIF_PALETTE: [number, number, number][] = (() => {
+  const exact = [...Object.values(TONE_COLORS).flat(), ...REGION_COLORS, INK, MUTED, BACKGROUND].map(hexRgb);
+  const seen = new Set<number>();
+  const colors: [number, number, number][] = [];
+  const add = (c: [number, number, number]) => {
+    const key = (c[0] << 16) | (c[1] << 8) | c[2];
+    if (colors.length < 256 && !seen.has(key)) {
+      seen.add(key);
+      colors.push(c);
+    }
+  };
+  exact.forEach(add);
+  for (let g = 0; g < 32; g++) add([g * 8 + 4, g * 8 + 4, g * 8 + 4]);
+  const levels = [0, 64, 128, 192, 255];
+  for (const r of levels) for (const g of levels) for (const b of levels) add([r, g, b]);
+  while (colors.length < 256) colors.push([0, 0, 0]);
+  return colors;
+})();
+
+/** GIF's variable-width LZW, packed into 255-byte sub-blocks. */
+function lzw(pixels: Uint8Array, out: number[]) {
+  const minCodeSize = 8;
+  const clear = 1 << minCodeSize;
+  const end = clear + 1;
+  let codeSize = minCodeSize + 1;
+  let next = end + 1;
+  let dict = new Map<number, number>();
+  const bytes: number[] = [];
+  let acc = 0;
+  let bits = 0;
+  const emit = (code: number) => {
+    acc |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      bytes.push(acc & 255);
+      acc >>>= 8;
+      bits -= 8;
+    }
+  };
+
+  emit(clear);
+  let prefix = pixels[0];
+  for (let k = 1; k < pixels.length; k++) {
+    const key = (prefix << 8) | pixels[k];
+    const known = dict.get(key);
+    if (known !== undefined) {
+      prefix = known;
+      continue;
+    }
+    emit(prefix);
+    if (next < 4096) {
+      dict.set(key, next++);
+      if (next > 1 << codeSize && codeSize < 12) codeSize++;
+    } else {
+      // table full: start over rather than keep coding with stale entries
+      emit(clear);
+      dict = new Map();
+      codeSize = minCodeSize + 1;
+      next = end + 1;
+    }
+    prefix = pixels[k];
+  }
+  emit(prefix);
+  emit(end);
+  if (bits > 0) bytes.push(acc & 255);
+
+  out.push(minCodeSize);
+  for (let k = 0; k < bytes.length; k += 255) {
+    const block = bytes.slice(k, k + 255);
+    out.push(block.length, ...block);
+  }
+  out.push(0);
+}
+
+const u16 = (v: number) => [v & 255, (v >> 8) & 255];
+
+/**
+ * Builds a looping GIF89a one RGBA frame at a time; `delayMs` is rounded to
+ * the format's hundredths of a second.
+ */
+export function createGifEncoder(width: number, height: number, delayMs: number) {
+  const out: number[] = [...Array.from("GIF89a", (c) => c.charCodeAt(0)), ...u16(width), ...u16(height), 0xf7, 0, 0];
+  for (const [r, g, b] of GIF_PALETTE) out.push(r, g, b);
+  // NETSCAPE2.0: loop forever
+  out.push(0x21, 0xff, 11, ...Array.from("NETSCAPE2.0", (c) => c.charCodeAt(0)), 3, 1, 0, 0, 0);
+
+  const nearest = new Map<number, number>();
+  // flat runs of one colour are most of a frame, so the last lookup is worth keeping
+  let lastKey = -1;
+  let lastIndex = 0;
+  const indexOf = (r: number, g: number, b: number) => {
+    const key = (r << 16) | (g << 8) | b;
+    if (key === lastKey) return lastIndex;
+    let best = nearest.get(key);
+    if (best === undefined) {
+      let bestDist = Infinity;
+      GIF_PALETTE.forEach(([pr, pg, pb], k) => {
+        const d = (pr - r) ** 2 + (pg - g) ** 2 + (pb - b) ** 2;
+        if (d < bestDist) {
+          bestDist = d;
+          best = k;
+        }
+      });
+      nearest.set(key, best!);
+    }
+    lastKey = key;
+    lastIndex = best!;
+    return best!;
+  };
+
+  const delay = Math.max(2, Math.round(delayMs / 10));
+  let previous: Uint8Array | null = null;
+
+  return {
+    addFrame(rgba: Uint8ClampedArray) {
+      const indexed = new Uint8Array(width * height);
+      for (let p = 0; p < indexed.length; p++) {
+        indexed[p] = indexOf(rgba[p * 4], rgba[p * 4 + 1], rgba[p * 4 + 2]);
+      }
+      // only the rectangle that changed; an unchanged frame still needs one pixel to carry its delay
+      let [x0, y0, x1, y1] = [0, 0, width - 1, height - 1];
+      if (previous) {
+        [x0, y0, x1, y1] = [width, height, -1, -1];
+        for (let y = 0; y < height; y++) {
+          for (let x = 0; x < width; x++) {
+            if (indexed[y * width + x] === previous[y * width + x]) continue;
+            x0 = Math.min(x0, x);
+            x1 = Math.max(x1, x);
+            y0 = Math.min(y0, y);
+            y1 = Math.max(y1, y);
+          }
+        }
+        if (x1 < 0) [x0, y0, x1, y1] = [0, 0, 0, 0];
+      }
+      previous = indexed;
+      const w = x1 - x0 + 1;
+      const h = y1 - y0 + 1;
+      const patch = new Uint8Array(w * h);
+      for (let y = 0; y < h; y++) patch.set(indexed.subarray((y0 + y) * width + x0, (y0 + y) * width + x0 + w), y * w);
+
+      // graphic control: keep the previous frame underneath, then wait `delay`
+      out.push(0x21, 0xf9, 4, 1 << 2, ...u16(delay), 0, 0);
+      out.push(0x2c, ...u16(x0), ...u16(y0), ...u16(w), ...u16(h), 0);
+      lzw(patch, out);
+    },
+    finish() {
+      out.push(0x3b);
+      return new Uint8Array(out);
+    },
+  };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => window.setTimeout(resolve, ms));
+
+function checkAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw new DOMException("Recording cancelled", "AbortError");
+}
+
+/**
+ * Encoding runs on the main thread, a palette lookup and a diff per pixel, so
+ * a GIF keeps to frames of at most GIF_MAX_SIDE px and GIF_MAX_FRAMES frames.
+ */
+export const GIF_MAX_SIDE = 640;
+export const GIF_MAX_FRAMES = 300;
+
+/** The rasterizing scale that fits a width × height frame into GIF_MAX_SIDE. */
+export function gifScale(width: number, height: number) {
+  return Math.min(1, GIF_MAX_SIDE / Math.max(width, height));
+}
+
+/** At most `max` of `count` frame indices, evenly spaced, always with the first and the last. */
+export function sampleFrames(count: number, max: number) {
+  if (count <= max) return Array.from({ length: count }, (_, k) => k);
+  return Array.from({ length: max }, (_, k) => Math.round((k * (count - 1)) / (max - 1)));
+}
+
+/**
+ * Renders `count` frames through `draw` into a GIF. Past GIF_MAX_FRAMES only
+ * a sample is drawn, each shown longer so the whole still plays for as long;
+ * `onProgress` counts the frames passed over too.
+ */
+export async function recordGif(
+  count: number,
+  draw: (k: number) => Promise<HTMLCanvasElement>,
+  delayMs: number,
+  onProgress?: (done: number) => void,
+  signal?: AbortSignal
+) {
+  const frames = sampleFrames(count, GIF_MAX_FRAMES);
+  let encoder: ReturnType<typeof createGifEncoder> | null = null;
+  for (const k of frames) {
+    checkAborted(signal);
+    const canvas = await draw(k);
+    encoder ??= createGifEncoder(canvas.width, canvas.height, (delayMs * count) / frames.length);
+    encoder.addFrame(canvas.getContext("2d")!.getImageData(0, 0, canvas.width, canvas.height).data);
+    onProgress?.(k + 1);
+    // let the page repaint the progress between frames
+    await sleep(0);
+  }
+  return new Blob([encoder!.finish()], { type: "image/gif" });
+}
+
+export function webmSupported() {
+  return (
+    typeof MediaRecorder !== "undefined" &&
+    MediaRecorder.isTypeSupported("video/webm") &&
+    typeof HTMLCanvasElement !== "undefined" &&
+    "captureStream" in HTMLCanvasElement.prototype
+  );
+}
+
+/** Plays `count` frames onto a recorded canvas, `delayMs` apart in real time. */
+export async function recordWebm(
+  count: number,
+  draw: (k: number) => Promise<HTMLCanvasElement>,
+  delayMs: number,
+  onProgress?: (done: number) => void,
+  signal?: AbortSignal
+) {
+  const first = await draw(0);
+  const canvas = document.createElement("canvas");
+  canvas.width = first.width;
+  canvas.height = first.height;
+  const ctx = canvas.getContext("2d")!;
+  ctx.drawImage(first, 0, 0);
+  const recorder = new MediaRecorder(canvas.captureStream(), { mimeType: "video/webm" });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => chunks.push(e.data);
+  const stopped = new Promise((resolve) => (recorder.onstop = resolve));
+  recorder.start();
+  try {
+    for (let k = 0; k < count; k++) {
+      checkAborted(signal);
+      if (k > 0) ctx.drawImage(await draw(k), 0, 0);
+      onProgress?.(k + 1);
+      await sleep(delayMs);
+    }
+  } finally {
+    recorder.stop();
+    await stopped;
+  }
+  return new Blob(chunks, { type: "video/webm" });
+}
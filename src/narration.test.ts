@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { describeOperation, editDistance, hirschberg, myers } from "./engine";
+import { MESSAGES } from "./i18n";
+import {
+  describeEdit,
+  describeHirschbergFrame,
+  describeMyersColumn,
+  describePrompt,
+  describeStep,
+  spokenToken,
+} from "./narration";
+
+describe("narration", () => {
+  it("reads a filled cell with the move the tie-break picked", () => {
+    const r = editDistance("kitten", "sitting");
+    expect(describeStep(r.stepAt(r.stepIndexOf(1, 1)))).toBe("cell 1,1: replace k with s, cost 1 from 0,0");
+    expect(describeStep(r.stepAt(r.stepIndexOf(2, 2)))).toBe("cell 2,2: match i, cost 1 from 1,1");
+    expect(describeStep(r.stepAt(r.stepIndexOf(0, 3)))).toBe("cell 0,3: insert t, cost 3 from 0,2");
+    expect(describeStep(r.stepAt(0))).toBe("cell 0,0: empty prefixes, cost 0");
+  });
+
+  it("reads the move a backtrace took instead of the tie-break's", () => {
+    const r = editDistance("ab", "ba");
+    const step = r.stepAt(r.stepIndexOf(2, 2));
+    const insert = step.candidates.find((c) => c.op === "insert")!;
+    expect(describeStep(step, insert)).toBe("cell 2,2: insert a, cost 2 from 2,1");
+  });
+
+  it("names transpositions, Gotoh matrices and similarity scores", () => {
+    const osa = editDistance("ca", "ac", { algorithm: "osa" });
+    expect(describeStep(osa.stepAt(osa.stepIndexOf(2, 2)))).toBe("cell 2,2: transpose c a, cost 1 from 0,0");
+    const g = editDistance("ab", "b", { algorithm: "gotoh" });
+    expect(describeStep(g.stepAt(g.stepIndexOf(1, 0)))).toBe("cell 1,0 in X: delete a, cost 3 from M 0,0");
+    const lcs = editDistance("ab", "b", { algorithm: "lcs" });
+    expect(describeStep(lcs.stepAt(lcs.stepIndexOf(2, 1)), undefined, "score")).toBe(
+      "cell 2,1: match b, score 1 from 1,0"
+    );
+  });
+
+  it("says whitespace by name and keeps practice answers hidden", () => {
+    expect([" ", "\t", "", undefined].map((s) => spokenToken(s))).toEqual(["space", "tab", "empty line", "nothing"]);
+    const r = editDistance("a b", "ab");
+    expect(describePrompt(r.stepAt(r.stepIndexOf(2, 2)))).toBe("cell 2,2: space against b, your turn");
+  });
+
+  it("speaks the page's language", () => {
+    const r = editDistance("kitten", "sitting");
+    const step = r.stepAt(r.stepIndexOf(1, 1));
+    expect(describeStep(step, undefined, "cost", MESSAGES.es)).toBe("celda 1,1: sustituir k por s, coste 1 desde 0,0");
+    expect(describeStep(step, undefined, "cost", MESSAGES.ar)).toBe("الخلية 1,1: استبدال k بـ s, التكلفة 1 من 0,0");
+    const spaced = editDistance("a b", "ab");
+    expect(describePrompt(spaced.stepAt(spaced.stepIndexOf(2, 2)), MESSAGES.fr)).toBe(
+      "case 2,2: espace contre b, à vous"
+    );
+  });
+
+  it("reads Hirschberg frames and Myers columns", () => {
+    const hb = hirschberg("kitten", "sitting");
+    expect(describeHirschbergFrame(hb.frames[0])).toMatch(/^forward half-row \d+, columns 0 to 7, from row 0$/);
+    const split = hb.frames.find((f) => f.kind === "split")!;
+    expect(describeHirschbergFrame(split)).toMatch(/^split at row \d+, column \d+$/);
+    const bp = myers("kitten", "sitting");
+    expect(describeMyersColumn(bp.columns[1], "s")).toBe("column 1, s: 6 in the last row");
+    expect(describeMyersColumn(bp.columns[0], undefined, MESSAGES.es)).toBe("columna 0: 6 en la última fila");
+    expect(describeHirschbergFrame(split, MESSAGES.fr)).toMatch(/^coupure à la ligne \d+, colonne \d+$/);
+  });
+
+  it("lists edits like the engine does, in the page's language", () => {
+    const { operations } = editDistance("abcde", "bacxef", { algorithm: "osa" }).alignment();
+    expect(new Set(operations.map((o) => o.op))).toEqual(new Set(["transpose", "replace", "insert"]));
+    expect(operations.map((o) => describeEdit(o))).toEqual(operations.map(describeOperation));
+    const removed = editDistance("ab", "b").alignment().operations[0];
+    expect(describeEdit(removed)).toBe(describeOperation(removed));
+    expect(describeEdit(removed, MESSAGES.es)).not.toBe(describeOperation(removed));
+  });
+});
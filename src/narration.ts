@@ -0,0 +1,118 @@
+import { formatCost, maximizes } from "./engine";
+import type { Algorithm, Candidate, CellExplain, EditOperation, HirschbergFrame, MyersColumn, Op } from "./engine";
+import { MESSAGES } from "./i18n";
+import type { Messages } from "./i18n";
+
+/**
+ * The words for what the table shows: the Current Cell panel's labels, which
+ * the command line prints too, and what the screen-reader live region says at
+ * each step of the playback — one short sentence per frame, e.g. "cell 3,4:
+ * replace e with c, cost 4 from 3,3". The sentences follow the panel, so a
+ * learner listening and one watching get the same story. The words come from
+ * the page's message catalog (English unless `t` says otherwise).
+ */
+
+/** "Replace (1)"; without a weight, just the operation. */
+export function opLabel(op: Op, weight?: number, t: Messages = MESSAGES.en) {
+  if (op === "init") return t.cell.ops.init;
+  return weight === undefined ? t.cell.ops[op] : `${t.cell.ops[op]} (${formatCost(weight)})`;
+}
+
+/** What the table's final value is called. */
+export function optimumLabelOf(algorithm: Algorithm, t: Messages = MESSAGES.en) {
+  return !maximizes(algorithm) ? t.optimum.distance : algorithm === "lcs" ? t.optimum.lcsLength : t.optimum.score;
+}
+
+// Smith–Waterman's zero floor is an "init" candidate too, but it can win anywhere in the table
+export function candidateLabel(c: { op: Op; weight: number }, algorithm: Algorithm, t: Messages = MESSAGES.en) {
+  return c.op === "init" && algorithm === "smith-waterman" ? t.cell.zeroFloor : opLabel(c.op, c.weight, t);
+}
+
+/** One edit of an alignment, as the edit script lists it: "replace 'k'→'s' at 0". */
+export function describeEdit(o: EditOperation, t: Messages = MESSAGES.en) {
+  switch (o.op) {
+    case "replace":
+    case "transpose":
+      return t.edits[o.op](o.from, o.to, o.at);
+    case "insert":
+      return t.edits.insert(o.to, o.at);
+    case "delete":
+      return t.edits.delete(o.from, o.at);
+  }
+}
+
+/** A token as it should be read out: whitespace by name, since the grid shows it as ␣ / ⇥ / ⏎. */
+export function spokenToken(token: string | undefined, t: Messages = MESSAGES.en) {
+  if (token === undefined) return t.narration.nothing;
+  if (token === "") return t.narration.emptyLine;
+  if (token === " ") return t.narration.space;
+  if (token === "\t") return t.narration.tab;
+  return token;
+}
+
+/** The move into (i, j), in words: "replace e with c", "insert s", "start here". */
+export function describeMove(step: CellExplain, move: Candidate, t: Messages = MESSAGES.en) {
+  const a = spokenToken(step.aChar, t);
+  const b = spokenToken(step.bChar, t);
+  switch (move.op) {
+    case "match":
+      return t.narration.match(a);
+    case "replace":
+      return t.narration.replace(a, b);
+    case "insert":
+      return t.narration.insert(b);
+    case "delete":
+      return t.narration.delete(a);
+    case "transpose":
+      // A's pair ending at row i reads bChar aChar; B has it the other way round
+      return t.narration.transpose(b, a);
+    case "init":
+      return step.i === 0 && step.j === 0 ? t.narration.emptyPrefixes : t.narration.startHere;
+  }
+}
+
+/**
+ * "cell 3,4: replace e with c, cost 4 from 3,3". `move` is the candidate
+ * taken, the tie-break's pick unless a backtrace went another way; similarity
+ * algorithms say "score" instead of "cost".
+ */
+export function describeStep(
+  step: CellExplain,
+  move: Candidate = step.chosen,
+  value: "cost" | "score" = "cost",
+  t: Messages = MESSAGES.en
+) {
+  const n = t.narration;
+  const from = move.from
+    ? ` ${n.from} ${move.fromLayer ? `${move.fromLayer} ` : ""}${move.from[0]},${move.from[1]}`
+    : "";
+  const layer = move.layer ? n.inLayer(move.layer) : "";
+  return `${n.cell(step.i, step.j)}${layer}: ${describeMove(step, move, t)}, ${n[value]} ${formatCost(step.cost)}${from}`;
+}
+
+/** Practice mode asks for a cell without giving its value away. */
+export function describePrompt(step: CellExplain, t: Messages = MESSAGES.en) {
+  const n = t.narration;
+  return `${n.cell(step.i, step.j)}: ${n.prompt(spokenToken(step.aChar, t), spokenToken(step.bChar, t))}`;
+}
+
+export function describeHirschbergFrame(frame: HirschbergFrame, t: Messages = MESSAGES.en) {
+  const n = t.narration;
+  const { top, left, bottom, right } = frame.region;
+  switch (frame.kind) {
+    case "forward":
+      return n.forwardRow(frame.row, left, right, top);
+    case "reverse":
+      return n.reverseRow(frame.row, left, right, bottom);
+    case "split":
+      return n.split(frame.row, frame.col);
+    case "solve":
+      return n.solved(top, bottom, left, right);
+  }
+}
+
+export function describeMyersColumn(column: MyersColumn, token: string | undefined, t: Messages = MESSAGES.en) {
+  const n = t.narration;
+  const at = column.j === 0 ? n.column(0) : `${n.column(column.j)}, ${spokenToken(token, t)}`;
+  return `${at}: ${n.lastRow(column.score)}`;
+}
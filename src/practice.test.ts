@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { editDistance } from "./engine";
+import type { EditDistanceResult } from "./engine";
+import {
+  alignmentIndexOf,
+  checkCell,
+  extendTrace,
+  optimalOps,
+  parseAnswer,
+  quizAt,
+  startTrace,
+  traceOptions,
+  tracePath,
+} from "./practice";
+import type { Trace } from "./practice";
+
+// follows the k-th option at every step
+function traceBy(r: EditDistanceResult, pick: (options: [number, number][]) => [number, number]) {
+  let trace: Trace = startTrace(r.parentsOf, r.end);
+  while (!trace.done) {
+    const [i, j] = pick(traceOptions(r.parentsOf, trace));
+    trace = extendTrace(r.parentsOf, trace, i, j)!;
+  }
+  return tracePath(trace);
+}
+
+describe("practice", () => {
+  it.each(["row-major", "column-major", "anti-diagonal"] as const)(
+    "shows every candidate of the cell it asks for, %s",
+    (fillOrder) => {
+      const r = editDistance("kitten", "sitting", { fillOrder, algorithm: "osa" });
+      let pos = quizAt(r.cellAt, r.stepCount, -1);
+      expect(r.cellAt(pos.ask)).toEqual([1, 1]);
+      for (; pos.ask >= 0; pos = quizAt(r.cellAt, r.stepCount, pos.ask)) {
+        for (const c of r.stepAt(pos.ask).candidates) {
+          if (c.from) expect(r.stepIndexOf(...c.from)).toBeLessThanOrEqual(pos.revealedThrough);
+        }
+        expect(pos.revealedThrough).toBe(pos.ask - 1);
+      }
+      expect(pos.revealedThrough).toBe(r.stepCount - 1);
+    }
+  );
+
+  it("parses typed values", () => {
+    expect(parseAnswer(" 3 ")).toBe(3);
+    expect(parseAnswer("0.5")).toBe(0.5);
+    expect(parseAnswer("−2")).toBe(-2);
+    expect(parseAnswer("∞")).toBe(Infinity);
+    expect(parseAnswer("inf")).toBe(Infinity);
+    expect(parseAnswer("")).toBeNull();
+    expect(parseAnswer("three")).toBeNull();
+  });
+
+  it("checks a cell's value and accepts any tied operation", () => {
+    const r = editDistance("ab", "ba");
+    const step = r.steps.find((s) => s.i === 2 && s.j === 2)!;
+    // "ab" vs "ba": replacing the last b, deleting it or inserting the a all reach 2
+    expect(step.cost).toBe(2);
+    expect(optimalOps(step).sort()).toEqual(["delete", "insert", "replace"]);
+    expect(checkCell(step, 2, null)).toEqual({ valueRight: true, opRight: null });
+    expect(checkCell(step, 2, "insert")).toEqual({ valueRight: true, opRight: true });
+    expect(checkCell(step, 1, "match")).toEqual({ valueRight: false, opRight: false });
+  });
+
+  it("compares values the way the grid prints them", () => {
+    const r = editDistance("a", "b", { costs: { insert: 0.1, delete: 0.2, replace: 0.5 } });
+    const step = r.steps.find((s) => s.i === 1 && s.j === 1)!;
+    expect(checkCell(step, 0.3, "insert").valueRight).toBe(true);
+  });
+
+  it("rejects a step no optimal path takes", () => {
+    const r = editDistance("kitten", "sitting");
+    const trace = startTrace(r.parentsOf, r.end);
+    expect(extendTrace(r.parentsOf, trace, 0, 0)).toBeNull();
+    expect(extendTrace(r.parentsOf, trace, 6, 6)).not.toBeNull();
+  });
+
+  it("lands on buildBacktrace's alignments", () => {
+    const r = editDistance("intention", "execution");
+    const first = traceBy(r, (o) => o[0]);
+    expect(first).toEqual(r.alignment(0).path);
+    const last = traceBy(r, (o) => o[o.length - 1]);
+    const k = alignmentIndexOf(r.alignment, r.alignmentCount, last);
+    expect(k).toBeGreaterThanOrEqual(0);
+    expect(r.alignment(k).path).toEqual(last);
+  });
+
+  it("traces Gotoh paths across matrices and Smith–Waterman from its best cell", () => {
+    const g = editDistance("AAAGGGTTT", "AAATTT", { algorithm: "gotoh" });
+    expect(traceBy(g, (o) => o[0])).toEqual(g.alignment(0).path);
+    const sw = editDistance("TGTTACGG", "GGTTGACTA", {
+      algorithm: "smith-waterman",
+      scores: { match: 3, mismatch: -3, gap: -2 },
+    });
+    expect(traceBy(sw, (o) => o[0])).toEqual(sw.alignment(0).path);
+  });
+});
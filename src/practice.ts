@@ -0,0 +1,102 @@
+import { formatCost } from "./engine";
+import type { CellExplain, Layer, Op, ParentLookup, PathCell } from "./engine";
+
+/**
+ * Checks for the practice mode, where the learner fills the table cell by
+ * cell and then traces an optimal path back by hand. Values are compared as
+ * the grid prints them, so 0.1 + 0.2 and 0.3 are the same answer.
+ */
+
+/** Reads a typed cell value; "∞" / "inf" stand for infinity. null if it isn't a number. */
+export function parseAnswer(text: string): number | null {
+  const t = text.trim().replace(/^−/, "-");
+  if (/^[+-]?(∞|inf|infinity)$/i.test(t)) return t.startsWith("-") ? -Infinity : Infinity;
+  if (t === "") return null;
+  const v = Number(t);
+  return Number.isFinite(v) ? v : null;
+}
+
+/**
+ * Where practice stands after fill step `step`: `ask`, the next cell to ask
+ * for, is the first interior one, since the boundary fills itself; until it is
+ * answered the grid shows every cell computed before it, boundary included, so
+ * all of its candidates are on screen. `ask` is -1 once none is left.
+ */
+export function quizAt(cellAt: (k: number) => [number, number], stepCount: number, step: number) {
+  for (let k = step + 1; k < stepCount; k++) {
+    const [i, j] = cellAt(k);
+    if (i > 0 && j > 0) return { ask: k, revealedThrough: k - 1 };
+  }
+  return { ask: -1, revealedThrough: stepCount - 1 };
+}
+
+/** The operations of the candidates that reach the cell's value: any of them is a right answer. */
+export function optimalOps(step: CellExplain): Op[] {
+  const best = formatCost(step.cost);
+  return [...new Set(step.candidates.filter((c) => formatCost(c.value) === best).map((c) => c.op))];
+}
+
+export type CellVerdict = {
+  valueRight: boolean;
+  /** null when no operation was picked */
+  opRight: boolean | null;
+};
+
+export function checkCell(step: CellExplain, value: number, op: Op | null): CellVerdict {
+  return {
+    valueRight: formatCost(value) === formatCost(step.cost),
+    opRight: op === null ? null : optimalOps(step).includes(op),
+  };
+}
+
+/**
+ * A trace in progress, from the cell alignments end at back towards their
+ * start. Each cell's `op` is the move into it, known once the learner has
+ * picked where it came from; `layer` is the Gotoh matrix the tip is in.
+ */
+export type Trace = {
+  cells: PathCell[];
+  layer?: Layer;
+  done: boolean;
+};
+
+export function startTrace(parentsOf: ParentLookup, end: [number, number]): Trace {
+  const [i, j] = end;
+  return { cells: [{ i, j, op: "init" }], done: parentsOf(i, j).length === 0 };
+}
+
+/**
+ * The trace one step further back, through (i, j); null if no optimal path
+ * steps from the tip to there. Steps are the predecessors `buildBacktrace`
+ * walks, so a finished trace is one of its alignments.
+ */
+export function extendTrace(parentsOf: ParentLookup, trace: Trace, i: number, j: number): Trace | null {
+  const tip = trace.cells[trace.cells.length - 1];
+  const pred = parentsOf(tip.i, tip.j, trace.layer).find((p) => p.i === i && p.j === j);
+  if (!pred) return null;
+  const cells = [...trace.cells.slice(0, -1), { ...tip, op: pred.op }, { i, j, op: "init" as Op }];
+  return { cells, layer: pred.layer, done: parentsOf(i, j, pred.layer).length === 0 };
+}
+
+/** The predecessors the tip could step to next, for a hint. */
+export function traceOptions(parentsOf: ParentLookup, trace: Trace): [number, number][] {
+  const tip = trace.cells[trace.cells.length - 1];
+  return parentsOf(tip.i, tip.j, trace.layer).map((p) => [p.i, p.j]);
+}
+
+/** The finished trace as a path from its start to its end, the way `buildBacktrace` orders it. */
+export function tracePath(trace: Trace): PathCell[] {
+  return trace.cells.slice().reverse();
+}
+
+/** Which of the first `limit` alignments the path is, or -1 past that. */
+export function alignmentIndexOf(
+  alignment: (index: number) => { path: PathCell[] },
+  count: number,
+  path: PathCell[],
+  limit = 1000
+) {
+  const key = JSON.stringify(path);
+  for (let k = 0; k < Math.min(count, limit); k++) if (JSON.stringify(alignment(k).path) === key) return k;
+  return -1;
+}